@@ -0,0 +1,103 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { complianceRequestsToCsv, listComplianceRequests } from "../services/compliance-requests.server";
+import { isAuthorizedWorkerRequest } from "../services/sync-worker.server";
+import {
+  validateDateRange,
+  validateReportFormat,
+  validateShopDomain,
+  sanitizeErrorMessage,
+  type ReportFormat,
+} from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// GET /api/compliance/report
+// Query:
+//   format?: "json" | "csv" (default json)
+//   topic?: string (e.g. "CUSTOMERS_REDACT")
+//   from?, to?: ISO 8601 dates, matched against when the request was received
+//   shop?: string - required with the operator header, ignored otherwise
+// Headers:
+//   Authorization?: "Bearer <CRON_SECRET>" - operator access for any shop. shop/redact arrives
+//   48h after uninstall, when the shop can no longer open the app to download its own report.
+// Downloads the shop's compliance request log, oldest first
+// --------------------
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const params = new URL(request.url).searchParams;
+
+    let shop: string;
+    if (isAuthorizedWorkerRequest(request)) {
+      try {
+        shop = validateShopDomain(params.get("shop"));
+      } catch (error) {
+        return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+      }
+      console.log(`[compliance report loader] Operator report for ${shop}`);
+    } else {
+      const { session } = await authenticate.admin(request);
+      shop = session.shop;
+    }
+
+    let format: ReportFormat;
+    let from: Date | undefined;
+    let to: Date | undefined;
+    try {
+      format = validateReportFormat(params.get("format"));
+      ({ from, to } = validateDateRange(params.get("from"), params.get("to")));
+    } catch (error) {
+      return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+    }
+
+    const topic = params.get("topic")?.trim().toUpperCase() || undefined;
+
+    const requests = await listComplianceRequests({ shop, topic, from, to });
+
+    const filename = `compliance-report-${shop}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const headers = {
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    };
+
+    if (format === "csv") {
+      return new Response(complianceRequestsToCsv(requests), {
+        headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+      });
+    }
+
+    return jsonResponse(
+      {
+        ok: true,
+        shop,
+        generatedAt: new Date().toISOString(),
+        filters: { topic: topic ?? null, from: from ?? null, to: to ?? null },
+        requests,
+      },
+      { headers }
+    );
+  } catch (e) {
+    // authenticate.admin throws Responses (redirects / 401s) that must reach the client untouched
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[compliance report loader] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns a download from the loader, so the component returns null
+// --------------------
+export default function ComplianceReportApi() {
+  return null;
+}
@@ -0,0 +1,52 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getCustomerDataExport } from "../services/customer-data-export.server";
+import { sanitizeErrorMessage } from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// GET /api/data-requests/:id
+// Downloads the JSON bundle for one customer data request
+// --------------------
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+
+    const found = params.id ? await getCustomerDataExport(session.shop, params.id) : null;
+    if (!found) {
+      return jsonResponse({ ok: false, error: "Data request not found" }, { status: 404 });
+    }
+
+    const filename = `customer-data-${found.customerId ?? "unknown"}-${found.createdAt.toISOString().slice(0, 10)}.json`;
+
+    return new Response(JSON.stringify(found.bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[data request download] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from the loader, so the component returns null
+// --------------------
+export default function DataRequestDownloadApi() {
+  return null;
+}
@@ -0,0 +1,222 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { resolveTenant } from "../services/tenant-resolver.server";
+import { FEATURES, getGrantedScopes, missingScopesFor, type Feature } from "../services/capabilities.server";
+import {
+  getInventoryAudit,
+  InventoryAuditSetupError,
+  queueInventoryAudit,
+  queueInventoryCorrection,
+} from "../services/inventory-audit.server";
+import type { SyncLockHolder } from "../services/sync-lock.server";
+import { triggerSyncWorker } from "../services/sync-worker.server";
+import {
+  validateAuditThreshold,
+  validateCorrectionDirection,
+  sanitizeErrorMessage,
+  type CorrectionDirection,
+} from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+function missingScopeResponse(feature: Feature, missingScopes: string[]) {
+  return jsonResponse(
+    {
+      ok: false,
+      error: `${FEATURES[feature].label} needs Shopify permissions the app has not been granted: ${missingScopes.join(", ")}`,
+      errorType: "missing_scope",
+      feature,
+      missingScopes,
+    },
+    { status: 403 }
+  );
+}
+
+function syncLockedResponse(holder: SyncLockHolder | null) {
+  return jsonResponse(
+    {
+      ok: false,
+      error: "Another sync is already in progress for this shop. Wait for it to finish and try again.",
+      errorType: "sync_locked",
+      holder: holder && { jobId: holder.jobId, intent: holder.intent },
+    },
+    { status: 409 }
+  );
+}
+
+// --------------------
+// POST /api/sync/audit
+// Body (run an audit):
+//   { action: "run", threshold?: number (default 0) }
+//   Queues an audit job comparing Shopify on-hand with GetInv stock at every mapped location;
+//   202 with the job (poll /api/sync/jobs/:id), 409 if another sync holds the lock or no location is mapped
+// Body (correct an audit's discrepancies):
+//   { action: "correct", auditId: string, direction: "trust_getinv" | "trust_shopify", discrepancyIds?: string[] }
+//   Queues a push (trust_getinv) or pull (trust_shopify) that applies the chosen side's quantities;
+//   202 with the job, 409 if another sync holds the lock or the audit is too old to correct
+// --------------------
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    if (request.method !== "POST") {
+      return jsonResponse({ ok: false, error: "Method not allowed" }, { status: 405, headers: { Allow: "POST" } });
+    }
+
+    const { session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+
+    const { adminId, error: connectionError } = await resolveTenant(shopDomain, { fresh: true });
+    if (connectionError) {
+      return jsonResponse(
+        { ok: false, error: connectionError.message, errorType: connectionError.type },
+        { status: connectionError.statusCode || 500 }
+      );
+    }
+    if (!adminId) {
+      return jsonResponse(
+        {
+          ok: false,
+          error:
+            "Shop not linked to GetInv tenant yet. Enter a link code from GetInv on the Link GetInv page first.",
+        },
+        { status: 409 }
+      );
+    }
+
+    let body: Record<string, unknown> = {};
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ ok: false, error: "Invalid JSON in request body" }, { status: 400 });
+    }
+
+    const granted = await getGrantedScopes(shopDomain);
+
+    if (body.action === "run") {
+      let threshold: number;
+      try {
+        threshold = validateAuditThreshold(body.threshold);
+      } catch (error) {
+        return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+      }
+
+      for (const feature of ["pull", "locations"] as const) {
+        const missingScopes = missingScopesFor(feature, granted);
+        if (missingScopes.length > 0) return missingScopeResponse(feature, missingScopes);
+      }
+
+      let queued;
+      try {
+        queued = await queueInventoryAudit({ shop: shopDomain, adminId, threshold });
+      } catch (error) {
+        if (error instanceof InventoryAuditSetupError) {
+          return jsonResponse({ ok: false, error: error.message, errorType: "no_locations" }, { status: 409 });
+        }
+        throw error;
+      }
+
+      if (!queued.queued) {
+        return syncLockedResponse(queued.holder);
+      }
+
+      const { job } = queued;
+      console.log(`[audit action] Queued audit for ${shopDomain} as job ${job.id}`, { threshold });
+
+      triggerSyncWorker(request);
+
+      return jsonResponse(
+        { ok: true, jobId: job.id, statusUrl: `/api/sync/jobs/${job.id}` },
+        { status: 202, headers: { Location: `/api/sync/jobs/${job.id}` } }
+      );
+    }
+
+    if (body.action === "correct") {
+      let direction: CorrectionDirection;
+      try {
+        direction = validateCorrectionDirection(body.direction);
+      } catch (error) {
+        return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+      }
+
+      const discrepancyIds = body.discrepancyIds;
+      if (
+        discrepancyIds !== undefined &&
+        (!Array.isArray(discrepancyIds) || !discrepancyIds.every((id): id is string => typeof id === "string"))
+      ) {
+        return jsonResponse({ ok: false, error: "discrepancyIds must be an array of strings" }, { status: 400 });
+      }
+
+      const audit = typeof body.auditId === "string" ? await getInventoryAudit(shopDomain, body.auditId) : null;
+      // An audit from an earlier tenant compares stock this tenant doesn't own
+      if (!audit || audit.adminId !== adminId) {
+        return jsonResponse({ ok: false, error: "Audit not found" }, { status: 404 });
+      }
+
+      const feature: Feature = direction === "trust_getinv" ? "push" : "pull";
+      const missingScopes = missingScopesFor(feature, granted);
+      if (missingScopes.length > 0) return missingScopeResponse(feature, missingScopes);
+
+      const result = await queueInventoryCorrection({ audit, direction, discrepancyIds });
+
+      if (!result.queued && result.reason === "no_discrepancies") {
+        return jsonResponse(
+          { ok: false, error: "None of those discrepancies are in this audit with a quantity on both sides" },
+          { status: 400 }
+        );
+      }
+      if (!result.queued && result.reason === "audit_stale") {
+        return jsonResponse(
+          {
+            ok: false,
+            error: "Stock may have changed since this audit. Run a new audit, then correct from it.",
+            errorType: "audit_stale",
+          },
+          { status: 409 }
+        );
+      }
+      if (!result.queued) {
+        return syncLockedResponse(result.holder);
+      }
+
+      const { correction } = result;
+      console.log(`[audit action] Queued ${direction} correction for audit ${audit.id} as job ${correction.syncJobId}`, {
+        changes: Array.isArray(correction.changes) ? correction.changes.length : 0,
+      });
+
+      triggerSyncWorker(request);
+
+      return jsonResponse(
+        {
+          ok: true,
+          correction,
+          jobId: correction.syncJobId,
+          statusUrl: `/api/sync/jobs/${correction.syncJobId}`,
+        },
+        { status: 202, headers: { Location: `/api/sync/jobs/${correction.syncJobId}` } }
+      );
+    }
+
+    return jsonResponse({ ok: false, error: 'Unknown action. Must be "run" or "correct"' }, { status: 400 });
+  } catch (e) {
+    // authenticate.admin throws Responses (redirects / 401s) that must reach the client untouched
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[audit action] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from the action, so the component returns null
+// --------------------
+export default function SyncAuditApi() {
+  return null;
+}
@@ -0,0 +1,51 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getSyncJobStatus } from "../services/sync-jobs.server";
+import { sanitizeErrorMessage } from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// GET /api/sync/jobs/:id
+// Status of a single job, for polling after POST /api/sync returns 202
+// Per-item results are left out; the run's page in the app shows them
+// --------------------
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+
+    const job = params.id ? await getSyncJobStatus(session.shop, params.id) : null;
+    if (!job) {
+      return jsonResponse({ ok: false, error: "Job not found" }, { status: 404 });
+    }
+
+    const done = job.status !== "queued" && job.status !== "running";
+
+    return jsonResponse(
+      { ok: true, job, done },
+      // Tell pollers to back off a little while the job is still pending
+      { headers: done ? {} : { "Retry-After": "2" } }
+    );
+  } catch (e) {
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[job loader] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from the loader, so the component returns null
+// --------------------
+export default function SyncJobApi() {
+  return null;
+}
@@ -0,0 +1,77 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { listSyncJobs } from "../services/sync-jobs.server";
+import {
+  validateSyncJobIntent,
+  validatePagination,
+  validateSyncJobStatus,
+  sanitizeErrorMessage,
+  type SyncJobStatus,
+  type SyncJobIntent,
+} from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// GET /api/sync/jobs
+// Query:
+//   page?: number (default 1)
+//   pageSize?: number (default 20, max 100)
+//   intent?: "pull" | "push_changed" | "push_all" | "toggle_auto" | "audit"
+//   status?: "queued" | "running" | "succeeded" | "failed" | "cancelled"
+// Returns the shop's sync job history, newest first
+// --------------------
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+    const params = new URL(request.url).searchParams;
+
+    let page: number;
+    let pageSize: number;
+    let intent: SyncJobIntent | undefined;
+    let status: SyncJobStatus | undefined;
+    try {
+      ({ page, pageSize } = validatePagination(params.get("page"), params.get("pageSize")));
+      intent = params.get("intent") ? validateSyncJobIntent(params.get("intent")) : undefined;
+      status = params.get("status") ? validateSyncJobStatus(params.get("status")) : undefined;
+    } catch (error) {
+      return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+    }
+
+    const { jobs, total } = await listSyncJobs({ shop: shopDomain, intent, status, page, pageSize });
+
+    return jsonResponse({
+      ok: true,
+      jobs,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (e) {
+    // authenticate.admin throws Responses (redirects / 401s) that must reach the client untouched
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[jobs loader] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from the loader, so the component returns null
+// --------------------
+export default function SyncJobsApi() {
+  return null;
+}
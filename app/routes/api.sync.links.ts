@@ -0,0 +1,231 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { resolveTenant } from "../services/tenant-resolver.server";
+import {
+  deleteProductLink,
+  findProductLink,
+  findProductLinksBySku,
+  getShopifyVariant,
+  listGetInvItems,
+  listProductLinks,
+  upsertProductLink,
+} from "../services/product-links.server";
+import {
+  validatePagination,
+  validateProductLinkSource,
+  sanitizeErrorMessage,
+  type ProductLinkSource,
+} from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// GET /api/sync/links
+// Query (lookup, first one given wins):
+//   getinvItemId?: string
+//   variantId?: string (numeric id or GID)
+//   inventoryItemId?: string (numeric id or GID)
+//   sku?: string (every link with that SKU; more than one means it is duplicated in Shopify)
+// Query (list, when no lookup is given):
+//   page?: number (default 1)
+//   pageSize?: number (default 50, max 250)
+//   source?: "sync" | "manual"
+// Returns the shop's product links for the GetInv tenant it is linked to
+// --------------------
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+    const params = new URL(request.url).searchParams;
+
+    const { adminId, error: connectionError } = await resolveTenant(shopDomain);
+    if (connectionError) {
+      return jsonResponse(
+        { ok: false, error: connectionError.message, errorType: connectionError.type },
+        { status: connectionError.statusCode || 500 }
+      );
+    }
+    if (!adminId) {
+      return jsonResponse(
+        {
+          ok: false,
+          error:
+            "Shop not linked to GetInv tenant yet. Enter a link code from GetInv on the Link GetInv page first.",
+        },
+        { status: 409 }
+      );
+    }
+
+    const getinvItemId = params.get("getinvItemId");
+    const variantId = params.get("variantId");
+    const inventoryItemId = params.get("inventoryItemId");
+    const sku = params.get("sku");
+
+    if (getinvItemId || variantId || inventoryItemId) {
+      const link = await findProductLink(shopDomain, adminId, {
+        getinvItemId: getinvItemId || undefined,
+        variantId: variantId || undefined,
+        inventoryItemId: inventoryItemId || undefined,
+      });
+      if (!link) {
+        return jsonResponse({ ok: false, error: "No product link found" }, { status: 404 });
+      }
+      return jsonResponse({ ok: true, link });
+    }
+
+    if (sku) {
+      const links = await findProductLinksBySku(shopDomain, adminId, sku);
+      return jsonResponse({ ok: true, links, duplicateSku: links.length > 1 });
+    }
+
+    let page: number;
+    let pageSize: number;
+    let source: ProductLinkSource | undefined;
+    try {
+      ({ page, pageSize } = validatePagination(params.get("page"), params.get("pageSize"), {
+        defaultPageSize: 50,
+        maxPageSize: 250,
+      }));
+      source = params.get("source") ? validateProductLinkSource(params.get("source")) : undefined;
+    } catch (error) {
+      return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+    }
+
+    const { links, total } = await listProductLinks({ shop: shopDomain, adminId, source, page, pageSize });
+
+    return jsonResponse({
+      ok: true,
+      links,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (e) {
+    // authenticate.admin throws Responses (redirects / 401s) that must reach the client untouched
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[links loader] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// POST /api/sync/links
+// Body: { getinvItemId: string, variantId: string (numeric id or GID) }
+// Links a GetInv item to a Shopify variant by hand; either side's previous link is replaced
+//
+// DELETE /api/sync/links
+// Body: { getinvItemId: string }
+// Removes the item's link; the next sync falls back to matching it by SKU
+// --------------------
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    if (request.method !== "POST" && request.method !== "DELETE") {
+      return jsonResponse(
+        { ok: false, error: "Method not allowed" },
+        { status: 405, headers: { Allow: "POST, DELETE" } }
+      );
+    }
+
+    const { admin, session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+
+    const { adminId, error: connectionError } = await resolveTenant(shopDomain);
+    if (connectionError) {
+      return jsonResponse(
+        { ok: false, error: connectionError.message, errorType: connectionError.type },
+        { status: connectionError.statusCode || 500 }
+      );
+    }
+    if (!adminId) {
+      return jsonResponse(
+        {
+          ok: false,
+          error:
+            "Shop not linked to GetInv tenant yet. Enter a link code from GetInv on the Link GetInv page first.",
+        },
+        { status: 409 }
+      );
+    }
+
+    let body: Record<string, unknown> = {};
+    try {
+      body = await request.json();
+    } catch {
+      return jsonResponse({ ok: false, error: "Invalid JSON in request body" }, { status: 400 });
+    }
+
+    const getinvItemId = typeof body.getinvItemId === "string" ? body.getinvItemId.trim() : "";
+    if (!getinvItemId) {
+      return jsonResponse({ ok: false, error: "getinvItemId is required" }, { status: 400 });
+    }
+
+    if (request.method === "DELETE") {
+      const deleted = await deleteProductLink(shopDomain, adminId, getinvItemId);
+      if (!deleted) {
+        return jsonResponse({ ok: false, error: "No product link found" }, { status: 404 });
+      }
+      console.log(`[links action] Unlinked GetInv item ${getinvItemId} for ${shopDomain}`);
+      return jsonResponse({ ok: true });
+    }
+
+    const variantId = typeof body.variantId === "string" ? body.variantId.trim() : "";
+    if (!variantId) {
+      return jsonResponse({ ok: false, error: "variantId is required" }, { status: 400 });
+    }
+
+    // Both sides are checked so a stale page can't link ids that no longer exist
+    const [variant, items] = await Promise.all([
+      getShopifyVariant(admin.graphql, variantId),
+      listGetInvItems(adminId, { ids: [getinvItemId] }),
+    ]);
+    if (!variant) {
+      return jsonResponse({ ok: false, error: "That Shopify variant no longer exists" }, { status: 404 });
+    }
+    if (!items.some((item) => item.id === getinvItemId)) {
+      return jsonResponse({ ok: false, error: "That GetInv item no longer exists" }, { status: 404 });
+    }
+
+    const link = await upsertProductLink(
+      shopDomain,
+      adminId,
+      {
+        getinvItemId,
+        productId: variant.productId,
+        variantId: variant.id,
+        inventoryItemId: variant.inventoryItemId,
+        sku: variant.sku,
+      },
+      "manual"
+    );
+
+    console.log(`[links action] Linked GetInv item ${getinvItemId} to ${variant.id} for ${shopDomain}`);
+    return jsonResponse({ ok: true, link });
+  } catch (e) {
+    // authenticate.admin throws Responses (redirects / 401s) that must reach the client untouched
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[links action] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from the loader and action, so the component returns null
+// --------------------
+export default function SyncLinksApi() {
+  return null;
+}
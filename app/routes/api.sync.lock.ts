@@ -0,0 +1,81 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { forceReleaseSyncLock, getSyncLockForShop } from "../services/sync-lock.server";
+import { sanitizeErrorMessage } from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// GET /api/sync/lock
+// Shows who holds the shop's sync lock, if anyone
+// --------------------
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    const lock = await getSyncLockForShop(session.shop);
+
+    return jsonResponse({ ok: true, locked: Boolean(lock), lock });
+  } catch (e) {
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[lock loader] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// DELETE /api/sync/lock
+// Force-releases a stuck lock and cancels the job that held it
+// `freed: false` means the job was already running: the lock is kept until its run returns
+// (at most until lock.expiresAt), so a new sync can't overlap it
+// --------------------
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "DELETE") {
+    return jsonResponse({ ok: false, error: "Method not allowed" }, { status: 405, headers: { Allow: "GET, DELETE" } });
+  }
+
+  try {
+    const { session } = await authenticate.admin(request);
+
+    const released = await forceReleaseSyncLock(
+      session.shop,
+      `Sync lock force-released by ${session.onlineAccessInfo?.associated_user?.email ?? "a shop admin"}`
+    );
+
+    if (!released) {
+      return jsonResponse({ ok: true, released: false, message: "No sync lock is held for this shop" });
+    }
+
+    return jsonResponse({
+      ok: true,
+      released: true,
+      freed: released.freed,
+      lock: released.lock,
+      ...(!released.freed && {
+        message: "The job was cancelled. Its run is still finishing; the lock frees once it returns.",
+      }),
+    });
+  } catch (e) {
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[lock action] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from loader/action, so the component returns null
+// --------------------
+export default function SyncLockApi() {
+  return null;
+}
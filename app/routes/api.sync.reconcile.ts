@@ -0,0 +1,189 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { resolveTenant } from "../services/tenant-resolver.server";
+import {
+  getLatestReconciliationJob,
+  getLatestReconciliationReport,
+  queueReconciliation,
+  reconciliationToCsv,
+} from "../services/reconciliation.server";
+import { triggerSyncWorker } from "../services/sync-worker.server";
+import {
+  validateReconciliationBucket,
+  validateReportFormat,
+  sanitizeErrorMessage,
+  type ReconciliationBucket,
+  type ReportFormat,
+} from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// GET /api/sync/reconcile
+// Query:
+//   format?: "json" | "csv" (default json)
+//   bucket?: "matched" | "shopify_only" | "getinv_only" | "duplicate_sku" | "blank_sku"
+// The latest stored report of how the Shopify catalog and the tenant's GetInv items pair up
+// (queue a new one with POST); 404 if none has been run yet. `pendingJobId` is a report still being built
+// CSV is sent as a download; the JSON summary always counts every bucket
+// --------------------
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+    const params = new URL(request.url).searchParams;
+
+    let format: ReportFormat;
+    let bucket: ReconciliationBucket | undefined;
+    try {
+      format = validateReportFormat(params.get("format"));
+      bucket = params.get("bucket") ? validateReconciliationBucket(params.get("bucket")) : undefined;
+    } catch (error) {
+      return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+    }
+
+    const { adminId, error: connectionError } = await resolveTenant(shopDomain);
+    if (connectionError) {
+      return jsonResponse(
+        { ok: false, error: connectionError.message, errorType: connectionError.type },
+        { status: connectionError.statusCode || 500 }
+      );
+    }
+    if (!adminId) {
+      return jsonResponse(
+        {
+          ok: false,
+          error:
+            "Shop not linked to GetInv tenant yet. Enter a link code from GetInv on the Link GetInv page first.",
+        },
+        { status: 409 }
+      );
+    }
+
+    const [report, job] = await Promise.all([
+      getLatestReconciliationReport(shopDomain, adminId),
+      getLatestReconciliationJob(shopDomain, adminId),
+    ]);
+    const pendingJobId = job && (job.status === "queued" || job.status === "running") ? job.id : null;
+
+    if (!report) {
+      return jsonResponse(
+        { ok: false, error: "No reconciliation report yet. Run one first.", errorType: "no_report", pendingJobId },
+        { status: 404 }
+      );
+    }
+
+    const rows = bucket ? report.rows.filter((r) => r.bucket === bucket) : report.rows;
+
+    if (format === "csv") {
+      const filename = `reconciliation-${shopDomain}-${report.generatedAt.slice(0, 10)}${bucket ? `-${bucket}` : ""}.csv`;
+      return new Response(reconciliationToCsv(rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return jsonResponse(
+      {
+        ok: true,
+        shop: shopDomain,
+        generatedAt: report.generatedAt,
+        complete: report.complete,
+        pendingJobId,
+        summary: report.summary,
+        filters: { bucket: bucket ?? null },
+        rows,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (e) {
+    // authenticate.admin throws Responses (redirects / 401s) that must reach the client untouched
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[reconcile loader] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// POST /api/sync/reconcile
+// Queues a report for the sync worker; 202 with the job (poll /api/sync/jobs/:id),
+// 409 if another sync holds the lock
+// --------------------
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    if (request.method !== "POST") {
+      return jsonResponse({ ok: false, error: "Method not allowed" }, { status: 405, headers: { Allow: "GET, POST" } });
+    }
+
+    const { session } = await authenticate.admin(request);
+    const shopDomain = session.shop;
+
+    const { adminId, error: connectionError } = await resolveTenant(shopDomain, { fresh: true });
+    if (connectionError) {
+      return jsonResponse(
+        { ok: false, error: connectionError.message, errorType: connectionError.type },
+        { status: connectionError.statusCode || 500 }
+      );
+    }
+    if (!adminId) {
+      return jsonResponse(
+        {
+          ok: false,
+          error:
+            "Shop not linked to GetInv tenant yet. Enter a link code from GetInv on the Link GetInv page first.",
+        },
+        { status: 409 }
+      );
+    }
+
+    const queued = await queueReconciliation({ shop: shopDomain, adminId });
+    if (!queued.queued) {
+      return jsonResponse(
+        {
+          ok: false,
+          error: "Another sync is already in progress for this shop. Wait for it to finish and try again.",
+          errorType: "sync_locked",
+          holder: queued.holder && { jobId: queued.holder.jobId, intent: queued.holder.intent },
+        },
+        { status: 409 }
+      );
+    }
+
+    const { job } = queued;
+    console.log(`[reconcile action] Queued reconciliation for ${shopDomain} as job ${job.id}`);
+
+    triggerSyncWorker(request);
+
+    return jsonResponse(
+      { ok: true, jobId: job.id, statusUrl: `/api/sync/jobs/${job.id}` },
+      { status: 202, headers: { Location: `/api/sync/jobs/${job.id}` } }
+    );
+  } catch (e) {
+    // authenticate.admin throws Responses (redirects / 401s) that must reach the client untouched
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[reconcile action] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON or a download, so the component returns null
+// --------------------
+export default function SyncReconcileApi() {
+  return null;
+}
@@ -1,15 +1,30 @@
+import { randomUUID } from "node:crypto";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
-import { createClient } from "@supabase/supabase-js";
-import { SignJWT } from "jose";
 import { authenticate } from "../shopify.server";
+import { supabaseAdmin } from "../supabase.server";
 import {
-  validateShopDomain,
   validateIntent,
   validateIntervalMinutes,
   validateAdminId,
+  validateIdempotencyKey,
+  validateDryRun,
   sanitizeErrorMessage,
   type ValidIntent,
 } from "../utils/validation.server";
+import { enqueueSyncJob, startSyncJob, finishSyncJob, failSyncJob } from "../services/sync-jobs.server";
+import { triggerSyncWorker } from "../services/sync-worker.server";
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  abandonIdempotentRequest,
+  hashRequestBody,
+} from "../services/idempotency.server";
+import { acquireSyncLock, releaseSyncLock, type SyncLockHolder } from "../services/sync-lock.server";
+import { resolveTenant, TENANT_TROUBLESHOOTING } from "../services/tenant-resolver.server";
+import { featureForIntent, FEATURES, getGrantedScopes, missingScopesFor } from "../services/capabilities.server";
+import { getSyncLocationMappings } from "../services/location-mapping.server";
+import { isPushPreviewEnabled } from "../services/sync-preview.server";
+import type { Prisma } from "@prisma/client";
 
 // --------------------
 // Small helper: JSON responses
@@ -21,203 +36,75 @@ function jsonResponse(data: unknown, init: ResponseInit = {}) {
 }
 
 // --------------------
-// Env helpers
-// --------------------
-function mustEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Server misconfigured: ${name} missing`);
-  return v;
-}
-
-const SUPABASE_URL = () => mustEnv("SUPABASE_URL");
-const SUPABASE_SERVICE_ROLE_KEY = () => mustEnv("SUPABASE_SERVICE_ROLE_KEY");
-const APP_JWT_SECRET = () => mustEnv("APP_JWT_SECRET");
-
-// Optional override if you want, otherwise it uses SUPABASE_URL/functions/v1
-const SUPABASE_FUNCTIONS_BASE = () =>
-  process.env.SUPABASE_FUNCTIONS_BASE || `${SUPABASE_URL()}/functions/v1`;
-
-// --------------------
-// Supabase admin client (server-only)
-// --------------------
-function supabaseAdmin() {
-  return createClient(SUPABASE_URL(), SUPABASE_SERVICE_ROLE_KEY(), {
-    auth: { persistSession: false },
-  });
-}
-
-// --------------------
-// Error types for better diagnostics
+// 409 when another intent holds the tenant's sync lock
 // --------------------
-export interface ConnectionError {
-  type: "schema_not_exposed" | "permission_denied" | "table_not_found" | "network_error" | "unknown";
-  message: string;
-  details?: string;
-  statusCode?: number;
+function syncLockBusyResponse(holder: SyncLockHolder | null) {
+  return jsonResponse(
+    {
+      ok: false,
+      error: "Another sync is already in progress for this shop. Wait for it to finish and try again.",
+      errorType: "sync_locked",
+      holder: holder && {
+        jobId: holder.jobId,
+        intent: holder.intent,
+        acquiredAt: holder.acquiredAt,
+        expiresAt: holder.expiresAt,
+        job: holder.job && {
+          status: holder.job.status,
+          createdAt: holder.job.createdAt,
+          startedAt: holder.job.startedAt,
+        },
+      },
+    },
+    { status: 409 }
+  );
 }
 
 // --------------------
-// Find the GetInv tenant admin_id linked to this Shopify shop
-// (reads app_private.shopify_shops)
+// Queue a pull/push intent and hand it to the worker
+// The tenant's sync lock is taken here and released by the worker when the job ends.
+// Responds 202 with the job id; poll GET /api/sync/jobs/:id for the outcome
 // --------------------
-async function getAdminIdForShop(shopDomain: unknown): Promise<{ adminId: string | null; error?: ConnectionError }> {
-  let validatedShopDomain: string;
-  
-  try {
-    validatedShopDomain = validateShopDomain(shopDomain);
-  } catch (error) {
-    return {
-      adminId: null,
-      error: {
-        type: "unknown",
-        message: error instanceof Error ? error.message : "Invalid shop domain",
-      },
-    };
+async function queueIntent(
+  request: Request,
+  input: {
+    shop: string;
+    adminId: string;
+    intent: ValidIntent;
+    mode?: string;
+    dryRun?: boolean;
+    payload: Prisma.InputJsonObject;
   }
+) {
+  const jobId = randomUUID();
 
-  const supabase = supabaseAdmin();
+  const lock = await acquireSyncLock({ adminId: input.adminId, shop: input.shop, jobId, intent: input.intent });
+  if (!lock.acquired) {
+    console.warn(`[action] Sync lock busy for ${input.shop}:`, { holder: lock.holder?.jobId });
+    return syncLockBusyResponse(lock.holder);
+  }
 
+  let job;
   try {
-    const { data, error } = await supabase
-      .schema("app_private")
-      .from("shopify_shops")
-      .select("admin_id")
-      .eq("shop_domain", shopDomain)
-      .maybeSingle();
-
-    if (error) {
-      // Log error details for debugging
-      const errorMessage = error.message || "Unknown error";
-      const errorCode = typeof (error as { code?: string }).code === "string" ? (error as { code: string }).code : "";
-      const errorDetails = typeof (error as { details?: string }).details === "string" ? (error as { details: string }).details : "";
-
-      console.error(`[getAdminIdForShop] Error querying shopify_shops:`, {
-        shopDomain,
-        errorMessage,
-        errorCode,
-        errorDetails,
-        fullError: error,
-      });
-
-      // Determine error type based on error code/message
-      let errorType: ConnectionError["type"] = "unknown";
-      let statusCode: number | undefined;
-      let message = errorMessage;
-
-      // Check for common Supabase error patterns
-      if (errorCode === "PGRST116" || errorMessage.includes("schema") || errorMessage.includes("does not exist")) {
-        errorType = "schema_not_exposed";
-        message = `Schema 'app_private' is not accessible. Add "app_private" to Supabase API -> Exposed schemas in your Supabase dashboard.`;
-      } else if (errorCode === "PGRST301" || errorMessage.includes("permission") || errorMessage.includes("403")) {
-        errorType = "permission_denied";
-        statusCode = 403;
-        message = `Permission denied accessing app_private.shopify_shops. Check that your SUPABASE_SERVICE_ROLE_KEY has proper permissions.`;
-      } else if (errorMessage.includes("relation") && errorMessage.includes("does not exist")) {
-        errorType = "table_not_found";
-        message = `Table 'app_private.shopify_shops' does not exist. Ensure the table is created in your Supabase database.`;
-      } else if (errorMessage.includes("fetch") || errorMessage.includes("network") || errorMessage.includes("ECONNREFUSED")) {
-        errorType = "network_error";
-        message = `Network error connecting to Supabase: ${errorMessage}`;
-      }
-
-      return {
-        adminId: null,
-        error: {
-          type: errorType,
-          message,
-          details: errorDetails || errorCode,
-          statusCode,
-        },
-      };
-    }
-
-      // Log successful lookup (only in development)
-    if (process.env.NODE_ENV === "development") {
-      console.log(`[getAdminIdForShop] Lookup result:`, {
-        shopDomain: validatedShopDomain,
-        adminId: data?.admin_id || "not found",
-      });
-    }
-
-    // Validate admin ID if found
-    if (data?.admin_id) {
-      try {
-        const validatedAdminId = validateAdminId(data.admin_id);
-        return { adminId: validatedAdminId };
-      } catch (error) {
-        console.error(`[getAdminIdForShop] Invalid admin ID format:`, error);
-        return {
-          adminId: null,
-          error: {
-            type: "unknown",
-            message: "Invalid admin ID format returned from database",
-          },
-        };
-      }
-    }
-
-    return { adminId: null };
+    job = await enqueueSyncJob({ id: jobId, ...input });
   } catch (e) {
-    // Catch any unexpected errors
-    const errorMessage = e instanceof Error ? e.message : "Unknown error";
-    console.error(`[getAdminIdForShop] Unexpected error:`, {
-      shopDomain,
-      error: errorMessage,
-      stack: e instanceof Error ? e.stack : undefined,
-    });
-
-    return {
-      adminId: null,
-      error: {
-        type: "unknown",
-        message: `Unexpected error: ${errorMessage}`,
-        details: e instanceof Error ? e.stack : String(e),
-      },
-    };
+    await releaseSyncLock(input.adminId, jobId);
+    throw e;
   }
-}
+  console.log(`[action] Queued ${input.intent}${job.dryRun ? " (dry run)" : ""} as job ${job.id}`);
 
-// --------------------
-// Create a short-lived JWT that matches YOUR system:
-// payload: { userId, role } signed HS256 with APP_JWT_SECRET
-// --------------------
-async function mintAppJwt(adminId: string): Promise<string> {
-  const secret = new TextEncoder().encode(APP_JWT_SECRET());
-
-  return await new SignJWT({ userId: adminId, role: "admin" })
-    .setProtectedHeader({ alg: "HS256" })
-    .setIssuedAt()
-    .setExpirationTime("5m")
-    .sign(secret);
-}
+  triggerSyncWorker(request);
 
-// --------------------
-// Call your Supabase Edge Functions that already exist
-// shopify-pull-products
-// shopify-push-products
-// shopify-auto-sync (cron only, not used here)
-// --------------------
-async function callEdgeFunction(fnName: string, jwt: string, body?: unknown) {
-  const url = `${SUPABASE_FUNCTIONS_BASE()}/${fnName}`;
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${jwt}`,
-      "Content-Type": "application/json",
+  return jsonResponse(
+    {
+      ok: true,
+      jobId: job.id,
+      status: job.status,
+      dryRun: job.dryRun,
+      statusUrl: `/api/sync/jobs/${job.id}`,
     },
-    body: JSON.stringify(body ?? {}),
-  });
-
-  const text = await res.text();
-  let data: unknown = null;
-  try {
-    data = text ? JSON.parse(text) : null;
-  } catch {
-    data = { raw: text };
-  }
-
-  return { ok: res.ok, status: res.status, data };
+    { status: 202, headers: { "X-Sync-Job-Id": job.id, Location: `/api/sync/jobs/${job.id}` } }
+  );
 }
 
 // --------------------
@@ -231,7 +118,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
     console.log(`[loader] Checking connection for shop: ${shopDomain}`);
 
-    const { adminId, error: connectionError } = await getAdminIdForShop(shopDomain);
+    const { adminId, error: connectionError } = await resolveTenant(shopDomain);
 
     // If there was a connection error (not just "not found"), return error details
     if (connectionError) {
@@ -243,15 +130,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
           error: connectionError.message,
           errorType: connectionError.type,
           errorDetails: connectionError.details,
-          troubleshooting: {
-            schema_not_exposed:
-              "Go to Supabase Dashboard → API → Exposed schemas → Add 'app_private'",
-            permission_denied:
-              "Check that SUPABASE_SERVICE_ROLE_KEY has access to app_private schema",
-            table_not_found:
-              "Ensure app_private.shopify_shops table exists in your Supabase database",
-            network_error: "Check SUPABASE_URL and network connectivity",
-          },
+          troubleshooting: TENANT_TROUBLESHOOTING,
         },
         { status: connectionError.statusCode || 500 }
       );
@@ -262,14 +141,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
         connected: false,
         shopDomain,
         reason:
-          "This Shopify store is installed, but it is not linked to a GetInv tenant yet. Link it from your GetInv app first.",
+          "This Shopify store is installed, but it is not linked to a GetInv tenant yet. Enter a link code from GetInv on the Link GetInv page.",
       });
     }
 
     console.log(`[loader] Shop connected, adminId: ${adminId}`);
 
-    const supabase = supabaseAdmin();
-    const { data: settings, error } = await supabase
+    const { data: settings, error } = await supabaseAdmin
       .from("shopify_settings")
       .select(
         "auto_sync_enabled, auto_sync_interval_minutes, last_pull_at, last_push_at, created_at, updated_at"
@@ -299,13 +177,178 @@ export async function loader({ request }: LoaderFunctionArgs) {
   }
 }
 
+// --------------------
+// Execute a validated intent for a linked shop
+// --------------------
+async function runIntent(
+  request: Request,
+  { shop, adminId, intent, body }: { shop: string; adminId: string; intent: ValidIntent; body: Record<string, unknown> }
+): Promise<Response> {
+  let dryRun: boolean;
+  try {
+    dryRun = validateDryRun(body.dryRun, intent);
+  } catch (error) {
+    return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+  }
+
+  // A push function that ignores dryRun would run the push for real
+  if (dryRun && !isPushPreviewEnabled()) {
+    return jsonResponse(
+      {
+        ok: false,
+        error: "Previews are not enabled for this app. The push function must support dry runs first.",
+        errorType: "preview_unavailable",
+      },
+      { status: 400 }
+    );
+  }
+
+  // Optional scopes the merchant declined or revoked switch the matching intents off
+  const granted = await getGrantedScopes(shop);
+  const feature = featureForIntent(intent);
+  if (feature) {
+    const missingScopes = missingScopesFor(feature, granted);
+    if (missingScopes.length > 0) {
+      return jsonResponse(
+        {
+          ok: false,
+          error: `${FEATURES[feature].label} needs Shopify permissions the app has not been granted: ${missingScopes.join(", ")}`,
+          errorType: "missing_scope",
+          feature,
+          missingScopes,
+        },
+        { status: 403 }
+      );
+    }
+  }
+
+  // Stock lands at the mapped GetInv warehouse; without read_locations the edge functions use the default one
+  const locations =
+    intent !== "toggle_auto" && missingScopesFor("locations", granted).length === 0
+      ? await getSyncLocationMappings(shop, adminId)
+      : [];
+  // Product links are added by the sync worker when the job runs; a store can have thousands
+  const matchPayload = {
+    ...(locations.length > 0 && { locationMappings: locations.map((l) => ({ ...l })) }),
+  };
+
+  if (intent === "pull") {
+    return queueIntent(request, { shop, adminId, intent, payload: { ...matchPayload } });
+  }
+
+  if (intent === "push_changed") {
+    return queueIntent(request, {
+      shop,
+      adminId,
+      intent,
+      mode: "changed",
+      dryRun,
+      payload: { mode: "changed", ...(dryRun && { dryRun: true }), ...matchPayload },
+    });
+  }
+
+  if (intent === "push_all") {
+    return queueIntent(request, {
+      shop,
+      adminId,
+      intent,
+      mode: "all",
+      dryRun,
+      // A preview never asks to force writes, in case it is run for real
+      payload: { mode: "all", ...(dryRun ? { dryRun: true } : { force: true }), ...matchPayload },
+    });
+  }
+
+  if (intent === "toggle_auto") {
+    const enabled = Boolean(body.enabled);
+
+    let intervalMinutes: number;
+    try {
+      intervalMinutes = validateIntervalMinutes(body.intervalMinutes, 15);
+    } catch (error) {
+      return jsonResponse(
+        { ok: false, error: sanitizeErrorMessage(error) },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[action] Toggling auto-sync:`, { enabled, intervalMinutes });
+
+    const jobId = randomUUID();
+    const lock = await acquireSyncLock({ adminId, shop, jobId, intent });
+    if (!lock.acquired) {
+      return syncLockBusyResponse(lock.holder);
+    }
+
+    try {
+      return await toggleAutoSync({ shop, adminId, jobId, enabled, intervalMinutes });
+    } finally {
+      await releaseSyncLock(adminId, jobId);
+    }
+  }
+
+  console.warn(`[action] Unknown intent: ${intent}`);
+  return jsonResponse({ ok: false, error: "Unknown intent" }, { status: 400 });
+}
+
+// --------------------
+// toggle_auto: runs inline while holding the sync lock
+// --------------------
+async function toggleAutoSync({
+  shop,
+  adminId,
+  jobId,
+  enabled,
+  intervalMinutes,
+}: {
+  shop: string;
+  adminId: string;
+  jobId: string;
+  enabled: boolean;
+  intervalMinutes: number;
+}) {
+  const job = await startSyncJob({ id: jobId, shop, adminId, intent: "toggle_auto" });
+
+  const { error } = await supabaseAdmin
+    .from("shopify_settings")
+    .upsert(
+      {
+        admin_id: adminId,
+        auto_sync_enabled: enabled,
+        auto_sync_interval_minutes: intervalMinutes,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "admin_id" }
+    );
+
+  if (error) {
+    console.error(`[action] Error updating settings:`, error);
+    await failSyncJob(job.id, new Error(error.message), 500);
+    return jsonResponse({ ok: false, error: error.message }, { status: 500, headers: { "X-Sync-Job-Id": job.id } });
+  }
+
+  const result = {
+    ok: true,
+    auto_sync_enabled: enabled,
+    auto_sync_interval_minutes: intervalMinutes,
+  };
+  await finishSyncJob(job.id, { ok: true, status: 200, data: result });
+
+  console.log(`[action] Auto-sync updated successfully`);
+  return jsonResponse(result, { headers: { "X-Sync-Job-Id": job.id } });
+}
+
 // --------------------
 // POST /api/sync
 // Body:
-//   { intent: "pull" }
-//   { intent: "push_changed" }
-//   { intent: "push_all" }
+//   { intent: "pull" }                 -> 202 { jobId } (runs in the sync worker)
+//   { intent: "push_changed" }         -> 202 { jobId }
+//   { intent: "push_all" }             -> 202 { jobId }
+//   { intent: "push_*", dryRun: true } -> 202 { jobId }; the finished job carries a preview and writes nothing
+//                                         (400 unless PUSH_PREVIEW_ENABLED=true, see SUPABASE_EDGE_FUNCTIONS.md)
 //   { intent: "toggle_auto", enabled: boolean, intervalMinutes?: number }
+// Headers:
+//   Idempotency-Key?: string - duplicates within 24h replay the first response
 // --------------------
 export async function action({ request }: ActionFunctionArgs) {
   try {
@@ -314,7 +357,7 @@ export async function action({ request }: ActionFunctionArgs) {
 
     console.log(`[action] Processing request for shop: ${shopDomain}`);
 
-    const { adminId, error: connectionError } = await getAdminIdForShop(shopDomain);
+    const { adminId, error: connectionError } = await resolveTenant(shopDomain, { fresh: true });
 
     // If there was a connection error, return it
     if (connectionError) {
@@ -335,7 +378,7 @@ export async function action({ request }: ActionFunctionArgs) {
         {
           ok: false,
           error:
-            "Shop not linked to GetInv tenant yet. Go to your GetInv app and connect this shop first.",
+            "Shop not linked to GetInv tenant yet. Enter a link code from GetInv on the Link GetInv page first.",
         },
         { status: 409 }
       );
@@ -372,73 +415,53 @@ export async function action({ request }: ActionFunctionArgs) {
 
     console.log(`[action] Intent: ${intent}, adminId: ${validatedAdminId}`);
 
-    // Create your custom JWT (server-side)
-    const jwt = await mintAppJwt(validatedAdminId);
+    // Idempotency-Key: replay the stored response for repeated submissions
+    // (double-clicks, App Bridge retries) instead of running the intent twice
+    const rawIdempotencyKey = request.headers.get("Idempotency-Key");
+    if (rawIdempotencyKey === null) {
+      return runIntent(request, { shop: shopDomain, adminId: validatedAdminId, intent, body });
+    }
 
-    if (intent === "pull") {
-      console.log(`[action] Calling shopify-pull-products`);
-      const r = await callEdgeFunction("shopify-pull-products", jwt, {});
-      console.log(`[action] Pull result:`, { ok: r.ok, status: r.status });
-      return jsonResponse(r.data, { status: r.status });
+    let idempotencyKey: string;
+    try {
+      idempotencyKey = validateIdempotencyKey(rawIdempotencyKey);
+    } catch (error) {
+      return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
     }
 
-    if (intent === "push_changed") {
-      console.log(`[action] Calling shopify-push-products (changed)`);
-      const r = await callEdgeFunction("shopify-push-products", jwt, { mode: "changed" });
-      console.log(`[action] Push changed result:`, { ok: r.ok, status: r.status });
-      return jsonResponse(r.data, { status: r.status });
+    const claim = await beginIdempotentRequest({
+      shop: shopDomain,
+      key: idempotencyKey,
+      requestHash: hashRequestBody(body),
+    });
+
+    if (claim.kind === "replay") {
+      console.log(`[action] Replaying stored response for Idempotency-Key ${idempotencyKey}`);
+      return jsonResponse(claim.body, { status: claim.status, headers: { "Idempotent-Replayed": "true" } });
     }
 
-    if (intent === "push_all") {
-      console.log(`[action] Calling shopify-push-products (all)`);
-      const r = await callEdgeFunction("shopify-push-products", jwt, { mode: "all", force: true });
-      console.log(`[action] Push all result:`, { ok: r.ok, status: r.status });
-      return jsonResponse(r.data, { status: r.status });
+    if (claim.kind === "in_progress") {
+      return jsonResponse(
+        { ok: false, error: "A request with this Idempotency-Key is still being processed" },
+        { status: 409, headers: { "Retry-After": "1" } }
+      );
     }
 
-    if (intent === "toggle_auto") {
-      const enabled = Boolean(body.enabled);
-      
-      let intervalMinutes: number;
-      try {
-        intervalMinutes = validateIntervalMinutes(body.intervalMinutes, 15);
-      } catch (error) {
-        return jsonResponse(
-          { ok: false, error: sanitizeErrorMessage(error) },
-          { status: 400 }
-        );
-      }
-
-      console.log(`[action] Toggling auto-sync:`, { enabled, intervalMinutes });
-
-      const supabase = supabaseAdmin();
-      const { error } = await supabase
-        .from("shopify_settings")
-        .upsert(
-          {
-            admin_id: validatedAdminId,
-            auto_sync_enabled: enabled,
-            auto_sync_interval_minutes: intervalMinutes,
-            updated_at: new Date().toISOString(),
-          },
-          { onConflict: "admin_id" }
-        );
-
-      if (error) {
-        console.error(`[action] Error updating settings:`, error);
-        return jsonResponse({ ok: false, error: error.message }, { status: 500 });
-      }
-
-      console.log(`[action] Auto-sync updated successfully`);
-      return jsonResponse({
-        ok: true,
-        auto_sync_enabled: enabled,
-        auto_sync_interval_minutes: intervalMinutes,
-      });
+    if (claim.kind === "mismatch") {
+      return jsonResponse(
+        { ok: false, error: "Idempotency-Key was already used with a different request body" },
+        { status: 422 }
+      );
     }
 
-    console.warn(`[action] Unknown intent: ${intent}`);
-    return jsonResponse({ ok: false, error: "Unknown intent" }, { status: 400 });
+    try {
+      const response = await runIntent(request, { shop: shopDomain, adminId: validatedAdminId, intent, body });
+      await completeIdempotentRequest(claim.id, response);
+      return response;
+    } catch (e) {
+      await abandonIdempotentRequest(claim.id);
+      throw e;
+    }
   } catch (e) {
     const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
     const stack = e instanceof Error ? e.stack : undefined;
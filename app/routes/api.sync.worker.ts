@@ -0,0 +1,58 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { drainSyncQueue, isAuthorizedWorkerRequest } from "../services/sync-worker.server";
+
+// Give the worker the longest duration the Vercel plan allows;
+// it stops claiming new jobs well before this limit
+export const config = { maxDuration: 300 };
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+async function runWorker(request: Request) {
+  if (!process.env.CRON_SECRET) {
+    console.error(`[worker] CRON_SECRET is not configured`);
+    return jsonResponse({ ok: false, error: "Server misconfigured: CRON_SECRET missing" }, { status: 503 });
+  }
+
+  if (!isAuthorizedWorkerRequest(request)) {
+    return jsonResponse({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await drainSyncQueue();
+    console.log(`[worker] Drained sync queue:`, { processed: result.processed.length, staleFailed: result.staleFailed });
+    return jsonResponse({ ok: true, ...result });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error(`[worker] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// GET  /api/sync/worker  (Vercel Cron)
+// POST /api/sync/worker  (kicked by /api/sync after queueing a job)
+// Both require Authorization: Bearer $CRON_SECRET
+// Does not require Shopify authentication
+// --------------------
+export async function loader({ request }: LoaderFunctionArgs) {
+  return runWorker(request);
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  return runWorker(request);
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from loader/action, so the component returns null
+// --------------------
+export default function SyncWorker() {
+  return null;
+}
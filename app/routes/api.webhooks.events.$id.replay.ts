@@ -0,0 +1,56 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { replayWebhookEvent, triggerWebhookWorker } from "../services/webhook-inbox.server";
+import { sanitizeErrorMessage } from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// POST /api/webhooks/events/:id/replay
+// Sends a failed webhook event back through its handler with a fresh set of attempts
+// Returns 202 with the re-queued event; 409 if the event is not in "failed" status
+// --------------------
+export async function action({ request, params }: ActionFunctionArgs) {
+  try {
+    if (request.method !== "POST") {
+      return jsonResponse({ ok: false, error: "Method not allowed" }, { status: 405, headers: { Allow: "POST" } });
+    }
+
+    const { session } = await authenticate.admin(request);
+
+    const event = params.id ? await replayWebhookEvent(session.shop, params.id) : null;
+
+    if (event === null) {
+      return jsonResponse({ ok: false, error: "Webhook event not found" }, { status: 404 });
+    }
+
+    if (event === false) {
+      return jsonResponse({ ok: false, error: "Only failed webhook events can be replayed" }, { status: 409 });
+    }
+
+    triggerWebhookWorker(request);
+
+    return jsonResponse({ ok: true, event }, { status: 202 });
+  } catch (e) {
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[webhook replay] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from the action, so the component returns null
+// --------------------
+export default function WebhookReplayApi() {
+  return null;
+}
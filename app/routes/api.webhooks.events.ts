@@ -0,0 +1,74 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { listWebhookEvents } from "../services/webhook-inbox.server";
+import {
+  validatePagination,
+  validateWebhookEventStatus,
+  sanitizeErrorMessage,
+  type WebhookEventStatus,
+} from "../utils/validation.server";
+
+// --------------------
+// Small helper: JSON responses
+// --------------------
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+  return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+// --------------------
+// GET /api/webhooks/events
+// Query:
+//   page?: number (default 1)
+//   pageSize?: number (default 20, max 100)
+//   status?: "pending" | "processing" | "processed" | "ignored" | "failed"
+//   topic?: string (e.g. "PRODUCTS_UPDATE")
+// Returns the shop's stored webhook deliveries, newest first (without payloads)
+// --------------------
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    const { session } = await authenticate.admin(request);
+    const params = new URL(request.url).searchParams;
+
+    let page: number;
+    let pageSize: number;
+    let status: WebhookEventStatus | undefined;
+    try {
+      ({ page, pageSize } = validatePagination(params.get("page"), params.get("pageSize")));
+      status = params.get("status") ? validateWebhookEventStatus(params.get("status")) : undefined;
+    } catch (error) {
+      return jsonResponse({ ok: false, error: sanitizeErrorMessage(error) }, { status: 400 });
+    }
+
+    const topic = params.get("topic")?.trim().toUpperCase() || undefined;
+
+    const { events, total } = await listWebhookEvents({ shop: session.shop, status, topic, page, pageSize });
+
+    return jsonResponse({
+      ok: true,
+      events,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (e) {
+    // authenticate.admin throws Responses (redirects / 401s) that must reach the client untouched
+    if (e instanceof Response) throw e;
+
+    const msg = sanitizeErrorMessage(e, process.env.NODE_ENV === "production");
+    console.error(`[webhook events loader] Unexpected error:`, { error: msg, stack: e instanceof Error ? e.stack : undefined });
+    return jsonResponse({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// --------------------
+// Default component export
+// This route only returns JSON from the loader, so the component returns null
+// --------------------
+export default function WebhookEventsApi() {
+  return null;
+}
@@ -1,8 +1,18 @@
 import type { LoaderFunctionArgs } from "react-router";
-import { useLoaderData } from "react-router";
+import { useCallback, useEffect, useRef, useState, type CSSProperties } from "react";
+import { Link, useLoaderData, useRevalidator } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
 import { authenticate } from "../shopify.server";
-import { createClient } from "@supabase/supabase-js";
+import { supabaseAdmin } from "../supabase.server";
 import { validateShopDomain, sanitizeErrorMessage } from "../utils/validation.server";
+import { resolveTenant, TENANT_TROUBLESHOOTING } from "../services/tenant-resolver.server";
+import { isPushPreviewEnabled, type PreviewBucket, type PushPreview } from "../services/sync-preview.server";
+import {
+  parseScopes,
+  refreshGrantedScopes,
+  resolveCapabilities,
+  type FeatureStatus,
+} from "../services/capabilities.server";
 
 function json(data: unknown, init: ResponseInit = {}) {
   const headers = new Headers(init.headers);
@@ -10,83 +20,16 @@ function json(data: unknown, init: ResponseInit = {}) {
   return new Response(JSON.stringify(data), { ...init, headers });
 }
 
-// Helper to get admin ID for shop (reused from api.sync.ts logic)
-interface ConnectionError {
-  type: "configuration" | "connection" | "unknown";
-  message: string;
-}
-
-async function getAdminIdForShop(shopDomain: string): Promise<{ adminId: string | null; error?: ConnectionError }> {
-  const supabaseUrl = process.env.SUPABASE_URL;
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!supabaseUrl || !supabaseKey) {
-    return {
-      adminId: null,
-      error: {
-        type: "configuration",
-        message: "Supabase configuration missing",
-      },
-    };
-  }
-
-  const supabase = createClient(supabaseUrl, supabaseKey, {
-    auth: { persistSession: false },
-  });
-
-  try {
-    const { data, error } = await supabase
-      .schema("app_private")
-      .from("shopify_shops")
-      .select("admin_id")
-      .eq("shop_domain", shopDomain)
-      .maybeSingle();
-
-    if (error) {
-      return {
-        adminId: null,
-        error: {
-          type: "connection",
-          message: error.message,
-        },
-      };
-    }
-
-    // Validate admin ID format if found
-    if (data?.admin_id) {
-      try {
-        const { validateAdminId } = await import("../utils/validation.server");
-        return { adminId: validateAdminId(data.admin_id) };
-      } catch (error) {
-        console.error(`[getAdminIdForShop] Invalid admin ID format:`, error);
-        return {
-          adminId: null,
-          error: {
-            type: "unknown",
-            message: "Invalid admin ID format returned from database",
-          },
-        };
-      }
-    }
-
-    return { adminId: null };
-  } catch (e) {
-    return {
-      adminId: null,
-      error: {
-        type: "unknown",
-        message: e instanceof Error ? e.message : "Unknown error",
-      },
-    };
-  }
-}
-
 export async function loader({ request }: LoaderFunctionArgs) {
       // Logged-in Shopify Admin session (this proves the merchant opened the app)
       let session;
+      let scopesApi;
+      let admin;
       try {
         const authResult = await authenticate.admin(request);
         session = authResult.session;
+        scopesApi = authResult.scopes;
+        admin = authResult.admin;
       } catch (authError) {
         console.error(`[loader] Authentication error:`, authError);
         
@@ -162,7 +105,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
   let connectionStatus: ConnectionStatus | null = null;
   try {
-    const { adminId, error } = await getAdminIdForShop(shopDomain);
+    const { adminId, error } = await resolveTenant(shopDomain);
 
     if (error) {
       connectionStatus = {
@@ -170,42 +113,29 @@ export async function loader({ request }: LoaderFunctionArgs) {
         shopDomain,
         error: error.message,
         errorType: error.type,
+        troubleshooting: TENANT_TROUBLESHOOTING as Record<string, string>,
       };
     } else if (!adminId) {
       connectionStatus = {
         connected: false,
         shopDomain,
         reason:
-          "This Shopify store is installed, but it is not linked to a GetInv tenant yet. Link it from your GetInv app first.",
+          "This Shopify store is installed, but it is not linked to a GetInv tenant yet. Enter a link code from GetInv on the Link GetInv page.",
       };
     } else {
       // Try to get settings
-      const supabaseUrl = process.env.SUPABASE_URL;
-      const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-      if (supabaseUrl && supabaseKey) {
-        const supabase = createClient(supabaseUrl, supabaseKey, {
-          auth: { persistSession: false },
-        });
-        const { data: settings } = await supabase
-          .from("shopify_settings")
-          .select("auto_sync_enabled, auto_sync_interval_minutes, last_pull_at, last_push_at, created_at, updated_at")
-          .eq("admin_id", adminId)
-          .maybeSingle();
-
-        connectionStatus = {
-          connected: true,
-          shopDomain,
-          adminId,
-          settings: settings ?? null,
-        };
-      } else {
-        connectionStatus = {
-          connected: true,
-          shopDomain,
-          adminId,
-          settings: null,
-        };
-      }
+      const { data: settings } = await supabaseAdmin
+        .from("shopify_settings")
+        .select("auto_sync_enabled, auto_sync_interval_minutes, last_pull_at, last_push_at, created_at, updated_at")
+        .eq("admin_id", adminId)
+        .maybeSingle();
+
+      connectionStatus = {
+        connected: true,
+        shopDomain,
+        adminId,
+        settings: settings ?? null,
+      };
     }
   } catch (e) {
     console.error(`[loader] Unexpected error:`, e);
@@ -223,19 +153,612 @@ export async function loader({ request }: LoaderFunctionArgs) {
     };
   }
 
+  // Which features the granted scopes allow; Shopify's answer is fresher than the stored session
+  let capabilities: FeatureStatus[];
+  try {
+    const { granted } = await scopesApi.query();
+    capabilities = resolveCapabilities(await refreshGrantedScopes(shopDomain, granted, admin.graphql));
+  } catch (e) {
+    console.warn(`[loader] Could not query granted scopes, using the session's:`, e);
+    capabilities = resolveCapabilities(parseScopes(session.scope));
+  }
+
   return json({
     shopDomain: shopDomain || "unknown",
     clientId,
     externalUrl: "https://getinv.app/",
     connectionStatus,
+    capabilities,
+    // Preview buttons only show when the push function is known to honor dryRun
+    previewEnabled: isPushPreviewEnabled(),
   });
 }
 
+// --------------------
+// Sync control panel
+// Talks to /api/sync from the browser (App Bridge adds the session token to fetch)
+// and polls /api/sync/jobs/:id while a queued job runs
+// --------------------
+type SyncIntent = "pull" | "push_changed" | "push_all" | "toggle_auto";
+
+interface SyncJobView {
+  id: string;
+  intent: string;
+  dryRun?: boolean;
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  counts: Record<string, number> | null;
+  preview?: PushPreview | null;
+  error: { message?: string } | null;
+}
+
+type PanelMessage = { tone: "success" | "error" | "info"; text: string };
+
+const INTENT_LABELS: Record<string, string> = {
+  pull: "Pull from GetInv",
+  push_changed: "Push changes",
+  push_all: "Push all products",
+  toggle_auto: "Auto-sync settings",
+  audit: "Inventory audit",
+  reconcile: "Reconciliation",
+};
+
+const INTERVAL_OPTIONS = [5, 15, 30, 60, 120, 360, 720, 1440];
+
+const POLL_INTERVAL_MS = 2000;
+
+function formatInterval(minutes: number) {
+  if (minutes < 60) return `${minutes} minutes`;
+  if (minutes === 60) return "1 hour";
+  if (minutes < 1440) return `${minutes / 60} hours`;
+  return "24 hours";
+}
+
+function summarizeCounts(counts: Record<string, number> | null) {
+  if (!counts) return null;
+  const parts = ["total", "created", "updated", "skipped", "failed"]
+    .filter((key) => typeof counts[key] === "number")
+    .map((key) => `${counts[key]} ${key}`);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+function panelButtonStyle(variant: "primary" | "secondary" | "danger", disabled: boolean): CSSProperties {
+  const colors = {
+    primary: { background: "#3b82f6", color: "white", border: "none" },
+    secondary: { background: "white", color: "#3b82f6", border: "1px solid #3b82f6" },
+    danger: { background: "#dc2626", color: "white", border: "none" },
+  }[variant];
+
+  return {
+    ...colors,
+    padding: "10px 16px",
+    borderRadius: 8,
+    cursor: disabled ? "not-allowed" : "pointer",
+    opacity: disabled ? 0.6 : 1,
+    fontWeight: 600,
+    transition: "all 0.2s",
+  };
+}
+
+const PREVIEW_ENTITY_LABELS: Record<keyof PushPreview, string> = {
+  products: "Products",
+  variants: "Variants",
+  inventory: "Inventory levels",
+};
+
+// Sample rows shown per entity; the counts cover everything
+const PREVIEW_SAMPLE_ROWS = 10;
+
+function describePreviewChange(change: PreviewBucket["samples"][number]) {
+  const name = change.title ?? change.sku ?? change.variantId ?? change.productId ?? "Unnamed item";
+  if (change.from !== undefined || change.to !== undefined) {
+    return `${name}: ${change.from ?? "—"} → ${change.to ?? "—"}`;
+  }
+  if (change.fields && change.fields.length > 0) {
+    return `${name} (${change.fields.join(", ")})`;
+  }
+  return name;
+}
+
+function PushPreviewView({
+  preview,
+  intent,
+  busy,
+  onConfirm,
+  onDiscard,
+}: {
+  preview: PushPreview;
+  intent: string;
+  busy: boolean;
+  onConfirm: () => void;
+  onDiscard: () => void;
+}) {
+  const cell: CSSProperties = { padding: "6px 8px", borderBottom: "1px solid rgba(59, 130, 246, 0.2)", textAlign: "right" };
+  const entities = Object.keys(PREVIEW_ENTITY_LABELS) as (keyof PushPreview)[];
+  const totalChanges = entities.reduce((sum, e) => sum + preview[e].create + preview[e].update, 0);
+
+  return (
+    <div style={{ border: "1px solid #3b82f6", background: "#eff6ff", borderRadius: 8, padding: 12, marginBottom: 12, fontSize: 14 }}>
+      <div style={{ fontWeight: 700, marginBottom: 8, color: "#1e40af" }}>
+        Preview: {INTENT_LABELS[intent] ?? intent} (nothing has been changed yet)
+      </div>
+
+      <table style={{ borderCollapse: "collapse", width: "100%", marginBottom: 12, color: "#1e3a8a" }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: "left" }}></th>
+            <th style={cell}>Create</th>
+            <th style={cell}>Update</th>
+            <th style={cell}>Unchanged</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entities.map((entity) => (
+            <tr key={entity}>
+              <td style={{ ...cell, textAlign: "left", fontWeight: 600 }}>{PREVIEW_ENTITY_LABELS[entity]}</td>
+              <td style={cell}>{preview[entity].create}</td>
+              <td style={cell}>{preview[entity].update}</td>
+              <td style={cell}>{preview[entity].unchanged}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {entities
+        .filter((entity) => preview[entity].samples.length > 0)
+        .map((entity) => (
+          <div key={entity} style={{ marginBottom: 10, color: "#1e3a8a" }}>
+            <div style={{ fontWeight: 600, marginBottom: 4 }}>{PREVIEW_ENTITY_LABELS[entity]}</div>
+            <ul style={{ margin: 0, paddingLeft: 18, lineHeight: 1.5 }}>
+              {preview[entity].samples.slice(0, PREVIEW_SAMPLE_ROWS).map((change, index) => (
+                <li key={index}>
+                  <strong>{change.action === "create" ? "Create" : "Update"}</strong> {describePreviewChange(change)}
+                </li>
+              ))}
+            </ul>
+            {preview[entity].create + preview[entity].update > PREVIEW_SAMPLE_ROWS && (
+              <div style={{ opacity: 0.7, marginTop: 4 }}>
+                …and {preview[entity].create + preview[entity].update - PREVIEW_SAMPLE_ROWS} more
+              </div>
+            )}
+          </div>
+        ))}
+
+      {totalChanges === 0 ? (
+        <div style={{ marginBottom: 10, color: "#1e3a8a" }}>Shopify is already up to date. There is nothing to push.</div>
+      ) : (
+        <button
+          disabled={busy}
+          onClick={onConfirm}
+          style={{ ...panelButtonStyle(intent === "push_all" ? "danger" : "primary", busy), marginRight: 8 }}
+        >
+          {intent === "push_all" ? "Confirm push all" : "Push these changes"}
+        </button>
+      )}
+      <button onClick={onDiscard} style={panelButtonStyle("secondary", false)}>
+        Discard preview
+      </button>
+    </div>
+  );
+}
+
+// --------------------
+// Permissions panel
+// Lists features switched off by optional scopes the merchant declined or revoked,
+// and asks for them through App Bridge's grant modal
+// --------------------
+function PermissionsPanel({ capabilities }: { capabilities: FeatureStatus[] }) {
+  const shopify = useAppBridge();
+  const revalidator = useRevalidator();
+  const [requesting, setRequesting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const disabled = capabilities.filter((c) => !c.enabled);
+  if (disabled.length === 0) return null;
+
+  const missingScopes = [...new Set(disabled.flatMap((c) => c.missingScopes))];
+
+  async function requestScopes() {
+    setRequesting(true);
+    setMessage(null);
+    try {
+      const { result } = await shopify.scopes.request(missingScopes);
+      if (result === "granted-all") {
+        revalidator.revalidate();
+      } else {
+        setMessage("The permissions were not granted. These features stay off until they are.");
+      }
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Could not request permissions");
+    } finally {
+      setRequesting(false);
+    }
+  }
+
+  return (
+    <div
+      style={{
+        border: "1px solid #f59e0b",
+        background: "#fffbeb",
+        borderRadius: 10,
+        padding: 16,
+        marginBottom: 16,
+        color: "#b45309",
+        fontSize: 14,
+        lineHeight: 1.5,
+      }}
+    >
+      <div style={{ fontWeight: 700, fontSize: 16, marginBottom: 8 }}>Some features are turned off</div>
+      <div style={{ marginBottom: 8 }}>The app needs more Shopify permissions for:</div>
+      <ul style={{ margin: "0 0 12px", paddingLeft: 18 }}>
+        {disabled.map((c) => (
+          <li key={c.feature}>
+            {c.label} <span style={{ opacity: 0.7 }}>({c.missingScopes.join(", ")})</span>
+          </li>
+        ))}
+      </ul>
+      {message && <div style={{ marginBottom: 12 }}>{message}</div>}
+      <button disabled={requesting} onClick={requestScopes} style={panelButtonStyle("primary", requesting)}>
+        {requesting ? "Waiting for approval…" : "Grant permissions"}
+      </button>
+    </div>
+  );
+}
+
+function SyncControlPanel({
+  settings,
+  capabilities,
+  previewEnabled,
+}: {
+  settings: { auto_sync_enabled: boolean; auto_sync_interval_minutes: number } | null | undefined;
+  capabilities: FeatureStatus[];
+  previewEnabled: boolean;
+}) {
+  const revalidator = useRevalidator();
+  const [submitting, setSubmitting] = useState<SyncIntent | null>(null);
+  const [job, setJob] = useState<SyncJobView | null>(null);
+  const [message, setMessage] = useState<PanelMessage | null>(null);
+  const [confirmPushAll, setConfirmPushAll] = useState(false);
+  const [preview, setPreview] = useState<{ intent: string; preview: PushPreview } | null>(null);
+  const [autoEnabled, setAutoEnabled] = useState(settings?.auto_sync_enabled ?? false);
+  const [intervalMinutes, setIntervalMinutes] = useState(settings?.auto_sync_interval_minutes ?? 15);
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Kept in a ref so the polling callback (and the mount effect) stay stable across revalidations
+  const revalidate = useRef(revalidator.revalidate);
+  revalidate.current = revalidator.revalidate;
+
+  const jobActive = job?.status === "queued" || job?.status === "running";
+  const busy = submitting !== null || jobActive;
+
+  // Intents whose scopes are missing are disabled; the permissions panel explains why
+  const canPull = capabilities.some((c) => c.feature === "pull" && c.enabled);
+  const canPush = capabilities.some((c) => c.feature === "push" && c.enabled);
+
+  const stopPolling = useCallback(() => {
+    if (pollTimer.current) clearTimeout(pollTimer.current);
+    pollTimer.current = null;
+  }, []);
+
+  const pollJob = useCallback(
+    async (jobId: string) => {
+      try {
+        const res = await fetch(`/api/sync/jobs/${jobId}`);
+        const data = await res.json();
+
+        if (!res.ok || !data.ok) {
+          setMessage({ tone: "error", text: data.error || `Could not load job status (HTTP ${res.status})` });
+          return;
+        }
+
+        setJob(data.job);
+
+        if (!data.done) {
+          const retryAfter = Number(res.headers.get("Retry-After"));
+          pollTimer.current = setTimeout(
+            () => pollJob(jobId),
+            Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : POLL_INTERVAL_MS
+          );
+          return;
+        }
+
+        const label = INTENT_LABELS[data.job.intent] ?? data.job.intent;
+        if (data.job.dryRun && data.job.status === "succeeded") {
+          if (data.job.preview) {
+            setPreview({ intent: data.job.intent, preview: data.job.preview });
+            setMessage(null);
+          } else {
+            setMessage({ tone: "info", text: `The sync service did not return a preview for ${label.toLowerCase()}.` });
+          }
+          return;
+        }
+
+        if (data.job.status === "succeeded") {
+          const summary = summarizeCounts(data.job.counts);
+          setMessage({ tone: "success", text: `${label} finished${summary ? `: ${summary}` : "."}` });
+        } else if (data.job.status === "cancelled") {
+          setMessage({ tone: "info", text: `${label} was cancelled${data.job.error?.message ? `: ${data.job.error.message}` : "."}` });
+        } else {
+          setMessage({ tone: "error", text: `${label} failed: ${data.job.error?.message ?? "Unknown error"}` });
+        }
+
+        // Refresh last pull/push timestamps
+        revalidate.current();
+      } catch (e) {
+        // Transient network error - keep polling
+        console.warn("[SyncControlPanel] Polling failed:", e);
+        pollTimer.current = setTimeout(() => pollJob(jobId), POLL_INTERVAL_MS * 2);
+      }
+    },
+    []
+  );
+
+  // Pick up a sync that is already running (started elsewhere or before a reload)
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/sync/lock")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data?.locked || !data.lock?.job) return;
+        if (data.lock.job.status !== "queued" && data.lock.job.status !== "running") return;
+        pollJob(data.lock.jobId);
+      })
+      .catch(() => {
+        // Status is best-effort; the buttons still work
+      });
+
+    return () => {
+      cancelled = true;
+      stopPolling();
+    };
+  }, [pollJob, stopPolling]);
+
+  async function runIntent(intent: SyncIntent, extra: Record<string, unknown> = {}) {
+    stopPolling();
+    setSubmitting(intent);
+    setMessage(null);
+    setConfirmPushAll(false);
+    setPreview(null);
+
+    try {
+      const res = await fetch("/api/sync", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          // One key per click: retries of this click are deduplicated server-side
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ intent, ...extra }),
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (res.status === 202 && data.jobId) {
+        setJob({
+          id: data.jobId,
+          intent,
+          dryRun: Boolean(data.dryRun),
+          status: data.status ?? "queued",
+          createdAt: new Date().toISOString(),
+          startedAt: null,
+          finishedAt: null,
+          counts: null,
+          error: null,
+        });
+        pollJob(data.jobId);
+        return;
+      }
+
+      if (res.status === 409 && data.errorType === "sync_locked") {
+        const holder = data.holder?.intent ? INTENT_LABELS[data.holder.intent] ?? data.holder.intent : "Another sync";
+        setMessage({ tone: "info", text: `${holder} is already running for this shop. Progress is shown below.` });
+        if (data.holder?.jobId) pollJob(data.holder.jobId);
+        return;
+      }
+
+      if (!res.ok || data.ok === false) {
+        setMessage({ tone: "error", text: data.error || `Request failed (HTTP ${res.status})` });
+        return;
+      }
+
+      if (intent === "toggle_auto") {
+        setMessage({
+          tone: "success",
+          text: data.auto_sync_enabled
+            ? `Auto-sync enabled (every ${formatInterval(data.auto_sync_interval_minutes)}).`
+            : "Auto-sync disabled.",
+        });
+        revalidate.current();
+      }
+    } catch (e) {
+      setMessage({ tone: "error", text: e instanceof Error ? e.message : "Network error" });
+    } finally {
+      setSubmitting(null);
+    }
+  }
+
+  const messageColors = {
+    success: { background: "#eff6ff", border: "#3b82f6", color: "#1e40af" },
+    error: { background: "#fef2f2", border: "#ef4444", color: "#dc2626" },
+    info: { background: "#fffbeb", border: "#f59e0b", color: "#b45309" },
+  };
+
+  return (
+    <div
+      style={{
+        border: "1px solid #bfdbfe",
+        borderRadius: 10,
+        padding: 16,
+        marginBottom: 16,
+        background: "white",
+        color: "#1e3a8a",
+      }}
+    >
+      <div style={{ fontWeight: 700, fontSize: 16, marginBottom: 12, color: "#1e40af" }}>Sync</div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginBottom: 12 }}>
+        <button disabled={busy || !canPull} onClick={() => runIntent("pull")} style={panelButtonStyle("primary", busy || !canPull)}>
+          {submitting === "pull" ? "Starting…" : INTENT_LABELS.pull}
+        </button>
+        <button
+          disabled={busy || !canPush}
+          onClick={() => runIntent("push_changed")}
+          style={panelButtonStyle("secondary", busy || !canPush)}
+        >
+          {submitting === "push_changed" ? "Starting…" : INTENT_LABELS.push_changed}
+        </button>
+        {previewEnabled && (
+          <button
+            disabled={busy || !canPush}
+            onClick={() => runIntent("push_changed", { dryRun: true })}
+            style={panelButtonStyle("secondary", busy || !canPush)}
+          >
+            Preview changes
+          </button>
+        )}
+        <button
+          disabled={busy || !canPush}
+          onClick={() => setConfirmPushAll(true)}
+          style={panelButtonStyle("secondary", busy || !canPush)}
+        >
+          {submitting === "push_all" ? "Starting…" : INTENT_LABELS.push_all}
+        </button>
+      </div>
+
+      {confirmPushAll && (
+        <div
+          style={{
+            border: "1px solid #f59e0b",
+            background: "#fffbeb",
+            borderRadius: 8,
+            padding: 12,
+            marginBottom: 12,
+            fontSize: 14,
+            color: "#b45309",
+          }}
+        >
+          <div style={{ marginBottom: 10, lineHeight: 1.5 }}>
+            Push all sends every product from GetInv to Shopify and overwrites Shopify values, even for products that
+            have not changed. On large catalogs this can take several minutes.
+          </div>
+          {previewEnabled && (
+            <button
+              disabled={busy}
+              onClick={() => runIntent("push_all", { dryRun: true })}
+              style={{ ...panelButtonStyle("primary", busy), marginRight: 8 }}
+            >
+              Preview first
+            </button>
+          )}
+          <button
+            disabled={busy}
+            onClick={() => runIntent("push_all")}
+            style={{ ...panelButtonStyle("danger", busy), marginRight: 8 }}
+          >
+            Confirm push all
+          </button>
+          <button onClick={() => setConfirmPushAll(false)} style={panelButtonStyle("secondary", false)}>
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {preview && (
+        <PushPreviewView
+          preview={preview.preview}
+          intent={preview.intent}
+          busy={busy}
+          onConfirm={() => runIntent(preview.intent as SyncIntent)}
+          onDiscard={() => setPreview(null)}
+        />
+      )}
+
+      {job && !preview && (
+        <div style={{ fontSize: 14, marginBottom: 12, lineHeight: 1.5 }}>
+          <strong>
+            {INTENT_LABELS[job.intent] ?? job.intent}
+            {job.dryRun && " (preview)"}:
+          </strong>{" "}
+          {job.status === "queued" && "Queued, waiting for the sync worker…"}
+          {job.status === "running" &&
+            `Running${job.startedAt ? ` since ${new Date(job.startedAt).toLocaleTimeString()}` : ""}…`}
+          {job.status === "succeeded" && "Finished"}
+          {job.status === "failed" && "Failed"}
+          {job.status === "cancelled" && "Cancelled"}
+          {job.finishedAt && ` at ${new Date(job.finishedAt).toLocaleTimeString()}`}
+        </div>
+      )}
+
+      {message && (
+        <div
+          style={{
+            fontSize: 14,
+            lineHeight: 1.5,
+            padding: 12,
+            borderRadius: 8,
+            marginBottom: 12,
+            border: `1px solid ${messageColors[message.tone].border}`,
+            background: messageColors[message.tone].background,
+            color: messageColors[message.tone].color,
+          }}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div style={{ paddingTop: 12, borderTop: "1px solid rgba(59, 130, 246, 0.2)" }}>
+        <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 8 }}>Auto-sync</div>
+        <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 12 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 14 }}>
+            <input type="checkbox" checked={autoEnabled} onChange={(e) => setAutoEnabled(e.currentTarget.checked)} />
+            Enabled
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 14 }}>
+            Every
+            <select
+              value={intervalMinutes}
+              disabled={!autoEnabled}
+              onChange={(e) => setIntervalMinutes(Number(e.currentTarget.value))}
+              style={{ padding: "6px 8px", borderRadius: 6, border: "1px solid #bfdbfe", color: "#1e3a8a" }}
+            >
+              {(INTERVAL_OPTIONS.includes(intervalMinutes) ? INTERVAL_OPTIONS : [...INTERVAL_OPTIONS, intervalMinutes].sort((a, b) => a - b)).map(
+                (minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {formatInterval(minutes)}
+                  </option>
+                )
+              )}
+            </select>
+          </label>
+          <button
+            disabled={busy}
+            onClick={() => runIntent("toggle_auto", { enabled: autoEnabled, intervalMinutes })}
+            style={panelButtonStyle("secondary", busy)}
+          >
+            {submitting === "toggle_auto" ? "Saving…" : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function AppIndex() {
-  const { shopDomain, clientId, externalUrl, connectionStatus } = useLoaderData() as {
+  const {
+    shopDomain,
+    clientId,
+    externalUrl,
+    connectionStatus,
+    capabilities = [],
+    previewEnabled = false,
+  } = useLoaderData() as {
     shopDomain: string;
     clientId: string;
     externalUrl: string;
+    capabilities?: FeatureStatus[];
+    previewEnabled?: boolean;
     connectionStatus: {
       connected: boolean;
       shopDomain: string;
@@ -400,7 +923,10 @@ export default function AppIndex() {
 
           {!connectionStatus.connected && connectionStatus.reason && (
             <div style={{ fontSize: 14, marginBottom: 8, color: "#1e3a8a", lineHeight: 1.5 }}>
-              {connectionStatus.reason}
+              {connectionStatus.reason}{" "}
+              <Link to="/app/link" style={{ color: "#2563eb", fontWeight: 600 }}>
+                Link this store
+              </Link>
             </div>
           )}
 
@@ -424,6 +950,16 @@ export default function AppIndex() {
         </div>
       )}
 
+      <PermissionsPanel capabilities={capabilities} />
+
+      {connectionStatus?.connected && (
+        <SyncControlPanel
+          settings={connectionStatus.settings}
+          capabilities={capabilities}
+          previewEnabled={previewEnabled}
+        />
+      )}
+
       <div
         style={{
           border: "1px solid #bfdbfe",
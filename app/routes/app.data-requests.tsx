@@ -0,0 +1,147 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useRevalidator } from "react-router";
+import { authenticate } from "../shopify.server";
+import { listCustomerDataExports } from "../services/customer-data-export.server";
+import { formatDateTime } from "../utils/sync-display";
+
+const EXPORT_STATUS_TONES: Record<string, "success" | "warning"> = {
+  ready: "success",
+  partial: "warning",
+};
+
+function formatRecordCount(counts: unknown): string {
+  if (!counts || typeof counts !== "object") return "—";
+  const total = Object.values(counts as Record<string, unknown>).reduce<number>(
+    (sum, value) => sum + (typeof value === "number" ? value : 0),
+    0
+  );
+  return `${total} record${total === 1 ? "" : "s"}`;
+}
+
+// --------------------
+// GET /app/data-requests
+// Customer data requests (customers/data_request) and their export bundles
+// --------------------
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const exports = await listCustomerDataExports(session.shop);
+  return { exports };
+};
+
+export default function DataRequestsPage() {
+  const { exports } = useLoaderData<typeof loader>();
+  const revalidator = useRevalidator();
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Downloads go through fetch so App Bridge adds the session token
+  async function download(key: string, url: string, fallbackName: string) {
+    setDownloading(key);
+    setError(null);
+    try {
+      const res = await fetch(url);
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error ?? `Download failed (${res.status})`);
+      }
+
+      const filename = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? fallbackName;
+      const objectUrl = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(objectUrl);
+
+      revalidator.revalidate();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDownloading(null);
+    }
+  }
+
+  return (
+    <s-page heading="Data requests">
+      {error && (
+        <s-banner tone="critical" heading="Could not download the file">
+          {error}
+        </s-banner>
+      )}
+
+      <s-section padding="none">
+        {exports.length === 0 ? (
+          <s-box padding="base">
+            <s-paragraph>No customer data requests yet.</s-paragraph>
+          </s-box>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Received</s-table-header>
+              <s-table-header>Customer</s-table-header>
+              <s-table-header>Orders</s-table-header>
+              <s-table-header listSlot="secondary">Status</s-table-header>
+              <s-table-header>Contents</s-table-header>
+              <s-table-header>Export</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {exports.map((item) => (
+                <s-table-row key={item.id}>
+                  <s-table-cell>{formatDateTime(item.createdAt)}</s-table-cell>
+                  <s-table-cell>{item.customerId ?? "—"}</s-table-cell>
+                  <s-table-cell>{item.orderIds.length}</s-table-cell>
+                  <s-table-cell>
+                    <s-badge tone={EXPORT_STATUS_TONES[item.status] ?? "neutral"}>{item.status}</s-badge>
+                  </s-table-cell>
+                  <s-table-cell>{formatRecordCount(item.counts)}</s-table-cell>
+                  <s-table-cell>
+                    <s-button
+                      variant="tertiary"
+                      loading={downloading === item.id}
+                      onClick={() => download(item.id, `/api/data-requests/${item.id}`, `${item.id}.json`)}
+                    >
+                      {item.downloadedAt ? "Download again" : "Download"}
+                    </s-button>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+
+      <s-section slot="aside" heading="About">
+        <s-paragraph>
+          When a customer asks what data your store holds about them, Shopify notifies this app and an export is
+          prepared here. Download it and send it to the customer, together with the data Shopify provides.
+        </s-paragraph>
+        <s-paragraph>
+          A &quot;partial&quot; export could not include GetInv&apos;s records; the notes in the file explain why.
+          Exports are deleted after 90 days.
+        </s-paragraph>
+      </s-section>
+
+      <s-section slot="aside" heading="Compliance report">
+        <s-paragraph>
+          Every data request, customer redaction and shop redaction Shopify sent, with when it was handled and how
+          many records it touched. Customer ids are hashed.
+        </s-paragraph>
+        <s-stack direction="inline" gap="small-200">
+          <s-button
+            loading={downloading === "report-csv"}
+            onClick={() => download("report-csv", "/api/compliance/report?format=csv", "compliance-report.csv")}
+          >
+            Download CSV
+          </s-button>
+          <s-button
+            loading={downloading === "report-json"}
+            onClick={() => download("report-json", "/api/compliance/report?format=json", "compliance-report.json")}
+          >
+            Download JSON
+          </s-button>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getSyncJob, type SyncJobResult } from "../services/sync-jobs.server";
+import type { PushPreview } from "../services/sync-preview.server";
+import {
+  SYNC_INTENT_LABELS,
+  SYNC_ITEM_STATUS_TONES,
+  SYNC_STATUS_TONES,
+  errorMessage,
+  formatCounts,
+  formatDateTime,
+  formatDuration,
+} from "../utils/sync-display";
+
+// Rendering thousands of rows in the admin iframe is slow; the rest stays in the job record
+const MAX_ROWS = 500;
+
+// --------------------
+// GET /app/history/:id
+// One sync run with its per-product outcomes
+// --------------------
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const job = params.id ? await getSyncJob(session.shop, params.id) : null;
+  if (!job) {
+    throw new Response("Sync run not found", { status: 404 });
+  }
+
+  const error = job.error && typeof job.error === "object" ? (job.error as Record<string, unknown>) : null;
+
+  return {
+    job: {
+      id: job.id,
+      intent: job.intent,
+      mode: job.mode,
+      dryRun: job.dryRun,
+      status: job.status,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      httpStatus: job.httpStatus,
+      counts: job.counts,
+      error: job.error,
+    },
+    // A reconcile job's result is its report, shown on the Reconciliation page
+    result: job.intent === "reconcile" ? null : ((job.result as SyncJobResult | null) ?? null),
+    preview: (job.preview as PushPreview | null) ?? null,
+    errorDetails: error && {
+      kind: typeof error.kind === "string" ? error.kind : null,
+      attempts: typeof error.attempts === "number" ? error.attempts : null,
+      status: typeof error.status === "number" ? error.status : null,
+    },
+  };
+};
+
+export default function SyncRunPage() {
+  const { job, result, preview, errorDetails } = useLoaderData<typeof loader>();
+  const [onlyFailed, setOnlyFailed] = useState(false);
+
+  const items = result?.items ?? [];
+  const failedCount = items.filter((item) => item.status === "failed").length;
+  const visible = (onlyFailed ? items.filter((item) => item.status === "failed") : items).slice(0, MAX_ROWS);
+  const message = errorMessage(job.error);
+
+  return (
+    <s-page
+      heading={`${SYNC_INTENT_LABELS[job.intent] ?? job.intent}${job.dryRun ? " (preview)" : ""} · ${formatDateTime(job.startedAt ?? job.createdAt)}`}
+    >
+      <s-link slot="breadcrumb-actions" href="/app/history">
+        Sync history
+      </s-link>
+
+      {job.status === "failed" && message && (
+        <s-banner tone="critical" heading="This sync failed">
+          <s-paragraph>{message}</s-paragraph>
+          {errorDetails && (errorDetails.kind || errorDetails.attempts !== null) && (
+            <s-paragraph>
+              {errorDetails.kind && `Failure type: ${errorDetails.kind}. `}
+              {errorDetails.attempts !== null && `Attempts: ${errorDetails.attempts}.`}
+            </s-paragraph>
+          )}
+        </s-banner>
+      )}
+
+      {job.status === "cancelled" && (
+        <s-banner tone="warning" heading="This sync was cancelled">
+          {message ?? "The run was cancelled before it finished."}
+        </s-banner>
+      )}
+
+      <s-section heading="Summary">
+        <s-stack direction="block" gap="small-200">
+          <s-text>
+            Status: <s-badge tone={SYNC_STATUS_TONES[job.status] ?? "neutral"}>{job.status}</s-badge>
+          </s-text>
+          {job.mode && <s-text>Mode: {job.mode}</s-text>}
+          <s-text>Queued: {formatDateTime(job.createdAt)}</s-text>
+          <s-text>Started: {formatDateTime(job.startedAt)}</s-text>
+          <s-text>Finished: {formatDateTime(job.finishedAt)}</s-text>
+          <s-text>Duration: {formatDuration(job.startedAt, job.finishedAt)}</s-text>
+          <s-text>Items: {formatCounts(job.counts)}</s-text>
+          {job.httpStatus !== null && <s-text>Edge function status: {job.httpStatus}</s-text>}
+        </s-stack>
+      </s-section>
+
+      {job.dryRun && (
+        <s-section heading="Preview">
+          {preview ? (
+            <s-stack direction="block" gap="small-200">
+              <s-paragraph>This was a dry run. Nothing was written to Shopify.</s-paragraph>
+              {(["products", "variants", "inventory"] as const).map((entity) => (
+                <s-text key={entity}>
+                  {entity[0].toUpperCase() + entity.slice(1)}: {preview[entity].create} to create ·{" "}
+                  {preview[entity].update} to update · {preview[entity].unchanged} unchanged
+                </s-text>
+              ))}
+            </s-stack>
+          ) : (
+            <s-paragraph>This was a dry run. The sync service did not return a preview.</s-paragraph>
+          )}
+        </s-section>
+      )}
+
+      <s-section heading="Products" padding={items.length > 0 ? "none" : "base"}>
+        {items.length === 0 ? (
+          <s-paragraph>
+            {job.status === "queued" || job.status === "running"
+              ? "This sync is still in progress. Reload the page to see the outcome."
+              : "The sync service did not report per-product details for this run."}
+          </s-paragraph>
+        ) : (
+          <>
+            <s-box padding="base">
+              <s-stack direction="inline" gap="base" alignItems="center">
+                <s-checkbox
+                  label={`Only show failures (${failedCount})`}
+                  checked={onlyFailed}
+                  onChange={(e) => setOnlyFailed(e.currentTarget.checked)}
+                ></s-checkbox>
+                {(result?.truncated || visible.length < (onlyFailed ? failedCount : items.length)) && (
+                  <s-text tone="neutral">
+                    Showing {visible.length} of {result?.totalItems ?? items.length} items.
+                  </s-text>
+                )}
+              </s-stack>
+            </s-box>
+            <s-table>
+              <s-table-header-row>
+                <s-table-header listSlot="primary">Product</s-table-header>
+                <s-table-header>SKU</s-table-header>
+                <s-table-header listSlot="secondary">Outcome</s-table-header>
+                <s-table-header>Details</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {visible.map((item, index) => (
+                  <s-table-row key={`${item.productId ?? item.sku ?? "item"}-${index}`}>
+                    <s-table-cell>{item.title ?? item.productId ?? "—"}</s-table-cell>
+                    <s-table-cell>{item.sku ?? "—"}</s-table-cell>
+                    <s-table-cell>
+                      <s-badge tone={SYNC_ITEM_STATUS_TONES[item.status] ?? "neutral"}>{item.status}</s-badge>
+                    </s-table-cell>
+                    <s-table-cell>{item.message ?? ""}</s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+          </>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,158 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData, useNavigate, useNavigation } from "react-router";
+import { authenticate } from "../shopify.server";
+import { listSyncJobs } from "../services/sync-jobs.server";
+import {
+  validateSyncJobIntent,
+  validatePagination,
+  validateSyncJobStatus,
+  type SyncJobStatus,
+  type SyncJobIntent,
+} from "../utils/validation.server";
+import {
+  SYNC_INTENT_LABELS,
+  SYNC_STATUS_TONES,
+  errorMessage,
+  formatCounts,
+  formatDateTime,
+  formatDuration,
+} from "../utils/sync-display";
+
+const PAGE_SIZE = 25;
+
+// Invalid filter values in the URL are ignored rather than erroring the page
+function optional<T>(validate: (value: unknown) => T, value: string | null): T | undefined {
+  if (!value) return undefined;
+  try {
+    return validate(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// --------------------
+// GET /app/history?page=&status=&intent=
+// Recent sync runs for this shop
+// --------------------
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+
+  let pagination: { page: number; pageSize: number };
+  try {
+    pagination = validatePagination(url.searchParams.get("page"), PAGE_SIZE);
+  } catch {
+    pagination = { page: 1, pageSize: PAGE_SIZE };
+  }
+
+  const status = optional<SyncJobStatus>(validateSyncJobStatus, url.searchParams.get("status"));
+  const intent = optional<SyncJobIntent>(validateSyncJobIntent, url.searchParams.get("intent"));
+
+  const { jobs, total } = await listSyncJobs({ shop: session.shop, status, intent, ...pagination });
+
+  return {
+    jobs,
+    page: pagination.page,
+    totalPages: Math.max(1, Math.ceil(total / pagination.pageSize)),
+    total,
+    filters: { status: status ?? "", intent: intent ?? "" },
+  };
+};
+
+export default function SyncHistoryPage() {
+  const { jobs, page, totalPages, total, filters } = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+  const navigation = useNavigation();
+
+  function goToPage(nextPage: number) {
+    const params = new URLSearchParams();
+    if (filters.status) params.set("status", filters.status);
+    if (filters.intent) params.set("intent", filters.intent);
+    params.set("page", String(nextPage));
+    navigate(`?${params.toString()}`);
+  }
+
+  return (
+    <s-page heading="Sync history">
+      <s-section>
+        <Form method="get">
+          <s-stack direction="inline" gap="base" alignItems="end">
+            <s-select name="status" label="Status" value={filters.status}>
+              <s-option value="">All statuses</s-option>
+              <s-option value="queued">Queued</s-option>
+              <s-option value="running">Running</s-option>
+              <s-option value="succeeded">Succeeded</s-option>
+              <s-option value="failed">Failed</s-option>
+              <s-option value="cancelled">Cancelled</s-option>
+            </s-select>
+            <s-select name="intent" label="Type" value={filters.intent}>
+              <s-option value="">All types</s-option>
+              {Object.entries(SYNC_INTENT_LABELS).map(([value, label]) => (
+                <s-option key={value} value={value}>
+                  {label}
+                </s-option>
+              ))}
+            </s-select>
+            <s-button type="submit">Filter</s-button>
+          </s-stack>
+        </Form>
+      </s-section>
+
+      <s-section padding="none">
+        {jobs.length === 0 ? (
+          <s-box padding="base">
+            <s-paragraph>
+              {filters.status || filters.intent
+                ? "No sync runs match these filters."
+                : "No sync runs yet. Start a pull or push from the Home page."}
+            </s-paragraph>
+          </s-box>
+        ) : (
+          <s-table
+            paginate={totalPages > 1}
+            hasPreviousPage={page > 1}
+            hasNextPage={page < totalPages}
+            onPreviousPage={() => goToPage(page - 1)}
+            onNextPage={() => goToPage(page + 1)}
+            loading={navigation.state === "loading"}
+          >
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Started</s-table-header>
+              <s-table-header>Type</s-table-header>
+              <s-table-header listSlot="secondary">Status</s-table-header>
+              <s-table-header>Duration</s-table-header>
+              <s-table-header>Items</s-table-header>
+              <s-table-header>Error</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {jobs.map((job) => (
+                <s-table-row key={job.id}>
+                  <s-table-cell>
+                    <s-link href={`/app/history/${job.id}`}>{formatDateTime(job.startedAt ?? job.createdAt)}</s-link>
+                  </s-table-cell>
+                  <s-table-cell>
+                    {SYNC_INTENT_LABELS[job.intent] ?? job.intent}
+                    {job.dryRun && " (preview)"}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-badge tone={SYNC_STATUS_TONES[job.status] ?? "neutral"}>{job.status}</s-badge>
+                  </s-table-cell>
+                  <s-table-cell>{formatDuration(job.startedAt, job.finishedAt)}</s-table-cell>
+                  <s-table-cell>{formatCounts(job.counts)}</s-table-cell>
+                  <s-table-cell>{errorMessage(job.error) ?? ""}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+
+      <s-section slot="aside" heading="About">
+        <s-paragraph>
+          {total} sync run{total === 1 ? "" : "s"} recorded for this store. Open a run to see the outcome for each
+          product.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
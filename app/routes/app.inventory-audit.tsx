@@ -0,0 +1,388 @@
+import { useEffect, useRef, useState } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useRevalidator } from "react-router";
+import { authenticate } from "../shopify.server";
+import { resolveTenant } from "../services/tenant-resolver.server";
+import { getLocationMappings } from "../services/location-mapping.server";
+import {
+  auditDiscrepancies,
+  getLatestInventoryAudit,
+  getLatestInventoryAuditJob,
+  isAuditCorrectable,
+  listInventoryCorrections,
+} from "../services/inventory-audit.server";
+import { formatDateTime, SYNC_STATUS_TONES } from "../utils/sync-display";
+
+// Discrepancies shown on the page; corrections for "all" still cover every stored one
+const MAX_ROWS_SHOWN = 250;
+
+const POLL_INTERVAL_MS = 3000;
+
+// --------------------
+// GET /app/inventory-audit
+// The latest audit, its discrepancies and the corrections taken from it
+// Audits and corrections are queued through POST /api/sync/audit and run by the sync worker
+// --------------------
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const { adminId, error } = await resolveTenant(session.shop);
+
+  if (error) return { status: "error" as const, message: error.message };
+  if (!adminId) return { status: "not_linked" as const };
+
+  const [mappings, audit, auditJob] = await Promise.all([
+    getLocationMappings(session.shop, adminId),
+    getLatestInventoryAudit(session.shop, adminId),
+    getLatestInventoryAuditJob(session.shop, adminId),
+  ]);
+  const corrections = audit ? await listInventoryCorrections(session.shop, audit.id) : [];
+
+  return {
+    status: "ready" as const,
+    mappedLocations: mappings.length,
+    // An audit still waiting for (or running in) the sync worker
+    pendingAuditJobId: auditJob && (auditJob.status === "queued" || auditJob.status === "running") ? auditJob.id : null,
+    audit: audit && {
+      id: audit.id,
+      createdAt: audit.createdAt,
+      threshold: audit.threshold,
+      complete: audit.complete,
+      correctable: isAuditCorrectable(audit),
+      locationsChecked: audit.locationsChecked,
+      quantitiesChecked: audit.quantitiesChecked,
+      discrepancyCount: audit.discrepancyCount,
+      discrepancies: auditDiscrepancies(audit),
+    },
+    corrections: corrections.map((c) => ({
+      id: c.id,
+      createdAt: c.createdAt,
+      direction: c.direction,
+      changes: Array.isArray(c.changes) ? c.changes.length : 0,
+      syncJobId: c.syncJobId,
+      jobStatus: c.jobStatus,
+    })),
+  };
+};
+
+const DIRECTION_LABELS: Record<string, string> = {
+  trust_getinv: "Trust GetInv",
+  trust_shopify: "Trust Shopify",
+};
+
+type Message = { tone: "success" | "critical" | "info"; text: string };
+
+export default function InventoryAuditPage() {
+  const data = useLoaderData<typeof loader>();
+  const revalidator = useRevalidator();
+  const [threshold, setThreshold] = useState("0");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<Message | null>(null);
+
+  const audit = data.status === "ready" ? data.audit : null;
+  const pendingAuditJobId = data.status === "ready" ? data.pendingAuditJobId : null;
+  const [auditJobId, setAuditJobId] = useState<string | null>(pendingAuditJobId);
+
+  // Kept in a ref so the polling effect doesn't restart on every revalidation
+  const revalidate = useRef(revalidator.revalidate);
+  revalidate.current = revalidator.revalidate;
+
+  // Picks up an audit queued before a reload
+  useEffect(() => {
+    if (pendingAuditJobId) setAuditJobId(pendingAuditJobId);
+  }, [pendingAuditJobId]);
+
+  // Polls the queued audit until the worker has run it
+  useEffect(() => {
+    if (!auditJobId) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    async function poll() {
+      try {
+        const res = await fetch(`/api/sync/jobs/${auditJobId}`);
+        const result = await res.json().catch(() => ({}));
+        if (stopped) return;
+
+        if (!res.ok || result.ok === false) {
+          setMessage({ tone: "critical", text: result.error || `Could not load the audit's status (HTTP ${res.status})` });
+          setAuditJobId(null);
+          return;
+        }
+
+        if (!result.done) {
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+          return;
+        }
+
+        setAuditJobId(null);
+        if (result.job.status === "succeeded") {
+          setMessage({ tone: "success", text: "Audit finished." });
+        } else {
+          setMessage({ tone: "critical", text: `Audit ${result.job.status}: ${result.job.error?.message ?? "Unknown error"}` });
+        }
+        revalidate.current();
+      } catch {
+        // Transient network error - keep polling
+        if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS * 2);
+      }
+    }
+
+    poll();
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [auditJobId]);
+
+  // Goes through fetch so App Bridge adds the session token
+  async function post(key: string, body: Record<string, unknown>): Promise<Record<string, unknown> | null> {
+    setBusy(key);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/sync/audit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json().catch(() => ({}));
+
+      if (!res.ok || result.ok === false) {
+        setMessage({ tone: "critical", text: result.error || `Request failed (HTTP ${res.status})` });
+        return null;
+      }
+      revalidator.revalidate();
+      return result;
+    } catch (e) {
+      setMessage({ tone: "critical", text: e instanceof Error ? e.message : String(e) });
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function runAudit() {
+    const result = await post("run", { action: "run", threshold: threshold === "" ? 0 : Number(threshold) });
+    if (result && typeof result.jobId === "string") {
+      setAuditJobId(result.jobId);
+      setMessage({ tone: "info", text: "Audit queued. Results appear here when it finishes." });
+    }
+  }
+
+  async function correct(auditId: string, direction: string, discrepancyIds?: string[]) {
+    const key = discrepancyIds ? `${direction}:${discrepancyIds.join(",")}` : direction;
+    const result = await post(key, { action: "correct", auditId, direction, discrepancyIds });
+    if (result) {
+      const target = direction === "trust_getinv" ? "Shopify" : "GetInv";
+      setMessage({ tone: "info", text: `Correction queued. ${target} quantities update when the sync job finishes.` });
+    }
+  }
+
+  return (
+    <s-page heading="Inventory audit">
+      {message && <s-banner tone={message.tone}>{message.text}</s-banner>}
+
+      {data.status === "error" && (
+        <s-banner tone="critical" heading="Could not load the store's GetInv link">
+          {data.message}
+        </s-banner>
+      )}
+
+      {data.status === "not_linked" && (
+        <s-banner tone="warning" heading="Not linked to GetInv">
+          Link this store on the <s-link href="/app/link">Link GetInv</s-link> page to audit its stock.
+        </s-banner>
+      )}
+
+      {data.status === "ready" && data.mappedLocations === 0 && (
+        <s-banner tone="warning" heading="No mapped locations">
+          Map Shopify locations to GetInv warehouses on the <s-link href="/app/locations">Locations</s-link> page
+          first. The audit compares stock per mapped location.
+        </s-banner>
+      )}
+
+      {data.status === "ready" && data.mappedLocations > 0 && (
+        <s-section heading="Run an audit">
+          <s-stack direction="inline" gap="base" alignItems="end">
+            <s-number-field
+              label="Flag differences above"
+              suffix="units"
+              min={0}
+              step={1}
+              value={threshold}
+              onChange={(e) => setThreshold(e.currentTarget.value)}
+            />
+            <s-button
+              variant="primary"
+              onClick={runAudit}
+              loading={busy === "run" || auditJobId !== null}
+              disabled={busy !== null || auditJobId !== null}
+            >
+              {auditJobId ? "Audit running…" : "Run audit"}
+            </s-button>
+          </s-stack>
+        </s-section>
+      )}
+
+      {audit && (
+        <>
+          {!audit.correctable && audit.discrepancies.length > 0 && (
+            <s-banner tone="info" heading="Audit too old to correct">
+              Stock may have changed since this audit ran. Run a new audit to correct its discrepancies.
+            </s-banner>
+          )}
+
+          {!audit.complete && (
+            <s-banner tone="warning" heading="Audit only partly covers the catalog">
+              A location has more inventory than one audit reads, so some items weren&apos;t compared.
+            </s-banner>
+          )}
+
+          <s-section heading="Latest audit">
+            <s-paragraph>
+              {formatDateTime(audit.createdAt)} · threshold {audit.threshold} ·{" "}
+              {audit.locationsChecked} location{audit.locationsChecked === 1 ? "" : "s"} ·{" "}
+              {audit.quantitiesChecked} quantities compared · {audit.discrepancyCount}{" "}
+              {audit.discrepancyCount === 1 ? "discrepancy" : "discrepancies"}
+            </s-paragraph>
+            {audit.correctable && audit.discrepancies.some((d) => d.difference !== null) && (
+              <s-stack direction="inline" gap="small-200">
+                <s-button
+                  onClick={() => correct(audit.id, "trust_getinv")}
+                  loading={busy === "trust_getinv"}
+                  disabled={busy !== null}
+                >
+                  Trust GetInv for all
+                </s-button>
+                <s-button
+                  onClick={() => correct(audit.id, "trust_shopify")}
+                  loading={busy === "trust_shopify"}
+                  disabled={busy !== null}
+                >
+                  Trust Shopify for all
+                </s-button>
+              </s-stack>
+            )}
+          </s-section>
+
+          <s-section heading="Discrepancies" padding="none">
+            {audit.discrepancies.length === 0 ? (
+              <s-box padding="base">
+                <s-paragraph>Shopify and GetInv agree within the threshold.</s-paragraph>
+              </s-box>
+            ) : (
+              <s-table>
+                <s-table-header-row>
+                  <s-table-header listSlot="primary">Product</s-table-header>
+                  <s-table-header listSlot="secondary">SKU</s-table-header>
+                  <s-table-header>Location</s-table-header>
+                  <s-table-header format="numeric">Shopify</s-table-header>
+                  <s-table-header format="numeric">GetInv</s-table-header>
+                  <s-table-header format="numeric">Difference</s-table-header>
+                  <s-table-header>Correct</s-table-header>
+                </s-table-header-row>
+                <s-table-body>
+                  {audit.discrepancies.slice(0, MAX_ROWS_SHOWN).map((d) => (
+                    <s-table-row key={d.id}>
+                      <s-table-cell>
+                        {d.productTitle}
+                        {d.variantTitle !== "Default Title" && ` – ${d.variantTitle}`}
+                      </s-table-cell>
+                      <s-table-cell>{d.sku ?? "—"}</s-table-cell>
+                      <s-table-cell>{d.shopifyLocationName}</s-table-cell>
+                      <s-table-cell>{d.shopifyQuantity ?? "No record"}</s-table-cell>
+                      <s-table-cell>{d.getinvQuantity ?? "No record"}</s-table-cell>
+                      <s-table-cell>
+                        {d.difference === null ? (
+                          <s-badge tone="critical">
+                            {d.shopifyQuantity === null ? "Not stocked in Shopify" : "Not stocked in GetInv"}
+                          </s-badge>
+                        ) : (
+                          <s-badge tone={d.difference > 0 ? "info" : "warning"}>
+                            {d.difference > 0 ? `+${d.difference}` : d.difference}
+                          </s-badge>
+                        )}
+                      </s-table-cell>
+                      <s-table-cell>
+                        {audit.correctable && d.difference !== null && (
+                          <s-stack direction="inline" gap="small-200">
+                            <s-button
+                              variant="tertiary"
+                              onClick={() => correct(audit.id, "trust_getinv", [d.id])}
+                              loading={busy === `trust_getinv:${d.id}`}
+                              disabled={busy !== null}
+                            >
+                              Use GetInv
+                            </s-button>
+                            <s-button
+                              variant="tertiary"
+                              onClick={() => correct(audit.id, "trust_shopify", [d.id])}
+                              loading={busy === `trust_shopify:${d.id}`}
+                              disabled={busy !== null}
+                            >
+                              Use Shopify
+                            </s-button>
+                          </s-stack>
+                        )}
+                      </s-table-cell>
+                    </s-table-row>
+                  ))}
+                </s-table-body>
+              </s-table>
+            )}
+            {audit.discrepancies.length > MAX_ROWS_SHOWN && (
+              <s-box padding="base">
+                <s-paragraph>
+                  Showing the {MAX_ROWS_SHOWN} largest of {audit.discrepancies.length}.
+                </s-paragraph>
+              </s-box>
+            )}
+          </s-section>
+
+          {data.status === "ready" && data.corrections.length > 0 && (
+            <s-section heading="Corrections" padding="none">
+              <s-table>
+                <s-table-header-row>
+                  <s-table-header listSlot="primary">Correction</s-table-header>
+                  <s-table-header listSlot="secondary">Status</s-table-header>
+                  <s-table-header>Queued</s-table-header>
+                  <s-table-header format="numeric">Quantities</s-table-header>
+                </s-table-header-row>
+                <s-table-body>
+                  {data.corrections.map((c) => (
+                    <s-table-row key={c.id}>
+                      <s-table-cell>
+                        <s-link href={`/app/history/${c.syncJobId}`}>
+                          {DIRECTION_LABELS[c.direction] ?? c.direction}
+                        </s-link>
+                      </s-table-cell>
+                      <s-table-cell>
+                        <s-badge tone={(c.jobStatus && SYNC_STATUS_TONES[c.jobStatus]) || "neutral"}>
+                          {c.jobStatus ?? "unknown"}
+                        </s-badge>
+                      </s-table-cell>
+                      <s-table-cell>{formatDateTime(c.createdAt)}</s-table-cell>
+                      <s-table-cell>{c.changes}</s-table-cell>
+                    </s-table-row>
+                  ))}
+                </s-table-body>
+              </s-table>
+            </s-section>
+          )}
+        </>
+      )}
+
+      <s-section slot="aside" heading="About">
+        <s-paragraph>
+          The audit compares Shopify on-hand quantities with GetInv stock for every linked product at every mapped
+          location, and lists the differences above the threshold. A product stocked on only one side is flagged
+          and has to be set up at that location by hand.
+        </s-paragraph>
+        <s-paragraph>
+          Trust GetInv pushes GetInv&apos;s quantities to Shopify; Trust Shopify pulls Shopify&apos;s into GetInv.
+          Each correction runs as a sync job and is recorded with every quantity it changes. Corrections are only
+          offered for recent audits, and a quantity that changed after the audit is left alone.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
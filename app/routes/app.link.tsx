@@ -0,0 +1,177 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+import { authenticate } from "../shopify.server";
+import { resolveTenant } from "../services/tenant-resolver.server";
+import { linkShopWithCode, unlinkShop, type LinkFailureReason } from "../services/tenant-link.server";
+import { validateLinkCode, sanitizeErrorMessage } from "../utils/validation.server";
+
+type LinkActionData =
+  | { ok: true; intent: "link" | "unlink"; message: string }
+  | { ok: false; intent: "link" | "unlink"; message: string; reason?: LinkFailureReason | "invalid_input"; code?: string };
+
+// --------------------
+// GET /app/link
+// Current link state for this shop
+// --------------------
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const { adminId, error } = await resolveTenant(session.shop);
+
+  return {
+    shopDomain: session.shop,
+    adminId,
+    error: error ? { type: error.type, message: error.message } : null,
+  };
+};
+
+// --------------------
+// POST /app/link
+// Form fields:
+//   intent=link, code, replace?=true  -> redeem a GetInv link code
+//   intent=unlink                     -> remove the link
+// --------------------
+export const action = async ({ request }: ActionFunctionArgs): Promise<LinkActionData> => {
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent") === "unlink" ? "unlink" : "link";
+
+  try {
+    if (intent === "unlink") {
+      const result = await unlinkShop(session.shop);
+      if (!result.ok) return { ok: false, intent, reason: result.reason, message: result.message };
+
+      return {
+        ok: true,
+        intent,
+        message: result.unlinked ? "This store is no longer linked to GetInv." : "This store was not linked.",
+      };
+    }
+
+    const rawCode = formData.get("code");
+    let code: string;
+    try {
+      code = validateLinkCode(rawCode);
+    } catch (error) {
+      return { ok: false, intent, reason: "invalid_input", message: sanitizeErrorMessage(error, false) };
+    }
+
+    const result = await linkShopWithCode({
+      shop: session.shop,
+      code,
+      replaceExisting: formData.get("replace") === "true",
+    });
+
+    if (!result.ok) {
+      // Hand the code back so the merchant can confirm a re-link without retyping it
+      return { ok: false, intent, reason: result.reason, message: result.message, code: String(rawCode) };
+    }
+
+    return {
+      ok: true,
+      intent,
+      message: result.alreadyLinked
+        ? "This store was already linked to that GetInv account."
+        : result.previousAdminId
+          ? "This store is now linked to the new GetInv account."
+          : "This store is now linked to GetInv.",
+    };
+  } catch (e) {
+    console.error(`[link action] Unexpected error:`, e);
+    return { ok: false, intent, message: sanitizeErrorMessage(e) };
+  }
+};
+
+export default function LinkPage() {
+  const { shopDomain, adminId, error } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [code, setCode] = useState("");
+
+  const busy = navigation.state !== "idle";
+  const conflict = actionData && !actionData.ok && actionData.reason === "linked_to_other_tenant";
+
+  return (
+    <s-page heading="Link to GetInv">
+      {error && (
+        <s-banner tone="critical" heading="Could not check the link for this store">
+          {error.message}
+        </s-banner>
+      )}
+
+      {actionData && !conflict && (
+        <s-banner tone={actionData.ok ? "success" : "critical"}>{actionData.message}</s-banner>
+      )}
+
+      {conflict && (
+        <s-banner tone="warning" heading="Already linked to another GetInv account">
+          <s-paragraph>{actionData.message}</s-paragraph>
+          <Form method="post">
+            <input type="hidden" name="intent" value="link" />
+            <input type="hidden" name="code" value={actionData.code ?? code} />
+            <input type="hidden" name="replace" value="true" />
+            <s-button type="submit" tone="critical" loading={busy}>
+              Re-link to the new account
+            </s-button>
+          </Form>
+        </s-banner>
+      )}
+
+      <s-section heading={adminId ? "Linked" : "Not linked"}>
+        {adminId ? (
+          <s-paragraph>
+            <s-text type="strong">{shopDomain}</s-text> is linked to GetInv account{" "}
+            <s-text type="strong">{adminId}</s-text>.
+          </s-paragraph>
+        ) : (
+          <s-paragraph>
+            <s-text type="strong">{shopDomain}</s-text> is not linked to a GetInv account yet. In GetInv, open
+            the Shopify integration settings and generate a link code, then enter it below.
+          </s-paragraph>
+        )}
+      </s-section>
+
+      <s-section heading={adminId ? "Link to a different account" : "Enter link code"}>
+        <Form method="post">
+          <input type="hidden" name="intent" value="link" />
+          <s-stack direction="block" gap="base">
+            <s-text-field
+              name="code"
+              label="Link code"
+              details="One-time code issued by GetInv. Codes expire after a short time."
+              value={code}
+              onChange={(e) => setCode(e.currentTarget.value)}
+              autocomplete="off"
+              error={actionData && !actionData.ok && actionData.reason === "invalid_input" ? actionData.message : undefined}
+            ></s-text-field>
+            <s-button type="submit" variant="primary" loading={busy} disabled={!code.trim()}>
+              {adminId ? "Re-link store" : "Link store"}
+            </s-button>
+          </s-stack>
+        </Form>
+      </s-section>
+
+      {adminId && (
+        <s-section heading="Unlink">
+          <s-paragraph>
+            Unlinking stops syncing between this store and GetInv. Products and inventory already synced are not
+            deleted.
+          </s-paragraph>
+          <Form
+            method="post"
+            onSubmit={(e) => {
+              if (!window.confirm("Unlink this store from GetInv? Syncing stops until it is linked again.")) {
+                e.preventDefault();
+              }
+            }}
+          >
+            <input type="hidden" name="intent" value="unlink" />
+            <s-button type="submit" tone="critical" loading={busy}>
+              Unlink store
+            </s-button>
+          </Form>
+        </s-section>
+      )}
+    </s-page>
+  );
+}
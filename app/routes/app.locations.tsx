@@ -0,0 +1,221 @@
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+import { authenticate } from "../shopify.server";
+import { resolveTenant } from "../services/tenant-resolver.server";
+import { getGrantedScopes, missingScopesFor } from "../services/capabilities.server";
+import {
+  getLocationMappings,
+  listGetInvWarehouses,
+  listShopifyLocations,
+  saveLocationMappings,
+  type GetInvWarehouse,
+  type ShopifyLocation,
+} from "../services/location-mapping.server";
+import { sanitizeErrorMessage } from "../utils/validation.server";
+
+type LocationsActionData = { ok: true; message: string } | { ok: false; message: string };
+
+// Form field per location: warehouse:<Shopify location GID> = GetInv warehouse id ("" = default warehouse)
+const FIELD_PREFIX = "warehouse:";
+
+// --------------------
+// GET /app/locations
+// Shopify locations, GetInv warehouses and the saved pairing between them
+// --------------------
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const { adminId, error } = await resolveTenant(session.shop);
+
+  if (error) {
+    return { status: "error" as const, message: error.message };
+  }
+  if (!adminId) {
+    return { status: "not_linked" as const };
+  }
+
+  const missingScopes = missingScopesFor("locations", await getGrantedScopes(session.shop));
+  if (missingScopes.length > 0) {
+    return { status: "missing_scope" as const, missingScopes };
+  }
+
+  try {
+    const [locations, warehouses, mappings] = await Promise.all([
+      listShopifyLocations(admin.graphql),
+      listGetInvWarehouses(adminId),
+      getLocationMappings(session.shop, adminId),
+    ]);
+
+    return {
+      status: "ready" as const,
+      locations,
+      warehouses,
+      mapped: Object.fromEntries(mappings.map((m) => [m.shopifyLocationId, m.warehouseId])),
+    };
+  } catch (e) {
+    console.error(`[locations loader] Could not load locations or warehouses:`, e);
+    return { status: "error" as const, message: sanitizeErrorMessage(e) };
+  }
+};
+
+// --------------------
+// POST /app/locations
+// Form fields: warehouse:<location id> = warehouse id, one per Shopify location
+// Locations and warehouses are checked against fresh lists so a stale form can't save unknown ids
+// --------------------
+export const action = async ({ request }: ActionFunctionArgs): Promise<LocationsActionData> => {
+  const { admin, session } = await authenticate.admin(request);
+
+  try {
+    const { adminId, error } = await resolveTenant(session.shop);
+    if (error) return { ok: false, message: error.message };
+    if (!adminId) return { ok: false, message: "Link this store to GetInv before mapping locations." };
+
+    const formData = await request.formData();
+    const [locations, warehouses] = await Promise.all([
+      listShopifyLocations(admin.graphql),
+      listGetInvWarehouses(adminId),
+    ]);
+    const warehouseIds = new Set(warehouses.map((w) => w.id));
+
+    const mappings = [];
+    for (const location of locations) {
+      const value = formData.get(`${FIELD_PREFIX}${location.id}`);
+      const warehouseId = typeof value === "string" && value ? value : null;
+
+      if (warehouseId && !warehouseIds.has(warehouseId)) {
+        return { ok: false, message: `Invalid warehouse for ${location.name}. Reload the page and try again.` };
+      }
+
+      mappings.push({ shopifyLocationId: location.id, shopifyLocationName: location.name, warehouseId });
+    }
+
+    const saved = await saveLocationMappings(session.shop, adminId, mappings);
+    return {
+      ok: true,
+      message:
+        saved.length === 0
+          ? "No locations are mapped. Stock syncs with GetInv's default warehouse."
+          : `Saved ${saved.length} location mapping${saved.length === 1 ? "" : "s"}. The next pull or push uses them.`,
+    };
+  } catch (e) {
+    console.error(`[locations action] Unexpected error:`, e);
+    return { ok: false, message: sanitizeErrorMessage(e) };
+  }
+};
+
+function WarehouseSelect({
+  location,
+  warehouses,
+  value,
+  onChange,
+}: {
+  location: ShopifyLocation;
+  warehouses: GetInvWarehouse[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <s-select
+      name={`${FIELD_PREFIX}${location.id}`}
+      label={`GetInv warehouse for ${location.name}`}
+      labelAccessibilityVisibility="exclusive"
+      value={value}
+      onChange={(e) => onChange(e.currentTarget.value)}
+    >
+      <s-option value="">Default warehouse</s-option>
+      {warehouses.map((w) => (
+        <s-option key={w.id} value={w.id}>
+          {w.isDefault ? `${w.name} (default)` : w.name}
+        </s-option>
+      ))}
+    </s-select>
+  );
+}
+
+export default function LocationsPage() {
+  const data = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [selected, setSelected] = useState<Record<string, string>>(data.status === "ready" ? data.mapped : {});
+
+  const busy = navigation.state !== "idle";
+
+  return (
+    <s-page heading="Locations">
+      {actionData && <s-banner tone={actionData.ok ? "success" : "critical"}>{actionData.message}</s-banner>}
+
+      {data.status === "error" && (
+        <s-banner tone="critical" heading="Could not load locations">
+          {data.message}
+        </s-banner>
+      )}
+
+      {data.status === "not_linked" && (
+        <s-banner tone="warning" heading="Not linked to GetInv">
+          Link this store on the <s-link href="/app/link">Link GetInv</s-link> page to choose warehouses.
+        </s-banner>
+      )}
+
+      {data.status === "missing_scope" && (
+        <s-banner tone="warning" heading="Permission needed">
+          The app needs the {data.missingScopes.join(", ")} permission to read your locations. Grant it from the{" "}
+          <s-link href="/app">home page</s-link>.
+        </s-banner>
+      )}
+
+      {data.status === "ready" && (
+        <s-section heading="Shopify location → GetInv warehouse" padding="none">
+          {data.locations.length === 0 ? (
+            <s-box padding="base">
+              <s-paragraph>This store has no locations.</s-paragraph>
+            </s-box>
+          ) : (
+            <Form method="post">
+              <s-table>
+                <s-table-header-row>
+                  <s-table-header listSlot="primary">Shopify location</s-table-header>
+                  <s-table-header listSlot="secondary">Status</s-table-header>
+                  <s-table-header>GetInv warehouse</s-table-header>
+                </s-table-header-row>
+                <s-table-body>
+                  {data.locations.map((location) => (
+                    <s-table-row key={location.id}>
+                      <s-table-cell>{location.name}</s-table-cell>
+                      <s-table-cell>
+                        <s-badge tone={location.isActive ? "success" : "neutral"}>
+                          {location.isActive ? "Active" : "Inactive"}
+                        </s-badge>
+                      </s-table-cell>
+                      <s-table-cell>
+                        <WarehouseSelect
+                          location={location}
+                          warehouses={data.warehouses}
+                          value={selected[location.id] ?? ""}
+                          onChange={(value) => setSelected((prev) => ({ ...prev, [location.id]: value }))}
+                        />
+                      </s-table-cell>
+                    </s-table-row>
+                  ))}
+                </s-table-body>
+              </s-table>
+              <s-box padding="base">
+                <s-button type="submit" variant="primary" loading={busy}>
+                  Save mappings
+                </s-button>
+              </s-box>
+            </Form>
+          )}
+        </s-section>
+      )}
+
+      <s-section slot="aside" heading="About">
+        <s-paragraph>
+          Pick the GetInv warehouse that holds each location&apos;s stock. Pulls read stock per location into the
+          matching warehouse, and pushes write each warehouse&apos;s stock to its location.
+        </s-paragraph>
+        <s-paragraph>Locations left on &quot;Default warehouse&quot; sync with GetInv&apos;s default warehouse.</s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
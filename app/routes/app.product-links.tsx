@@ -0,0 +1,273 @@
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useRevalidator } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { resolveTenant } from "../services/tenant-resolver.server";
+import {
+  getSyncProductLinks,
+  listGetInvItems,
+  listProductLinks,
+  listUnlinkedShopifyVariants,
+  MAX_UNMATCHED,
+  type GetInvItem,
+} from "../services/product-links.server";
+import { sanitizeErrorMessage } from "../utils/validation.server";
+
+// --------------------
+// GET /app/product-links
+// GetInv items and Shopify variants that no link pairs yet, plus the links made by hand
+// --------------------
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const { adminId, error } = await resolveTenant(session.shop);
+
+  if (error) {
+    return { status: "error" as const, message: error.message };
+  }
+  if (!adminId) {
+    return { status: "not_linked" as const };
+  }
+
+  try {
+    const [links, items, manual] = await Promise.all([
+      getSyncProductLinks(session.shop, adminId),
+      listGetInvItems(adminId),
+      listProductLinks({ shop: session.shop, adminId, source: "manual", page: 1, pageSize: MAX_UNMATCHED }),
+    ]);
+
+    const linkedItems = new Set(links.map((l) => l.getinvItemId));
+    const { variants, truncated: variantsTruncated } = await listUnlinkedShopifyVariants(
+      admin.graphql,
+      new Set(links.map((l) => l.variantId))
+    );
+    const unmatchedItems = items.filter((item) => !linkedItems.has(item.id));
+    const itemNames = new Map(items.map((item) => [item.id, item.name]));
+
+    return {
+      status: "ready" as const,
+      items: unmatchedItems.slice(0, MAX_UNMATCHED),
+      itemsTruncated: unmatchedItems.length > MAX_UNMATCHED,
+      variants,
+      variantsTruncated,
+      manualLinks: manual.links.map((l) => ({
+        getinvItemId: l.getinvItemId,
+        itemName: itemNames.get(l.getinvItemId) ?? l.getinvItemId,
+        sku: l.sku,
+      })),
+    };
+  } catch (e) {
+    console.error(`[product links loader] Could not load items or variants:`, e);
+    return { status: "error" as const, message: sanitizeErrorMessage(e) };
+  }
+};
+
+type Message = { tone: "success" | "critical"; text: string };
+
+export default function ProductLinksPage() {
+  const data = useLoaderData<typeof loader>();
+  const shopify = useAppBridge();
+  const revalidator = useRevalidator();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<Message | null>(null);
+
+  // Saves go through fetch so App Bridge adds the session token
+  async function saveLink(method: "POST" | "DELETE", body: Record<string, string>): Promise<boolean> {
+    const res = await fetch("/api/sync/links", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await res.json().catch(() => ({}));
+
+    if (!res.ok || result.ok === false) {
+      setMessage({ tone: "critical", text: result.error || `Request failed (HTTP ${res.status})` });
+      return false;
+    }
+    return true;
+  }
+
+  async function pickVariant(item: GetInvItem) {
+    setMessage(null);
+    setBusy(item.id);
+    try {
+      const selection = await shopify.resourcePicker({
+        type: "product",
+        action: "select",
+        multiple: false,
+        filter: { variants: true },
+        query: item.sku ?? item.name,
+      });
+      // Closed without choosing
+      if (!selection || selection.length === 0) return;
+
+      const variantIds = selection[0].variants.flatMap((v) => (typeof v.id === "string" ? [v.id] : []));
+      if (variantIds.length !== 1) {
+        setMessage({ tone: "critical", text: "Pick exactly one variant to link to a GetInv item." });
+        return;
+      }
+
+      if (await saveLink("POST", { getinvItemId: item.id, variantId: variantIds[0] })) {
+        setMessage({ tone: "success", text: `Linked ${item.name} to ${selection[0].title}.` });
+        revalidator.revalidate();
+      }
+    } catch (e) {
+      setMessage({ tone: "critical", text: e instanceof Error ? e.message : "Could not save the link" });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function unlink(getinvItemId: string, itemName: string) {
+    setMessage(null);
+    setBusy(getinvItemId);
+    try {
+      if (await saveLink("DELETE", { getinvItemId })) {
+        setMessage({ tone: "success", text: `Unlinked ${itemName}. The next sync matches it by SKU again.` });
+        revalidator.revalidate();
+      }
+    } catch (e) {
+      setMessage({ tone: "critical", text: e instanceof Error ? e.message : "Could not remove the link" });
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <s-page heading="Product links">
+      {message && <s-banner tone={message.tone}>{message.text}</s-banner>}
+
+      {data.status === "error" && (
+        <s-banner tone="critical" heading="Could not load products">
+          {data.message}
+        </s-banner>
+      )}
+
+      {data.status === "not_linked" && (
+        <s-banner tone="warning" heading="Not linked to GetInv">
+          Link this store on the <s-link href="/app/link">Link GetInv</s-link> page to link products.
+        </s-banner>
+      )}
+
+      {data.status === "ready" && (
+        <>
+          <s-grid gridTemplateColumns="1fr 1fr" gap="base">
+            <s-section heading="Unmatched GetInv items" padding="none">
+              {data.items.length === 0 ? (
+                <s-box padding="base">
+                  <s-paragraph>Every GetInv item is linked to a Shopify variant.</s-paragraph>
+                </s-box>
+              ) : (
+                <s-table>
+                  <s-table-header-row>
+                    <s-table-header listSlot="primary">Item</s-table-header>
+                    <s-table-header listSlot="secondary">SKU</s-table-header>
+                    <s-table-header>Link</s-table-header>
+                  </s-table-header-row>
+                  <s-table-body>
+                    {data.items.map((item) => (
+                      <s-table-row key={item.id}>
+                        <s-table-cell>{item.name}</s-table-cell>
+                        <s-table-cell>{item.sku ?? "—"}</s-table-cell>
+                        <s-table-cell>
+                          <s-button
+                            onClick={() => pickVariant(item)}
+                            loading={busy === item.id}
+                            disabled={busy !== null && busy !== item.id}
+                          >
+                            Choose product
+                          </s-button>
+                        </s-table-cell>
+                      </s-table-row>
+                    ))}
+                  </s-table-body>
+                </s-table>
+              )}
+              {data.itemsTruncated && (
+                <s-box padding="base">
+                  <s-paragraph>Showing the first {data.items.length} unmatched items.</s-paragraph>
+                </s-box>
+              )}
+            </s-section>
+
+            <s-section heading="Unmatched Shopify variants" padding="none">
+              {data.variants.length === 0 ? (
+                <s-box padding="base">
+                  <s-paragraph>Every Shopify variant is linked to a GetInv item.</s-paragraph>
+                </s-box>
+              ) : (
+                <s-table>
+                  <s-table-header-row>
+                    <s-table-header listSlot="primary">Product</s-table-header>
+                    <s-table-header listSlot="secondary">SKU</s-table-header>
+                    <s-table-header>Variant</s-table-header>
+                  </s-table-header-row>
+                  <s-table-body>
+                    {data.variants.map((variant) => (
+                      <s-table-row key={variant.id}>
+                        <s-table-cell>{variant.productTitle}</s-table-cell>
+                        <s-table-cell>{variant.sku ?? "—"}</s-table-cell>
+                        <s-table-cell>{variant.title}</s-table-cell>
+                      </s-table-row>
+                    ))}
+                  </s-table-body>
+                </s-table>
+              )}
+              {data.variantsTruncated && (
+                <s-box padding="base">
+                  <s-paragraph>Showing the first {data.variants.length} unmatched variants.</s-paragraph>
+                </s-box>
+              )}
+            </s-section>
+          </s-grid>
+
+          <s-section heading="Linked by hand" padding="none">
+            {data.manualLinks.length === 0 ? (
+              <s-box padding="base">
+                <s-paragraph>No products have been linked by hand yet.</s-paragraph>
+              </s-box>
+            ) : (
+              <s-table>
+                <s-table-header-row>
+                  <s-table-header listSlot="primary">GetInv item</s-table-header>
+                  <s-table-header listSlot="secondary">Shopify SKU</s-table-header>
+                  <s-table-header>Unlink</s-table-header>
+                </s-table-header-row>
+                <s-table-body>
+                  {data.manualLinks.map((link) => (
+                    <s-table-row key={link.getinvItemId}>
+                      <s-table-cell>{link.itemName}</s-table-cell>
+                      <s-table-cell>{link.sku ?? "—"}</s-table-cell>
+                      <s-table-cell>
+                        <s-button
+                          tone="critical"
+                          variant="tertiary"
+                          onClick={() => unlink(link.getinvItemId, link.itemName)}
+                          loading={busy === link.getinvItemId}
+                          disabled={busy !== null && busy !== link.getinvItemId}
+                        >
+                          Unlink
+                        </s-button>
+                      </s-table-cell>
+                    </s-table-row>
+                  ))}
+                </s-table-body>
+              </s-table>
+            )}
+          </s-section>
+        </>
+      )}
+
+      <s-section slot="aside" heading="About">
+        <s-paragraph>
+          Syncs match GetInv items to Shopify variants by SKU and remember each match. Items whose SKU is missing,
+          different or shared by several variants stay unmatched until you link them here.
+        </s-paragraph>
+        <s-paragraph>
+          Choose a product for an item, then the variant that holds its stock. Links made here are never replaced by
+          a sync; unlink an item to let syncs match it by SKU again.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,278 @@
+import { useEffect, useRef, useState } from "react";
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useRevalidator } from "react-router";
+import { authenticate } from "../shopify.server";
+import { resolveTenant } from "../services/tenant-resolver.server";
+import { getLatestReconciliationJob, getLatestReconciliationReport } from "../services/reconciliation.server";
+import type { ReconciliationBucket } from "../utils/validation.server";
+
+// Rows shown on the page per bucket; the CSV has all of them
+const MAX_ROWS_SHOWN = 250;
+
+const POLL_INTERVAL_MS = 3000;
+
+type BadgeTone = "info" | "success" | "warning" | "critical" | "neutral";
+
+const BUCKETS: { bucket: ReconciliationBucket; label: string; tone: BadgeTone }[] = [
+  { bucket: "matched", label: "Matched", tone: "success" },
+  { bucket: "shopify_only", label: "Shopify only", tone: "warning" },
+  { bucket: "getinv_only", label: "GetInv only", tone: "warning" },
+  { bucket: "duplicate_sku", label: "Duplicate SKU", tone: "critical" },
+  { bucket: "blank_sku", label: "Blank SKU", tone: "critical" },
+];
+
+// --------------------
+// GET /app/reconciliation
+// The latest stored report; a new one is queued through POST /api/sync/reconcile and built by the sync worker
+// --------------------
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const { adminId, error } = await resolveTenant(session.shop);
+
+  if (error) return { status: "error" as const, message: error.message };
+  if (!adminId) return { status: "not_linked" as const };
+
+  const [report, job] = await Promise.all([
+    getLatestReconciliationReport(session.shop, adminId),
+    getLatestReconciliationJob(session.shop, adminId),
+  ]);
+
+  return {
+    status: "ready" as const,
+    // A report still waiting for (or being built in) the sync worker
+    pendingJobId: job && (job.status === "queued" || job.status === "running") ? job.id : null,
+    report: report && {
+      generatedAt: report.generatedAt,
+      complete: report.complete,
+      summary: report.summary,
+      rows: BUCKETS.flatMap((b) => report.rows.filter((r) => r.bucket === b.bucket).slice(0, MAX_ROWS_SHOWN)),
+    },
+  };
+};
+
+export default function ReconciliationPage() {
+  const data = useLoaderData<typeof loader>();
+  const revalidator = useRevalidator();
+  const [bucket, setBucket] = useState<ReconciliationBucket>("duplicate_sku");
+  const [running, setRunning] = useState<"json" | "csv" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = data.status === "ready" ? data.report : null;
+  const pendingJobId = data.status === "ready" ? data.pendingJobId : null;
+  const [jobId, setJobId] = useState<string | null>(pendingJobId);
+
+  // Kept in a ref so the polling effect doesn't restart on every revalidation
+  const revalidate = useRef(revalidator.revalidate);
+  revalidate.current = revalidator.revalidate;
+
+  // Picks up a report queued before a reload
+  useEffect(() => {
+    if (pendingJobId) setJobId(pendingJobId);
+  }, [pendingJobId]);
+
+  // Polls the queued report until the worker has built it
+  useEffect(() => {
+    if (!jobId) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    async function poll() {
+      try {
+        const res = await fetch(`/api/sync/jobs/${jobId}`);
+        const result = await res.json().catch(() => ({}));
+        if (stopped) return;
+
+        if (!res.ok || result.ok === false) {
+          setError(result.error || `Could not load the report's status (HTTP ${res.status})`);
+          setJobId(null);
+          return;
+        }
+
+        if (!result.done) {
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+          return;
+        }
+
+        setJobId(null);
+        if (result.job.status !== "succeeded") {
+          setError(`Reconciliation ${result.job.status}: ${result.job.error?.message ?? "Unknown error"}`);
+        }
+        revalidate.current();
+      } catch {
+        // Transient network error - keep polling
+        if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS * 2);
+      }
+    }
+
+    poll();
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  // Goes through fetch so App Bridge adds the session token
+  async function runReport() {
+    setRunning("json");
+    setError(null);
+    try {
+      const res = await fetch("/api/sync/reconcile", { method: "POST" });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok || body.ok === false) throw new Error(body.error ?? `Reconciliation failed (${res.status})`);
+      setJobId(body.jobId);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  async function downloadCsv() {
+    setRunning("csv");
+    setError(null);
+    try {
+      const res = await fetch(`/api/sync/reconcile?format=csv&bucket=${bucket}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.error ?? `Download failed (${res.status})`);
+      }
+
+      const filename =
+        /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? `reconciliation-${bucket}.csv`;
+      const objectUrl = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(objectUrl);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  const rows = report ? report.rows.filter((r) => r.bucket === bucket) : [];
+
+  return (
+    <s-page heading="Reconciliation">
+      {error && (
+        <s-banner tone="critical" heading="Could not reconcile the catalog">
+          {error}
+        </s-banner>
+      )}
+
+      {data.status === "error" && (
+        <s-banner tone="critical" heading="Could not load the store's GetInv link">
+          {data.message}
+        </s-banner>
+      )}
+
+      {data.status === "not_linked" && (
+        <s-banner tone="warning" heading="Not linked to GetInv">
+          Link this store on the <s-link href="/app/link">Link GetInv</s-link> page to reconcile its catalog.
+        </s-banner>
+      )}
+
+      {data.status === "ready" && (
+        <s-section padding="base">
+          <s-stack direction="inline" gap="small-200">
+            <s-button
+              variant="primary"
+              onClick={runReport}
+              loading={running === "json" || jobId !== null}
+              disabled={running === "csv"}
+            >
+              {jobId ? "Reconciliation running…" : report ? "Run again" : "Run reconciliation"}
+            </s-button>
+            <s-button onClick={downloadCsv} loading={running === "csv"} disabled={!report || running === "json"}>
+              Download CSV
+            </s-button>
+          </s-stack>
+        </s-section>
+      )}
+
+      {report && (
+        <>
+          {!report.complete && (
+            <s-banner tone="warning" heading="Catalog only partly scanned">
+              The store has more variants than one report covers, so some GetInv-only items may have a Shopify match.
+            </s-banner>
+          )}
+
+          <s-section heading="Summary">
+            <s-stack direction="inline" gap="small-200">
+              {BUCKETS.map((b) => (
+                <s-badge key={b.bucket} tone={b.tone}>
+                  {b.label}: {report.summary[b.bucket]}
+                </s-badge>
+              ))}
+            </s-stack>
+            <s-paragraph>Generated {new Date(report.generatedAt).toLocaleString()}</s-paragraph>
+          </s-section>
+
+          <s-section padding="none">
+            <s-box padding="base">
+              <s-select
+                label="Bucket"
+                value={bucket}
+                onChange={(e) => setBucket(e.currentTarget.value as ReconciliationBucket)}
+              >
+                {BUCKETS.map((b) => (
+                  <s-option key={b.bucket} value={b.bucket}>
+                    {b.label} ({report.summary[b.bucket]})
+                  </s-option>
+                ))}
+              </s-select>
+            </s-box>
+
+            {rows.length === 0 ? (
+              <s-box padding="base">
+                <s-paragraph>Nothing in this bucket.</s-paragraph>
+              </s-box>
+            ) : (
+              <s-table>
+                <s-table-header-row>
+                  <s-table-header listSlot="primary">SKU</s-table-header>
+                  <s-table-header listSlot="secondary">Shopify product</s-table-header>
+                  <s-table-header>Variant</s-table-header>
+                  <s-table-header>GetInv item</s-table-header>
+                  <s-table-header>Matched by</s-table-header>
+                </s-table-header-row>
+                <s-table-body>
+                  {rows.map((r) => (
+                    <s-table-row key={`${r.shopifyVariantId ?? ""}:${r.getinvItemId ?? ""}`}>
+                      <s-table-cell>{r.sku ?? "—"}</s-table-cell>
+                      <s-table-cell>{r.productTitle ?? "—"}</s-table-cell>
+                      <s-table-cell>{r.variantTitle ?? "—"}</s-table-cell>
+                      <s-table-cell>{r.getinvItemName ?? "—"}</s-table-cell>
+                      <s-table-cell>{r.matchedBy === "link" ? "Link" : r.matchedBy === "sku" ? "SKU" : "—"}</s-table-cell>
+                    </s-table-row>
+                  ))}
+                </s-table-body>
+              </s-table>
+            )}
+            {report.summary[bucket] > rows.length && (
+              <s-box padding="base">
+                <s-paragraph>
+                  Showing {rows.length} of {report.summary[bucket]}. Download the CSV for the full list.
+                </s-paragraph>
+              </s-box>
+            )}
+          </s-section>
+        </>
+      )}
+
+      <s-section slot="aside" heading="About">
+        <s-paragraph>
+          Reconciliation pairs every Shopify variant with a GetInv item the way a sync does: product links first, then
+          SKU. Duplicate and blank SKUs can&apos;t be matched automatically.
+        </s-paragraph>
+        <s-paragraph>
+          Fix SKUs in Shopify or GetInv, or pair items by hand on the{" "}
+          <s-link href="/app/product-links">Product links</s-link> page.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
@@ -44,7 +44,13 @@ export default function App() {
     <AppProvider embedded apiKey={apiKey}>
       <s-app-nav>
         <s-link href="/app">Home</s-link>
-        <s-link href="/app/additional">Additional page</s-link>
+        <s-link href="/app/link">Link GetInv</s-link>
+        <s-link href="/app/locations">Locations</s-link>
+        <s-link href="/app/product-links">Product links</s-link>
+        <s-link href="/app/reconciliation">Reconciliation</s-link>
+        <s-link href="/app/inventory-audit">Inventory audit</s-link>
+        <s-link href="/app/history">Sync history</s-link>
+        <s-link href="/app/data-requests">Data requests</s-link>
       </s-app-nav>
       <Outlet />
     </AppProvider>
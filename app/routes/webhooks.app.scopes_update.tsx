@@ -1,21 +1,12 @@
 import type { ActionFunctionArgs } from "react-router";
-import { authenticate } from "../shopify.server";
-import db from "../db.server";
+import { receiveWebhook } from "../services/webhook-inbox.server";
 
+/**
+ * Webhook: app/scopes_update
+ *
+ * Keeps the stored session scopes in step with what the merchant granted.
+ * Stored in the webhook inbox and handled by app-lifecycle.server.ts.
+ */
 export const action = async ({ request }: ActionFunctionArgs) => {
-    const { payload, session, topic, shop } = await authenticate.webhook(request);
-    console.log(`Received ${topic} webhook for ${shop}`);
-
-    const current = payload.current as string[];
-    if (session) {
-        await db.session.update({   
-            where: {
-                id: session.id
-            },
-            data: {
-                scope: current.toString(),
-            },
-        });
-    }
-    return new Response();
+  return receiveWebhook(request);
 };
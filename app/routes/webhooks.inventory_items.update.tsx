@@ -0,0 +1,12 @@
+import type { ActionFunctionArgs } from "react-router";
+import { receiveWebhook } from "../services/webhook-inbox.server";
+
+/**
+ * Webhook: inventory_items/update
+ *
+ * Fired when an inventory item's SKU, cost or tracking flag changes.
+ * Forwarded to GetInv so item metadata stays in step with Shopify.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return receiveWebhook(request);
+};
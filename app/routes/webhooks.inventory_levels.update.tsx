@@ -0,0 +1,12 @@
+import type { ActionFunctionArgs } from "react-router";
+import { receiveWebhook } from "../services/webhook-inbox.server";
+
+/**
+ * Webhook: inventory_levels/update
+ *
+ * Fired when available stock changes at a location (POS sales, other channels,
+ * manual adjustments). Forwarded to GetInv so its stock follows within minutes.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return receiveWebhook(request);
+};
@@ -0,0 +1,13 @@
+import type { ActionFunctionArgs } from "react-router";
+import { minimizeOrderPayload } from "../services/order-events.server";
+import { receiveWebhook } from "../services/webhook-inbox.server";
+
+/**
+ * Webhook: orders/cancelled
+ *
+ * Releases the reservations made for the order, less anything already
+ * fulfilled.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return receiveWebhook(request, { reducePayload: minimizeOrderPayload });
+};
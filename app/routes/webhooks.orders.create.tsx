@@ -0,0 +1,13 @@
+import type { ActionFunctionArgs } from "react-router";
+import { minimizeOrderPayload } from "../services/order-events.server";
+import { receiveWebhook } from "../services/webhook-inbox.server";
+
+/**
+ * Webhook: orders/create
+ *
+ * Reserves each line item's quantity in GetInv so sold stock is no longer
+ * offered elsewhere.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return receiveWebhook(request, { reducePayload: minimizeOrderPayload });
+};
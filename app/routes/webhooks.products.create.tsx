@@ -0,0 +1,12 @@
+import type { ActionFunctionArgs } from "react-router";
+import { receiveWebhook } from "../services/webhook-inbox.server";
+
+/**
+ * Webhook: products/create
+ *
+ * Fired when a product is created in Shopify admin or by another app.
+ * Forwarded to GetInv, which creates the product for the linked tenant.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return receiveWebhook(request);
+};
@@ -0,0 +1,11 @@
+import type { ActionFunctionArgs } from "react-router";
+import { receiveWebhook } from "../services/webhook-inbox.server";
+
+/**
+ * Webhook: products/delete
+ *
+ * Fired when a product is deleted in Shopify. GetInv archives its copy.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return receiveWebhook(request);
+};
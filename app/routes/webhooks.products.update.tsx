@@ -0,0 +1,12 @@
+import type { ActionFunctionArgs } from "react-router";
+import { receiveWebhook } from "../services/webhook-inbox.server";
+
+/**
+ * Webhook: products/update
+ *
+ * Fired on any product edit. Edits made by our own pushes are dropped by the
+ * echo guard; everything else is forwarded so GetInv updates its copy.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return receiveWebhook(request);
+};
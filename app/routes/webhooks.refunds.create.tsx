@@ -0,0 +1,13 @@
+import type { ActionFunctionArgs } from "react-router";
+import { minimizeRefundPayload } from "../services/order-events.server";
+import { receiveWebhook } from "../services/webhook-inbox.server";
+
+/**
+ * Webhook: refunds/create
+ *
+ * Restocks returned items in GetInv at the refund's location, or releases
+ * the reservation when the refund cancels unfulfilled items.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return receiveWebhook(request, { reducePayload: minimizeRefundPayload });
+};
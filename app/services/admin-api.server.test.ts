@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+import { queryAdminApi } from "./admin-api.server";
+
+const THROTTLED = {
+  errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+  extensions: { cost: { requestedQueryCost: 402, throttleStatus: { currentlyAvailable: 2, restoreRate: 100 } } },
+};
+
+function client(...responses: (Record<string, unknown> | Error)[]) {
+  const graphql = vi.fn(async () => {
+    const next = responses.shift();
+    if (next instanceof Error) throw next;
+    return Response.json(next);
+  });
+  return graphql as unknown as AdminGraphqlClient & typeof graphql;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("queryAdminApi", () => {
+  it("waits out a THROTTLED response for as long as the bucket needs to refill", async () => {
+    const graphql = client(THROTTLED, { data: { ok: true } });
+
+    const result = queryAdminApi(graphql, "test", "query { ok }", {});
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(graphql).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(graphql).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries when the client throws a throttled GraphqlQueryError", async () => {
+    const error = Object.assign(new Error("Throttled"), {
+      body: { errors: { graphQLErrors: THROTTLED.errors }, extensions: THROTTLED.extensions },
+    });
+    const graphql = client(error, { data: { ok: true } });
+
+    const result = queryAdminApi(graphql, "test", "query { ok }", {});
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ ok: true });
+  });
+
+  it("throws other GraphQL errors without retrying", async () => {
+    const graphql = client({ errors: [{ message: "Field 'nope' doesn't exist" }] });
+
+    await expect(queryAdminApi(graphql, "test", "query { nope }", {})).rejects.toThrow("Shopify test query failed");
+    expect(graphql).toHaveBeenCalledTimes(1);
+  });
+});
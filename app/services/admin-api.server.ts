@@ -0,0 +1,108 @@
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+
+/**
+ * Admin API queries for long catalog reads
+ *
+ * Audits and reconciliation page through whole catalogs, so they run into
+ * Shopify's GraphQL rate limit: a THROTTLED error (or a 429) means the cost
+ * bucket is empty, not that the query is wrong. Those are waited out using the
+ * cost Shopify reports and retried; any other error is thrown.
+ */
+
+const MAX_THROTTLE_RETRIES = 5;
+
+// When Shopify doesn't say how long to wait
+const DEFAULT_THROTTLE_WAIT_MS = 2000;
+const MAX_THROTTLE_WAIT_MS = 20 * 1000;
+
+interface QueryCost {
+  requestedQueryCost?: number;
+  throttleStatus?: { currentlyAvailable?: number; restoreRate?: number };
+}
+
+interface GraphqlBody<T> {
+  data?: T;
+  errors?: unknown;
+  extensions?: { cost?: QueryCost };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The client throws GraphqlQueryError with { errors: { graphQLErrors } }; a raw body has errors: []
+function graphqlErrors(errors: unknown): Record<string, unknown>[] {
+  const list = isRecord(errors) ? errors.graphQLErrors : errors;
+  return Array.isArray(list) ? list.filter(isRecord) : [];
+}
+
+function isThrottledErrors(errors: unknown): boolean {
+  return graphqlErrors(errors).some((e) => isRecord(e.extensions) && e.extensions.code === "THROTTLED");
+}
+
+/**
+ * How long until the bucket holds the query's cost again
+ */
+function throttleWaitMs(cost: QueryCost | undefined, retryAfterSeconds?: number): number {
+  if (retryAfterSeconds !== undefined && Number.isFinite(retryAfterSeconds)) {
+    return Math.min(retryAfterSeconds * 1000, MAX_THROTTLE_WAIT_MS);
+  }
+
+  const requested = cost?.requestedQueryCost;
+  const available = cost?.throttleStatus?.currentlyAvailable;
+  const restoreRate = cost?.throttleStatus?.restoreRate;
+  if (requested === undefined || available === undefined || !restoreRate) return DEFAULT_THROTTLE_WAIT_MS;
+
+  return Math.min(Math.max(Math.ceil(((requested - available) / restoreRate) * 1000), 500), MAX_THROTTLE_WAIT_MS);
+}
+
+// Wait for a throttled request, or undefined when the error is something else
+function throttleWaitFromError(error: unknown): number | undefined {
+  if (!(error instanceof Error)) return undefined;
+
+  const { body, retryAfter, code } = error as Error & { body?: unknown; retryAfter?: number; code?: number };
+  if (code === 429) return throttleWaitMs(undefined, retryAfter);
+
+  if (isRecord(body) && isThrottledErrors(body.errors)) {
+    return throttleWaitMs(isRecord(body.extensions) ? (body.extensions.cost as QueryCost | undefined) : undefined);
+  }
+
+  return undefined;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs one Admin API query, waiting out rate limiting
+ * `label` names the query in thrown errors.
+ */
+export async function queryAdminApi<T>(
+  graphql: AdminGraphqlClient,
+  label: string,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T | undefined> {
+  for (let attempt = 0; ; attempt++) {
+    let body: GraphqlBody<T>;
+    let waitMs: number | undefined;
+
+    try {
+      const response = await graphql(query, { variables });
+      body = (await response.json()) as GraphqlBody<T>;
+      if (body.errors && isThrottledErrors(body.errors)) waitMs = throttleWaitMs(body.extensions?.cost);
+    } catch (error) {
+      waitMs = throttleWaitFromError(error);
+      if (waitMs === undefined || attempt >= MAX_THROTTLE_RETRIES) throw error;
+      await sleep(waitMs);
+      continue;
+    }
+
+    if (waitMs !== undefined && attempt < MAX_THROTTLE_RETRIES) {
+      await sleep(waitMs);
+      continue;
+    }
+
+    if (body.errors) throw new Error(`Shopify ${label} query failed: ${JSON.stringify(body.errors)}`);
+    return body.data;
+  }
+}
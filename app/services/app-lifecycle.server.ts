@@ -0,0 +1,118 @@
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import {
+  disableRevokedFeatures,
+  featureWebhooks,
+  getGrantedScopes,
+  parseScopes,
+  registerFeatureWebhooks,
+} from "./capabilities.server";
+import { cancelActiveSyncJobs } from "./sync-jobs.server";
+import { forceReleaseSyncLock } from "./sync-lock.server";
+import { deactivateShopLink, restoreShopLink } from "./tenant-link.server";
+import { invalidateTenant } from "./tenant-resolver.server";
+import type { WebhookDelivery, WebhookHandlerResult } from "./webhook-inbox.server";
+
+/**
+ * App lifecycle: install / uninstall and scope changes
+ *
+ * Uninstalling deletes sessions, cancels the shop's pending sync jobs, turns
+ * auto-sync off and deactivates the GetInv link. Reinstalling within the grace
+ * period (see tenant-link.server.ts) restores the link. Revoking optional scopes
+ * switches off the features that need them, and granting them subscribes the
+ * webhooks those features listen to (see capabilities.server.ts).
+ */
+
+/**
+ * app/uninstalled
+ * Can arrive more than once and after the sessions are already gone, so every step is idempotent.
+ * Supabase errors are thrown so the inbox retries; auto-sync must not stay on for an uninstalled shop.
+ */
+export async function handleAppUninstalled(delivery: WebhookDelivery): Promise<WebhookHandlerResult> {
+  const { shop } = delivery;
+  const { count: sessionsDeleted } = await db.session.deleteMany({ where: { shop } });
+
+  const reason = "The app was uninstalled from this store";
+  const jobsCancelled = await cancelActiveSyncJobs(shop, reason);
+  await forceReleaseSyncLock(shop, reason);
+
+  const { adminId, deactivated } = await deactivateShopLink(shop);
+
+  // Also clears the cache when there was no link to deactivate
+  invalidateTenant(shop);
+
+  return { status: "processed", detail: { sessionsDeleted, jobsCancelled, adminId, linkDeactivated: deactivated } };
+}
+
+/**
+ * afterAuth hook: runs after every install or re-authorization
+ * Brings back a link deactivated by a recent uninstall and subscribes the webhooks
+ * of optional scopes already granted. Errors are logged, never thrown, so a
+ * Supabase or Admin API problem cannot block the install itself.
+ */
+export async function handleAfterAuth({
+  session,
+  admin,
+}: {
+  session: { shop: string; scope?: string };
+  admin: { graphql: AdminGraphqlClient };
+}): Promise<void> {
+  try {
+    const result = await restoreShopLink(session.shop);
+    if (!result.restored && result.reason === "grace_period_expired") {
+      console.log(`[AppLifecycle] ${session.shop} returned after the grace period; it needs to be linked again`);
+    }
+  } catch (error) {
+    console.error(`[AppLifecycle] Could not restore the GetInv link for ${session.shop}:`, error);
+  }
+
+  try {
+    await registerFeatureWebhooks(admin.graphql, featureWebhooks(parseScopes(session.scope)));
+  } catch (error) {
+    console.error(`[AppLifecycle] Could not subscribe optional-scope webhooks for ${session.shop}:`, error);
+  }
+}
+
+/**
+ * app/scopes_update
+ * { previous: string[], current: string[] }
+ * Stores the new scopes, switches off features that lost a scope they need and
+ * subscribes the webhooks of the ones now granted. Admin API errors are thrown so the inbox retries.
+ */
+export async function handleAppScopesUpdate(delivery: WebhookDelivery): Promise<WebhookHandlerResult> {
+  const { current, previous: previousScopes } = delivery.payload;
+
+  if (!Array.isArray(current)) {
+    return { status: "ignored", detail: { reason: "missing_current_scopes" } };
+  }
+
+  // A retried delivery has already stored `current`, so prefer the payload's own `previous`
+  const previous = Array.isArray(previousScopes)
+    ? parseScopes(previousScopes.toString())
+    : await getGrantedScopes(delivery.shop);
+
+  const { count } = await db.session.updateMany({
+    where: { shop: delivery.shop },
+    data: { scope: current.toString() },
+  });
+
+  const granted = parseScopes(current.toString());
+  const { lost, jobsCancelled, autoSyncDisabled } = await disableRevokedFeatures(delivery.shop, previous, granted);
+
+  if (lost.length > 0) {
+    console.log(`[AppLifecycle] Scopes revoked for ${delivery.shop}; disabled features:`, { lost, jobsCancelled, autoSyncDisabled });
+  }
+
+  let webhooksRegistered: string[] = [];
+  const webhooks = featureWebhooks(granted);
+  if (webhooks.length > 0) {
+    const { admin } = await unauthenticated.admin(delivery.shop);
+    webhooksRegistered = await registerFeatureWebhooks(admin.graphql, webhooks);
+  }
+
+  return {
+    status: "processed",
+    detail: { sessionsUpdated: count, featuresLost: lost, jobsCancelled, autoSyncDisabled, webhooksRegistered },
+  };
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+
+const db = vi.hoisted(() => ({
+  session: {
+    findFirst: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+const unauthenticatedAdmin = vi.hoisted(() => vi.fn());
+
+vi.mock("../db.server", () => ({ default: db }));
+vi.mock("../supabase.server", () => ({ supabaseAdmin: {} }));
+vi.mock("../shopify.server", () => ({ unauthenticated: { admin: unauthenticatedAdmin } }));
+vi.mock("./sync-jobs.server", () => ({ cancelActiveSyncJobs: vi.fn(async () => 0) }));
+vi.mock("./sync-lock.server", () => ({ forceReleaseSyncLock: vi.fn() }));
+vi.mock("./tenant-link.server", () => ({ deactivateShopLink: vi.fn(), restoreShopLink: vi.fn() }));
+vi.mock("./tenant-resolver.server", () => ({ resolveTenant: vi.fn(), invalidateTenant: vi.fn() }));
+
+const { refreshGrantedScopes } = await import("./capabilities.server");
+const { handleAppScopesUpdate } = await import("./app-lifecycle.server");
+
+const SHOP = "example.myshopify.com";
+const BASE_SCOPES = ["read_products", "write_products", "read_inventory", "write_inventory"];
+const ORDER_TOPICS = ["ORDERS_CREATE", "ORDERS_CANCELLED", "REFUNDS_CREATE"];
+
+// Admin API stand-in: no existing subscriptions, every create succeeds
+function fakeGraphql() {
+  const created: string[] = [];
+  const graphql = vi.fn(async (query: string, options?: { variables?: Record<string, unknown> }) => {
+    if (query.includes("webhookSubscriptionCreate")) {
+      created.push(String(options?.variables?.topic));
+      return Response.json({ data: { webhookSubscriptionCreate: { userErrors: [] } } });
+    }
+    return Response.json({ data: { webhookSubscriptions: { nodes: [] } } });
+  });
+  return { graphql: graphql as unknown as AdminGraphqlClient, created };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  process.env.SHOPIFY_APP_URL = "https://getinv.example";
+  db.session.findFirst.mockResolvedValue({ scope: BASE_SCOPES.join(",") });
+  db.session.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe("granting read_orders", () => {
+  it("subscribes the order webhooks when the grant is picked up by refreshGrantedScopes", async () => {
+    const { graphql, created } = fakeGraphql();
+
+    const granted = await refreshGrantedScopes(SHOP, [...BASE_SCOPES, "read_orders"], graphql);
+
+    expect(granted.has("read_orders")).toBe(true);
+    expect(created).toEqual(ORDER_TOPICS);
+    expect(db.session.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { scope: [...BASE_SCOPES, "read_orders"].join(",") } })
+    );
+  });
+
+  it("leaves the stored scopes alone when subscribing fails, so the next load retries", async () => {
+    const graphql = vi.fn(async () => Response.json({ errors: [{ message: "Throttled" }] }));
+
+    await refreshGrantedScopes(SHOP, [...BASE_SCOPES, "read_orders"], graphql as unknown as AdminGraphqlClient);
+
+    expect(db.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("does not resubscribe when the stored scopes already include read_orders", async () => {
+    db.session.findFirst.mockResolvedValue({ scope: [...BASE_SCOPES, "read_orders"].join(",") });
+    const { graphql } = fakeGraphql();
+
+    await refreshGrantedScopes(SHOP, [...BASE_SCOPES, "read_orders"], graphql);
+
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  it("subscribes the order webhooks from app/scopes_update", async () => {
+    const { graphql, created } = fakeGraphql();
+    unauthenticatedAdmin.mockResolvedValue({ admin: { graphql } });
+
+    const result = await handleAppScopesUpdate({
+      id: "evt_1",
+      webhookId: "wh_1",
+      shop: SHOP,
+      topic: "app/scopes_update",
+      payload: { previous: BASE_SCOPES, current: [...BASE_SCOPES, "read_orders"] },
+      attempt: 1,
+      receivedAt: new Date(),
+    });
+
+    expect(created).toEqual(ORDER_TOPICS);
+    expect(result.detail?.webhooksRegistered).toEqual(ORDER_TOPICS);
+  });
+});
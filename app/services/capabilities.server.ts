@@ -0,0 +1,254 @@
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import { supabaseAdmin } from "../supabase.server";
+import { cancelActiveSyncJobs } from "./sync-jobs.server";
+import { resolveTenant } from "./tenant-resolver.server";
+import type { ValidIntent } from "../utils/validation.server";
+
+/**
+ * Capabilities: which app features the merchant's granted scopes allow
+ *
+ * Most scopes in shopify.app.toml are optional, so a store can run the app
+ * with some of them declined or later revoked. Each feature lists the scopes
+ * it needs; sync intents and webhook handlers check their feature before
+ * touching the Admin API, and the home page offers to request whatever is
+ * missing through App Bridge.
+ *
+ * Webhooks whose topics need an optional scope can't be subscribed app-wide in
+ * shopify.app.toml; they are registered per shop once the scope is granted.
+ */
+
+export type Feature = "pull" | "push" | "inventory_updates" | "order_sync" | "locations";
+
+export interface FeatureDefinition {
+  label: string;
+  scopes: string[];
+}
+
+export const FEATURES: Record<Feature, FeatureDefinition> = {
+  pull: { label: "Import products into GetInv", scopes: ["read_products", "read_inventory"] },
+  push: { label: "Push products and stock to Shopify", scopes: ["write_products", "write_inventory"] },
+  inventory_updates: { label: "Live inventory updates from Shopify", scopes: ["read_inventory"] },
+  order_sync: { label: "Reserve and restock stock from orders", scopes: ["read_orders"] },
+  locations: { label: "Map Shopify locations to GetInv warehouses", scopes: ["read_locations"] },
+};
+
+export interface FeatureWebhook {
+  // Admin API WebhookSubscriptionTopic
+  topic: string;
+  path: string;
+}
+
+const FEATURE_WEBHOOKS: Partial<Record<Feature, FeatureWebhook[]>> = {
+  order_sync: [
+    { topic: "ORDERS_CREATE", path: "/webhooks/orders/create" },
+    { topic: "ORDERS_CANCELLED", path: "/webhooks/orders/cancelled" },
+    { topic: "REFUNDS_CREATE", path: "/webhooks/refunds/create" },
+  ],
+};
+
+const WEBHOOK_SUBSCRIPTIONS_QUERY = `#graphql
+  query FeatureWebhookSubscriptions($topics: [WebhookSubscriptionTopic!]) {
+    webhookSubscriptions(first: 50, topics: $topics) {
+      nodes {
+        topic
+        uri
+      }
+    }
+  }
+`;
+
+const WEBHOOK_SUBSCRIPTION_CREATE = `#graphql
+  mutation FeatureWebhookSubscriptionCreate($topic: WebhookSubscriptionTopic!, $uri: String!) {
+    webhookSubscriptionCreate(topic: $topic, webhookSubscription: { uri: $uri }) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Features that auto-sync runs on the merchant's behalf; losing one switches auto-sync off
+const AUTO_SYNC_FEATURES: Feature[] = ["pull", "push"];
+
+const FEATURE_BY_INTENT: Partial<Record<ValidIntent, Feature>> = {
+  pull: "pull",
+  push_changed: "push",
+  push_all: "push",
+};
+
+export interface FeatureStatus {
+  feature: Feature;
+  label: string;
+  enabled: boolean;
+  missingScopes: string[];
+}
+
+/**
+ * Parses a comma-separated scope string; a write scope implies its read scope
+ */
+export function parseScopes(scope: string | null | undefined): Set<string> {
+  const granted = new Set<string>();
+  for (const s of (scope ?? "").split(",")) {
+    const trimmed = s.trim();
+    if (!trimmed) continue;
+    granted.add(trimmed);
+    if (trimmed.startsWith("write_")) granted.add(`read_${trimmed.slice("write_".length)}`);
+  }
+  return granted;
+}
+
+export function missingScopesFor(feature: Feature, granted: Set<string>): string[] {
+  return FEATURES[feature].scopes.filter((s) => !granted.has(s));
+}
+
+export function resolveCapabilities(granted: Set<string>): FeatureStatus[] {
+  return (Object.keys(FEATURES) as Feature[]).map((feature) => {
+    const missingScopes = missingScopesFor(feature, granted);
+    return { feature, label: FEATURES[feature].label, enabled: missingScopes.length === 0, missingScopes };
+  });
+}
+
+export function featureForIntent(intent: ValidIntent): Feature | undefined {
+  return FEATURE_BY_INTENT[intent];
+}
+
+/**
+ * Scopes granted to the shop, as stored on its offline session
+ * Kept current by app/scopes_update; an unknown shop has none.
+ */
+export async function getGrantedScopes(shop: string): Promise<Set<string>> {
+  const session = await db.session.findFirst({
+    where: { shop, isOnline: false },
+    select: { scope: true },
+  });
+  return parseScopes(session?.scope);
+}
+
+/**
+ * Stores scopes fetched live from Shopify on the shop's sessions
+ * Covers grants made through App Bridge before their app/scopes_update webhook lands.
+ * Those grants skip OAuth, so afterAuth never runs for them: the webhooks of newly
+ * granted features are subscribed here. If that fails the stored scopes are left
+ * as they were, so the next load tries again.
+ */
+export async function refreshGrantedScopes(
+  shop: string,
+  granted: string[],
+  graphql: AdminGraphqlClient
+): Promise<Set<string>> {
+  const scope = granted.join(",");
+  const current = parseScopes(scope);
+
+  const subscribed = new Set(featureWebhooks(await getGrantedScopes(shop)).map((w) => w.topic));
+  const newWebhooks = featureWebhooks(current).filter((w) => !subscribed.has(w.topic));
+  if (newWebhooks.length > 0) {
+    try {
+      await registerFeatureWebhooks(graphql, newWebhooks);
+    } catch (error) {
+      console.error(`[Capabilities] Could not subscribe webhooks for newly granted scopes on ${shop}:`, error);
+      return current;
+    }
+  }
+
+  await db.session.updateMany({ where: { shop, NOT: { scope } }, data: { scope } });
+  return current;
+}
+
+/**
+ * Webhooks the granted scopes allow that aren't subscribed in shopify.app.toml
+ */
+export function featureWebhooks(granted: Set<string>): FeatureWebhook[] {
+  return (Object.keys(FEATURE_WEBHOOKS) as Feature[])
+    .filter((feature) => missingScopesFor(feature, granted).length === 0)
+    .flatMap((feature) => FEATURE_WEBHOOKS[feature] ?? []);
+}
+
+/**
+ * Subscribes the shop to the given webhooks, skipping those it already has
+ * Safe to repeat. Returns the topics newly subscribed; Shopify failures are thrown.
+ */
+export async function registerFeatureWebhooks(graphql: AdminGraphqlClient, webhooks: FeatureWebhook[]): Promise<string[]> {
+  if (webhooks.length === 0) return [];
+
+  const appUrl = process.env.SHOPIFY_APP_URL;
+  if (!appUrl) throw new Error("Server misconfigured: SHOPIFY_APP_URL missing");
+
+  const response = await graphql(WEBHOOK_SUBSCRIPTIONS_QUERY, { variables: { topics: webhooks.map((w) => w.topic) } });
+  const body = (await response.json()) as {
+    data?: { webhookSubscriptions?: { nodes?: { topic: string; uri: string }[] } };
+    errors?: unknown;
+  };
+  if (body.errors) throw new Error(`Shopify webhook subscriptions query failed: ${JSON.stringify(body.errors)}`);
+
+  const existing = new Set((body.data?.webhookSubscriptions?.nodes ?? []).map((n) => `${n.topic} ${n.uri}`));
+  const registered: string[] = [];
+
+  for (const { topic, path } of webhooks) {
+    const uri = new URL(path, appUrl).toString();
+    if (existing.has(`${topic} ${uri}`)) continue;
+
+    const created = await graphql(WEBHOOK_SUBSCRIPTION_CREATE, { variables: { topic, uri } });
+    const result = (await created.json()) as {
+      data?: { webhookSubscriptionCreate?: { userErrors?: { field: string[] | null; message: string }[] } };
+      errors?: unknown;
+    };
+    const userErrors = result.data?.webhookSubscriptionCreate?.userErrors ?? [];
+    if (result.errors || userErrors.length > 0) {
+      throw new Error(`Could not subscribe to ${topic}: ${JSON.stringify(result.errors ?? userErrors)}`);
+    }
+    registered.push(topic);
+  }
+
+  return registered;
+}
+
+export async function hasFeature(shop: string, feature: Feature): Promise<boolean> {
+  return missingScopesFor(feature, await getGrantedScopes(shop)).length === 0;
+}
+
+/**
+ * Switches off what depends on scopes the merchant just revoked
+ * Queued pull/push jobs that can no longer run are cancelled and auto-sync is
+ * turned off; features checked at use time need nothing here.
+ */
+export async function disableRevokedFeatures(
+  shop: string,
+  previous: Set<string>,
+  current: Set<string>
+): Promise<{ lost: Feature[]; jobsCancelled: number; autoSyncDisabled: boolean }> {
+  const lost = (Object.keys(FEATURES) as Feature[]).filter(
+    (feature) => missingScopesFor(feature, previous).length === 0 && missingScopesFor(feature, current).length > 0
+  );
+
+  const lostIntents = (Object.keys(FEATURE_BY_INTENT) as ValidIntent[]).filter((intent) => {
+    const feature = FEATURE_BY_INTENT[intent];
+    return feature !== undefined && lost.includes(feature);
+  });
+
+  const jobsCancelled =
+    lostIntents.length > 0
+      ? await cancelActiveSyncJobs(shop, "The app no longer has the Shopify permissions this sync needs", lostIntents)
+      : 0;
+
+  let autoSyncDisabled = false;
+  if (lost.some((feature) => AUTO_SYNC_FEATURES.includes(feature))) {
+    const { adminId, error } = await resolveTenant(shop);
+    if (error) throw new Error(`Could not resolve tenant for ${shop}: ${error.message}`);
+
+    if (adminId) {
+      const { data, error: updateError } = await supabaseAdmin
+        .from("shopify_settings")
+        .update({ auto_sync_enabled: false, updated_at: new Date().toISOString() })
+        .eq("admin_id", adminId)
+        .eq("auto_sync_enabled", true)
+        .select("admin_id");
+
+      if (updateError) throw new Error(`Could not turn off auto-sync for ${shop}: ${updateError.message}`);
+      autoSyncDisabled = (data?.length ?? 0) > 0;
+    }
+  }
+
+  return { lost, jobsCancelled, autoSyncDisabled };
+}
@@ -0,0 +1,178 @@
+import { createHmac } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import type { ComplianceRequest } from "@prisma/client";
+import prisma from "../db.server";
+import { toCsv } from "../utils/csv.server";
+
+/**
+ * Compliance request log
+ *
+ * One row per compliance webhook (shop/redact, customers/redact,
+ * customers/data_request): when it was received, when it was handled, how it
+ * went and how many records it touched. Rows hold counts and hashed
+ * identifiers only, never the personal data itself, and are kept after a shop
+ * is redacted as evidence that the request was honoured. The report endpoint
+ * (/api/compliance/report) exports them for app review and privacy audits.
+ */
+
+export type ComplianceOutcome = "received" | "completed" | "partial" | "failed";
+
+// Bounds a single report download
+const MAX_REPORT_ROWS = 5000;
+
+/**
+ * Stable, non-reversible stand-in for a Shopify id
+ * Keyed with APP_JWT_SECRET and scoped to the shop, so the same customer or
+ * order always maps to the same reference but it can't be looked up elsewhere.
+ */
+export function anonymizedRef(shop: string, kind: string, id: string): string {
+  const secret = process.env.APP_JWT_SECRET;
+  if (!secret) throw new Error("Server misconfigured: APP_JWT_SECRET missing");
+
+  const digest = createHmac("sha256", secret).update(`${shop}:${kind}:${id}`).digest("hex");
+  return `anon_${digest.slice(0, 32)}`;
+}
+
+/**
+ * Records that a compliance webhook is being handled
+ * Keyed by webhook id, so retries and replays reuse the same row.
+ */
+export async function openComplianceRequest(input: {
+  shop: string;
+  topic: string;
+  webhookId: string;
+  customerId?: string | null;
+  receivedAt: Date;
+}): Promise<void> {
+  const customerIdHash = input.customerId ? anonymizedRef(input.shop, "customer", input.customerId) : null;
+
+  await prisma.complianceRequest.upsert({
+    where: { webhookId: input.webhookId },
+    create: {
+      shop: input.shop,
+      topic: input.topic,
+      webhookId: input.webhookId,
+      customerIdHash,
+      outcome: "received",
+      receivedAt: input.receivedAt,
+    },
+    update: {},
+  });
+}
+
+/**
+ * Records how a compliance request was handled
+ * Without a webhook id (a redaction started by hand) a new row is written.
+ */
+export async function completeComplianceRequest(input: {
+  shop: string;
+  topic: string;
+  webhookId?: string | null;
+  adminId?: string | null;
+  outcome: Exclude<ComplianceOutcome, "received">;
+  recordsAffected: Record<string, number>;
+  errors?: string[];
+}): Promise<ComplianceRequest> {
+  const data = {
+    adminId: input.adminId ?? null,
+    outcome: input.outcome,
+    recordsAffected: input.recordsAffected as Prisma.InputJsonValue,
+    // Clears the error a failed earlier attempt left behind
+    errors: input.errors && input.errors.length > 0 ? input.errors : Prisma.DbNull,
+    completedAt: new Date(),
+  };
+
+  if (!input.webhookId) {
+    return prisma.complianceRequest.create({ data: { shop: input.shop, topic: input.topic, ...data } });
+  }
+
+  return prisma.complianceRequest.upsert({
+    where: { webhookId: input.webhookId },
+    create: { shop: input.shop, topic: input.topic, webhookId: input.webhookId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Records a failed attempt; a later retry or replay that succeeds overwrites it
+ */
+export async function failComplianceRequest(webhookId: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  await prisma.complianceRequest.updateMany({
+    where: { webhookId },
+    data: { outcome: "failed", errors: [message], completedAt: null },
+  });
+}
+
+/**
+ * Most recent handled request for a shop and topic that knew the tenant
+ * A repeated shop/redact uses it to find the tenant after the link is already gone.
+ */
+export async function getLatestComplianceRequest(shop: string, topic: string): Promise<ComplianceRequest | null> {
+  return prisma.complianceRequest.findFirst({
+    where: { shop, topic, adminId: { not: null } },
+    orderBy: { receivedAt: "desc" },
+  });
+}
+
+/**
+ * A shop's compliance requests for the report, oldest first
+ */
+export async function listComplianceRequests(input: {
+  shop: string;
+  topic?: string;
+  from?: Date;
+  to?: Date;
+}): Promise<ComplianceRequest[]> {
+  return prisma.complianceRequest.findMany({
+    where: {
+      shop: input.shop,
+      ...(input.topic && { topic: input.topic }),
+      ...((input.from || input.to) && { receivedAt: { gte: input.from, lte: input.to } }),
+    },
+    orderBy: { receivedAt: "asc" },
+    take: MAX_REPORT_ROWS,
+  });
+}
+
+function totalRecords(records: Prisma.JsonValue | null): number {
+  if (!records || typeof records !== "object" || Array.isArray(records)) return 0;
+  return Object.values(records).reduce<number>((sum, n) => sum + (typeof n === "number" ? n : 0), 0);
+}
+
+/**
+ * Renders requests as CSV, one row per request
+ * Per-table counts are kept as a JSON column so the column set doesn't vary between reports.
+ */
+export function complianceRequestsToCsv(requests: ComplianceRequest[]): string {
+  const header = [
+    "id",
+    "topic",
+    "shop",
+    "webhook_id",
+    "customer_id_hash",
+    "received_at",
+    "completed_at",
+    "outcome",
+    "records_affected_total",
+    "records_affected",
+    "errors",
+  ];
+
+  const rows = requests.map((r) => [
+    r.id,
+    r.topic,
+    r.shop,
+    r.webhookId,
+    r.customerIdHash,
+    r.receivedAt,
+    r.completedAt,
+    r.outcome,
+    totalRecords(r.recordsAffected),
+    r.recordsAffected ? JSON.stringify(r.recordsAffected) : "",
+    r.errors ? JSON.stringify(r.errors) : "",
+  ]);
+
+  return toCsv(header, rows);
+}
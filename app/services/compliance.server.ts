@@ -0,0 +1,100 @@
+import { failComplianceRequest, openComplianceRequest } from "./compliance-requests.server";
+import { createCustomerDataExport, parseCustomerRequest } from "./customer-data-export.server";
+import { redactCustomer } from "./customer-redaction.server";
+import { redactShop } from "./shop-redaction.server";
+import type { WebhookDelivery, WebhookHandlerResult } from "./webhook-inbox.server";
+
+/**
+ * Compliance webhooks (customers/data_request, customers/redact, shop/redact)
+ *
+ * Mandatory for apps with access to customer or shop data. Shopify only needs
+ * a prompt 200, which the inbox sends as soon as the delivery is stored; the
+ * work below runs from the webhook worker and is retried if it fails. Each
+ * request is logged in ComplianceRequest (see compliance-requests.server.ts)
+ * from the first attempt on.
+ *
+ * @see https://shopify.dev/docs/apps/build/webhooks/configuration/mandatory-webhooks
+ */
+
+/**
+ * Logs the request as received, runs `handle` and logs a failed attempt before rethrowing it
+ * The services called by `handle` record the final outcome.
+ */
+async function handleComplianceRequest(
+  delivery: WebhookDelivery,
+  customerId: string | null,
+  handle: () => Promise<WebhookHandlerResult>
+): Promise<WebhookHandlerResult> {
+  await openComplianceRequest({
+    shop: delivery.shop,
+    topic: delivery.topic,
+    webhookId: delivery.webhookId,
+    customerId,
+    receivedAt: delivery.receivedAt,
+  });
+
+  try {
+    return await handle();
+  } catch (error) {
+    await failComplianceRequest(delivery.webhookId, error).catch((e) => {
+      console.error(`[Compliance] Could not log failed ${delivery.topic} attempt (${delivery.webhookId}):`, e);
+    });
+    throw error;
+  }
+}
+
+/**
+ * customers/data_request
+ * { shop_id, shop_domain, orders_requested: [order_ids], customer: { id, email, phone } }
+ */
+export async function handleCustomersDataRequest(delivery: WebhookDelivery): Promise<WebhookHandlerResult> {
+  const request = parseCustomerRequest(delivery.payload, "orders_requested");
+
+  console.log(
+    `[Compliance] Customer data request - Shop: ${delivery.shop}, Customer: ${request.customerId}, Orders: ${request.orderIds.length}`
+  );
+
+  return handleComplianceRequest(delivery, request.customerId, async () => {
+    const created = await createCustomerDataExport({ shop: delivery.shop, webhookId: delivery.webhookId, request });
+
+    return { status: "processed", detail: { exportId: created.id, exportStatus: created.status, counts: created.counts } };
+  });
+}
+
+/**
+ * customers/redact
+ * { shop_id, shop_domain, customer: { id, email, phone }, orders_to_redact: [order_ids] }
+ */
+export async function handleCustomersRedact(delivery: WebhookDelivery): Promise<WebhookHandlerResult> {
+  const request = parseCustomerRequest(delivery.payload, "orders_to_redact");
+
+  console.log(
+    `[Compliance] Customer redact request - Shop: ${delivery.shop}, Customer: ${request.customerId}, Orders: ${request.orderIds.length}`
+  );
+
+  return handleComplianceRequest(delivery, request.customerId, async () => {
+    const { adminId, redacted, errors } = await redactCustomer(delivery.shop, request, {
+      webhookId: delivery.webhookId,
+      webhookEventId: delivery.id,
+    });
+
+    return { status: "processed", detail: { adminId, redacted, ...(errors.length > 0 && { errors }) } };
+  });
+}
+
+/**
+ * shop/redact
+ * { shop_id, shop_domain } - sent 48 hours after the app is uninstalled
+ */
+export async function handleShopRedact(delivery: WebhookDelivery): Promise<WebhookHandlerResult> {
+  const shopDomain = (delivery.payload.shop_domain as string | undefined) || delivery.shop;
+
+  return handleComplianceRequest(delivery, null, async () => {
+    const { adminId, deleted, errors } = await redactShop(shopDomain, {
+      webhookId: delivery.webhookId,
+      keepWebhookEventId: delivery.id,
+    });
+
+    return { status: "processed", detail: { adminId, deleted, ...(errors.length > 0 && { errors }) } };
+  });
+}
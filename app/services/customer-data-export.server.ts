@@ -0,0 +1,266 @@
+import type { CustomerDataExport, Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import { supabaseAdmin } from "../supabase.server";
+import { completeComplianceRequest } from "./compliance-requests.server";
+import { callEdgeFunction, mintAppJwt } from "./edge-functions.server";
+
+/**
+ * Customer data exports (GDPR customers/data_request)
+ *
+ * Gathers every record this app and GetInv hold for a customer - order stock
+ * movements, stored order/refund webhooks that mention the customer or the
+ * requested orders, and whatever GetInv derived from those orders - into one
+ * JSON bundle. The bundle is stored as a CustomerDataExport the merchant
+ * downloads from the Data requests page and passes on to the customer.
+ */
+
+const EXPORT_TOPIC = "CUSTOMERS_DATA_REQUEST";
+const EXPORT_FUNCTION = "shopify-export-customer";
+
+// Exports hold personal data; the merchant has 30 days to respond, so keep them a while longer
+const EXPORT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Order and refund topics whose payloads can carry customer data
+const ORDER_TOPICS = ["ORDERS_CREATE", "ORDERS_CANCELLED", "REFUNDS_CREATE"];
+
+// Bounds the bundle for customers with very long order histories
+const MAX_WEBHOOK_EVENTS = 500;
+
+export interface CustomerDataRequest {
+  customerId: string | null;
+  email: string | null;
+  phone: string | null;
+  orderIds: string[];
+}
+
+// What the list page shows; the bundle itself is only loaded for download
+export type CustomerDataExportSummary = Omit<CustomerDataExport, "bundle">;
+
+// Shopify sends ids as numbers; match both forms in stored payloads
+function idVariants(id: string): (number | string)[] {
+  const n = Number(id);
+  return Number.isSafeInteger(n) ? [n, id] : [id];
+}
+
+function idString(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value === "string" && value) return value;
+  return null;
+}
+
+/**
+ * Reads the customer and orders out of a customers/data_request (or customers/redact) payload
+ */
+export function parseCustomerRequest(payload: Record<string, unknown>, ordersKey: string): CustomerDataRequest {
+  const customer = (payload.customer ?? {}) as Record<string, unknown>;
+  const orders = Array.isArray(payload[ordersKey]) ? (payload[ordersKey] as unknown[]) : [];
+
+  return {
+    customerId: idString(customer.id),
+    email: typeof customer.email === "string" && customer.email ? customer.email : null,
+    phone: typeof customer.phone === "string" && customer.phone ? customer.phone : null,
+    orderIds: orders.map(idString).filter((id): id is string => id !== null),
+  };
+}
+
+/**
+ * JSON path filters that match stored order webhooks for this customer
+ */
+export function customerWebhookFilters(request: CustomerDataRequest): Prisma.WebhookEventWhereInput[] {
+  const filters: Prisma.WebhookEventWhereInput[] = [];
+
+  if (request.customerId) {
+    for (const value of idVariants(request.customerId)) {
+      filters.push({ payload: { path: ["customer", "id"], equals: value } });
+    }
+  }
+  if (request.email) {
+    filters.push({ payload: { path: ["email"], equals: request.email } });
+    filters.push({ payload: { path: ["customer", "email"], equals: request.email } });
+  }
+  for (const orderId of request.orderIds) {
+    for (const value of idVariants(orderId)) {
+      filters.push({ payload: { path: ["id"], equals: value } });
+      filters.push({ payload: { path: ["order_id"], equals: value } });
+    }
+  }
+
+  return filters;
+}
+
+async function collectAppRecords(shop: string, request: CustomerDataRequest) {
+  const orderMovements =
+    request.orderIds.length > 0
+      ? await prisma.orderMovement.findMany({
+          where: { shop, orderId: { in: request.orderIds } },
+          omit: { shop: true },
+          orderBy: { createdAt: "asc" },
+        })
+      : [];
+
+  const filters = customerWebhookFilters(request);
+  const webhookEvents =
+    filters.length > 0
+      ? await prisma.webhookEvent.findMany({
+          where: { shop, topic: { in: ORDER_TOPICS }, OR: filters },
+          select: { webhookId: true, topic: true, receivedAt: true, payload: true },
+          orderBy: { receivedAt: "asc" },
+          take: MAX_WEBHOOK_EVENTS,
+        })
+      : [];
+
+  return { orderMovements, webhookEvents };
+}
+
+/**
+ * Asks GetInv for the records it derived from the customer's orders
+ * Retryable failures are thrown so the webhook is retried; a rejection is noted in the bundle.
+ */
+async function collectGetInvRecords(
+  shop: string,
+  request: CustomerDataRequest
+): Promise<{ records: Record<string, unknown>; error?: string }> {
+  const { data: link, error } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_shops")
+    .select("admin_id")
+    .eq("shop_domain", shop)
+    .maybeSingle();
+
+  if (error) throw new Error(`Could not read shopify_shops for ${shop}: ${error.message}`);
+  if (!link?.admin_id) return { records: {} };
+
+  const jwt = await mintAppJwt(link.admin_id);
+  const r = await callEdgeFunction(EXPORT_FUNCTION, jwt, { shopDomain: shop, ...request }, { idempotent: true });
+
+  if (!r.ok) {
+    if (r.error.retryable) throw new Error(`${EXPORT_FUNCTION} failed: ${r.error.message}`);
+    return { records: {}, error: `${EXPORT_FUNCTION} rejected the request (status ${r.status}): ${r.error.message}` };
+  }
+
+  const records = (r.data as { records?: unknown } | null)?.records;
+  return { records: records && typeof records === "object" ? (records as Record<string, unknown>) : {} };
+}
+
+/**
+ * Notes a stored bundle carries, e.g. why GetInv's records are missing from a partial export
+ */
+async function storedExportNotes(id: string): Promise<string[]> {
+  const stored = await prisma.customerDataExport.findUnique({ where: { id }, select: { bundle: true } });
+  const notes = (stored?.bundle as { notes?: unknown } | null)?.notes;
+  return Array.isArray(notes) ? notes.filter((note): note is string => typeof note === "string") : [];
+}
+
+/**
+ * Builds and stores the export for one customers/data_request delivery
+ * A redelivered request (same webhook id) returns the export already stored.
+ */
+export async function createCustomerDataExport(input: {
+  shop: string;
+  webhookId: string;
+  request: CustomerDataRequest;
+}): Promise<CustomerDataExportSummary> {
+  const existing = await prisma.customerDataExport.findUnique({
+    where: { webhookId: input.webhookId },
+    omit: { bundle: true },
+  });
+
+  // An earlier attempt may have stored the export and then failed before recording the request as done
+  if (existing) {
+    const partial = existing.status === "partial";
+    await completeComplianceRequest({
+      shop: input.shop,
+      topic: EXPORT_TOPIC,
+      webhookId: input.webhookId,
+      outcome: partial ? "partial" : "completed",
+      recordsAffected: existing.counts as Record<string, number>,
+      errors: partial ? await storedExportNotes(existing.id) : [],
+    });
+    return existing;
+  }
+
+  const { request } = input;
+  const app = await collectAppRecords(input.shop, request);
+  const getInv = await collectGetInvRecords(input.shop, request);
+
+  const counts: Record<string, number> = {
+    orderMovements: app.orderMovements.length,
+    webhookEvents: app.webhookEvents.length,
+    ...Object.fromEntries(
+      Object.entries(getInv.records).map(([table, rows]) => [`getinv.${table}`, Array.isArray(rows) ? rows.length : 1])
+    ),
+  };
+
+  const bundle = {
+    request: {
+      shop: input.shop,
+      customer: { id: request.customerId, email: request.email, phone: request.phone },
+      ordersRequested: request.orderIds,
+    },
+    generatedAt: new Date().toISOString(),
+    sources: {
+      app,
+      getinv: getInv.records,
+    },
+    ...(getInv.error && { notes: [getInv.error] }),
+  };
+
+  const created = await prisma.customerDataExport.create({
+    data: {
+      shop: input.shop,
+      webhookId: input.webhookId,
+      customerId: request.customerId,
+      orderIds: request.orderIds,
+      status: getInv.error ? "partial" : "ready",
+      counts,
+      bundle: JSON.parse(JSON.stringify(bundle)) as Prisma.InputJsonValue,
+      expiresAt: new Date(Date.now() + EXPORT_RETENTION_MS),
+    },
+    omit: { bundle: true },
+  });
+
+  await completeComplianceRequest({
+    shop: input.shop,
+    topic: EXPORT_TOPIC,
+    webhookId: input.webhookId,
+    outcome: getInv.error ? "partial" : "completed",
+    recordsAffected: counts,
+    errors: getInv.error ? [getInv.error] : [],
+  });
+
+  console.log(`[Compliance] Customer data export ${created.id} for ${input.shop}:`, { counts });
+
+  return created;
+}
+
+/**
+ * Lists a shop's exports, newest first
+ */
+export async function listCustomerDataExports(shop: string): Promise<CustomerDataExportSummary[]> {
+  return prisma.customerDataExport.findMany({
+    where: { shop, expiresAt: { gt: new Date() } },
+    omit: { bundle: true },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Loads one export with its bundle, scoped to the shop; marks it downloaded
+ */
+export async function getCustomerDataExport(shop: string, id: string): Promise<CustomerDataExport | null> {
+  const found = await prisma.customerDataExport.findFirst({ where: { id, shop, expiresAt: { gt: new Date() } } });
+  if (!found) return null;
+
+  return prisma.customerDataExport.update({
+    where: { id },
+    data: { downloadedAt: found.downloadedAt ?? new Date() },
+  });
+}
+
+/**
+ * Deletes exports past their retention period
+ */
+export async function purgeExpiredCustomerDataExports(): Promise<number> {
+  const { count } = await prisma.customerDataExport.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+  return count;
+}
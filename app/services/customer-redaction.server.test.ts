@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  orderMovement: { updateMany: vi.fn() },
+  webhookEvent: { updateMany: vi.fn(), update: vi.fn() },
+  customerDataExport: { deleteMany: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+const supabase = vi.hoisted(() => ({ maybeSingle: vi.fn() }));
+const edge = vi.hoisted(() => ({ callEdgeFunction: vi.fn(), mintAppJwt: vi.fn() }));
+const compliance = vi.hoisted(() => ({ completeComplianceRequest: vi.fn() }));
+
+vi.mock("../db.server", () => ({ default: db }));
+vi.mock("../supabase.server", () => ({
+  supabaseAdmin: { schema: () => ({ from: () => ({ select: () => ({ eq: () => ({ maybeSingle: supabase.maybeSingle }) }) }) }) },
+}));
+vi.mock("./edge-functions.server", () => edge);
+vi.mock("./compliance-requests.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./compliance-requests.server")>()),
+  ...compliance,
+}));
+
+const { redactCustomer } = await import("./customer-redaction.server");
+
+const SHOP = "example.myshopify.com";
+const request = { customerId: "207119551", email: "customer@example.com", phone: null, orderIds: ["299938"] };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubEnv("APP_JWT_SECRET", "test_secret_that_is_at_least_32_characters");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  supabase.maybeSingle.mockResolvedValue({ data: { admin_id: "admin_1" }, error: null });
+  edge.mintAppJwt.mockResolvedValue("jwt");
+  edge.callEdgeFunction.mockResolvedValue({ ok: true, status: 200, data: { redacted: { orders: 1 } } });
+  db.$transaction.mockResolvedValue([{ count: 2 }, { count: 3 }, { count: 1 }]);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("redactCustomer", () => {
+  it("gives GetInv the same anonymized order references it writes locally", async () => {
+    const result = await redactCustomer(SHOP, request);
+
+    const [fnName, , body] = edge.callEdgeFunction.mock.calls[0];
+    expect(fnName).toBe("shopify-redact-customer");
+    expect(body.orders).toEqual([{ id: "299938", ref: expect.stringMatching(/^anon_[0-9a-f]{32}$/) }]);
+    expect(body.customerRef).toMatch(/^anon_[0-9a-f]{32}$/);
+    expect(db.orderMovement.updateMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, orderId: "299938" },
+      data: { orderId: body.orders[0].ref },
+    });
+
+    expect(result.redacted).toEqual({
+      orderMovementsAnonymized: 2,
+      webhookEventsScrubbed: 3,
+      customerDataExportsDeleted: 1,
+      "getinv.orders": 1,
+    });
+    expect(compliance.completeComplianceRequest).toHaveBeenCalledWith(expect.objectContaining({ outcome: "completed", errors: [] }));
+  });
+
+  it("records a partial redaction when GetInv rejects the request", async () => {
+    edge.callEdgeFunction.mockResolvedValue({
+      ok: false,
+      status: 400,
+      data: null,
+      error: { kind: "http", message: "bad request", retryable: false },
+    });
+
+    const result = await redactCustomer(SHOP, request);
+
+    expect(result.errors).toEqual([expect.stringContaining("shopify-redact-customer rejected the request (status 400)")]);
+    expect(compliance.completeComplianceRequest).toHaveBeenCalledWith(expect.objectContaining({ outcome: "partial" }));
+  });
+
+  it("throws on a retryable failure before touching local data, so the webhook is retried", async () => {
+    edge.callEdgeFunction.mockResolvedValue({
+      ok: false,
+      status: 503,
+      data: null,
+      error: { kind: "http", message: "unavailable", retryable: true },
+    });
+
+    await expect(redactCustomer(SHOP, request)).rejects.toThrow("shopify-redact-customer failed");
+    expect(db.$transaction).not.toHaveBeenCalled();
+    expect(compliance.completeComplianceRequest).not.toHaveBeenCalled();
+  });
+
+  it("scrubs the customers/redact delivery itself once the rest is done", async () => {
+    await redactCustomer(SHOP, request, { webhookId: "wh_1", webhookEventId: "evt_1" });
+
+    expect(db.webhookEvent.updateMany.mock.calls[0][0].where.id).toEqual({ not: "evt_1" });
+    expect(db.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: "evt_1" },
+      data: { payload: { redacted: true, customerRef: expect.stringMatching(/^anon_/), orders: 1 } },
+    });
+  });
+});
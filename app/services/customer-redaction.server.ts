@@ -0,0 +1,179 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import { supabaseAdmin } from "../supabase.server";
+import { anonymizedRef, completeComplianceRequest } from "./compliance-requests.server";
+import { customerWebhookFilters, type CustomerDataRequest } from "./customer-data-export.server";
+import { callEdgeFunction, mintAppJwt } from "./edge-functions.server";
+
+/**
+ * Customer redaction (GDPR customers/redact)
+ *
+ * Erases a customer's personal data while keeping stock history intact:
+ * OrderMovement rows keep their quantities but their order id is replaced by
+ * an anonymized reference, stored order/refund/compliance webhooks that
+ * mention the customer have their payload scrubbed, and data exports prepared
+ * for the customer are deleted. GetInv anonymizes its own order, reservation
+ * and sync log rows through the shopify-redact-customer edge function, using
+ * the same references so both sides still line up.
+ *
+ * Sync jobs only carry catalog data, so they are left alone. Every step is
+ * keyed by the original ids, so running it again changes nothing and still
+ * records the outcome.
+ */
+
+const REDACT_TOPIC = "CUSTOMERS_REDACT";
+const REDACT_FUNCTION = "shopify-redact-customer";
+
+// Stored webhooks whose payloads can carry the customer's details
+const CUSTOMER_TOPICS = ["ORDERS_CREATE", "ORDERS_CANCELLED", "REFUNDS_CREATE", "CUSTOMERS_DATA_REQUEST", "CUSTOMERS_REDACT"];
+
+// Pending and processing events still need their payload; the inbox purges them after its retention period
+const SETTLED_STATUSES = ["processed", "ignored", "failed"];
+
+export interface CustomerRedactionResult {
+  adminId: string | null;
+  redacted: Record<string, number>;
+  errors: string[];
+}
+
+async function findTenant(shop: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_shops")
+    .select("admin_id")
+    .eq("shop_domain", shop)
+    .maybeSingle();
+
+  if (error) throw new Error(`Could not read shopify_shops for ${shop}: ${error.message}`);
+  return data?.admin_id ?? null;
+}
+
+async function redactLocalData(
+  shop: string,
+  request: CustomerDataRequest,
+  keepWebhookEventId?: string
+): Promise<Record<string, number>> {
+  const filters = customerWebhookFilters(request);
+  const scrubbedPayload = { redacted: true, redactedAt: new Date().toISOString() };
+
+  const exportFilters: Prisma.CustomerDataExportWhereInput[] = [];
+  if (request.customerId) exportFilters.push({ customerId: request.customerId });
+  if (request.orderIds.length > 0) exportFilters.push({ orderIds: { hasSome: request.orderIds } });
+
+  const results = await prisma.$transaction([
+    ...request.orderIds.map((orderId) =>
+      prisma.orderMovement.updateMany({
+        where: { shop, orderId },
+        data: { orderId: anonymizedRef(shop, "order", orderId) },
+      })
+    ),
+    // An empty OR matches nothing, so a request without ids or email touches no events or exports
+    prisma.webhookEvent.updateMany({
+      where: {
+        shop,
+        topic: { in: CUSTOMER_TOPICS },
+        status: { in: SETTLED_STATUSES },
+        OR: filters,
+        ...(keepWebhookEventId && { id: { not: keepWebhookEventId } }),
+      },
+      data: { payload: scrubbedPayload },
+    }),
+    prisma.customerDataExport.deleteMany({ where: { shop, OR: exportFilters } }),
+  ]);
+
+  const movementResults = results.slice(0, request.orderIds.length);
+  const [webhookEvents, dataExports] = results.slice(request.orderIds.length);
+
+  return {
+    orderMovementsAnonymized: movementResults.reduce((sum, r) => sum + r.count, 0),
+    webhookEventsScrubbed: webhookEvents.count,
+    customerDataExportsDeleted: dataExports.count,
+  };
+}
+
+/**
+ * Asks GetInv to anonymize what it holds for the customer's orders
+ * Retryable failures are thrown; a rejection is reported so the audit shows a partial redaction.
+ */
+async function redactGetInvData(
+  shop: string,
+  adminId: string,
+  request: CustomerDataRequest
+): Promise<{ redacted: Record<string, number>; error?: string }> {
+  const jwt = await mintAppJwt(adminId);
+  const r = await callEdgeFunction(REDACT_FUNCTION, jwt, {
+    shopDomain: shop,
+    customer: { id: request.customerId, email: request.email, phone: request.phone },
+    customerRef: request.customerId ? anonymizedRef(shop, "customer", request.customerId) : null,
+    orders: request.orderIds.map((id) => ({ id, ref: anonymizedRef(shop, "order", id) })),
+  });
+
+  if (!r.ok) {
+    if (r.error.retryable) throw new Error(`${REDACT_FUNCTION} failed: ${r.error.message}`);
+    return { redacted: {}, error: `${REDACT_FUNCTION} rejected the request (status ${r.status}): ${r.error.message}` };
+  }
+
+  // The function reports per-table counts, e.g. { redacted: { orders: 2, reservations: 5, sync_logs: 3 } }
+  const reported = (r.data as { redacted?: Record<string, unknown> } | null)?.redacted ?? {};
+  const redacted: Record<string, number> = {};
+  for (const [table, count] of Object.entries(reported)) {
+    if (typeof count === "number") redacted[`getinv.${table}`] = count;
+  }
+
+  return { redacted };
+}
+
+/**
+ * Scrubs the customers/redact delivery itself once everything else is done
+ * It is the last copy of the customer's email and phone this app holds.
+ */
+async function scrubRedactDelivery(id: string, request: CustomerDataRequest, shop: string): Promise<void> {
+  await prisma.webhookEvent.update({
+    where: { id },
+    data: {
+      payload: {
+        redacted: true,
+        customerRef: request.customerId ? anonymizedRef(shop, "customer", request.customerId) : null,
+        orders: request.orderIds.length,
+      },
+    },
+  });
+}
+
+/**
+ * Redacts one customer's data for `shop` and records the outcome in the compliance request log
+ */
+export async function redactCustomer(
+  shop: string,
+  request: CustomerDataRequest,
+  { webhookId, webhookEventId }: { webhookId?: string; webhookEventId?: string } = {}
+): Promise<CustomerRedactionResult> {
+  const adminId = await findTenant(shop);
+  const errors: string[] = [];
+
+  let getInv: Record<string, number> = {};
+  if (adminId) {
+    const result = await redactGetInvData(shop, adminId, request);
+    getInv = result.redacted;
+    if (result.error) errors.push(result.error);
+  }
+
+  const local = await redactLocalData(shop, request, webhookEventId);
+  const redacted = { ...local, ...getInv };
+
+  await completeComplianceRequest({
+    shop,
+    topic: REDACT_TOPIC,
+    webhookId,
+    adminId,
+    outcome: errors.length > 0 ? "partial" : "completed",
+    recordsAffected: redacted,
+    errors,
+  });
+
+  if (webhookEventId) await scrubRedactDelivery(webhookEventId, request, shop);
+
+  console.log(`[Compliance] Customer redaction for ${shop}:`, { adminId, redacted, errors });
+
+  return { adminId, redacted, errors };
+}
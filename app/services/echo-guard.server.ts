@@ -0,0 +1,108 @@
+import type { SyncJob } from "@prisma/client";
+import prisma from "../db.server";
+import type { SyncJobResult } from "./sync-jobs.server";
+import { toShopifyGid } from "./product-links.server";
+
+/**
+ * Webhook echo guard
+ *
+ * A push writes products to Shopify, and Shopify answers every write with a
+ * products/update (or products/create) webhook. Forwarding those back to GetInv
+ * would bounce our own data around in a loop, so each push records the products
+ * it wrote; product webhooks for them whose `updated_at` falls inside that push
+ * are dropped. A later edit by the merchant carries a newer `updated_at` and is
+ * forwarded as usual.
+ */
+
+// How long a pushed product is watched for echoes; Shopify delivers well within this
+const ECHO_WINDOW_MS = 15 * 60 * 1000;
+
+// Allows for clock skew between Shopify's updated_at and our finishedAt
+const CLOCK_SKEW_MS = 5 * 1000;
+
+// Item statuses that mean the push wrote the product to Shopify
+const WRITTEN_STATUSES = new Set(["created", "updated", "synced"]);
+
+export type EchoCheck = "echo" | "pending" | "none";
+
+/**
+ * Remembers the products a finished push wrote to Shopify
+ * Returns how many products are now guarded.
+ */
+export async function recordPushedProducts(job: SyncJob, result: SyncJobResult): Promise<number> {
+  const productIds = [
+    ...new Set(
+      result.items
+        .filter((item) => WRITTEN_STATUSES.has(item.status) && item.productId)
+        // Edge functions report numeric ids or GIDs; webhooks carry numeric ids, so both sides store GIDs
+        .map((item) => toShopifyGid("Product", item.productId as string))
+    ),
+  ];
+
+  if (productIds.length === 0) return 0;
+
+  const pushedAt = new Date();
+  const expiresAt = new Date(pushedAt.getTime() + ECHO_WINDOW_MS);
+
+  await prisma.$transaction(
+    productIds.map((productId) =>
+      prisma.productEchoGuard.upsert({
+        where: { shop_productId: { shop: job.shop, productId } },
+        create: { shop: job.shop, productId, jobId: job.id, pushedAt, expiresAt },
+        update: { jobId: job.id, pushedAt, expiresAt },
+      })
+    )
+  );
+
+  return productIds.length;
+}
+
+/**
+ * Decides whether a product webhook is the echo of our own push
+ * "pending" means a push is still running for the tenant, so its written
+ * products are not known yet; callers should ask Shopify to redeliver later.
+ */
+export async function checkProductEcho(input: {
+  shop: string;
+  adminId: string;
+  productId: string;
+  updatedAt: string | null;
+}): Promise<EchoCheck> {
+  const now = new Date();
+  const productId = toShopifyGid("Product", input.productId);
+
+  const guard = await prisma.productEchoGuard.findUnique({
+    where: { shop_productId: { shop: input.shop, productId } },
+  });
+
+  if (guard && guard.expiresAt > now) {
+    const updatedAt = input.updatedAt ? new Date(input.updatedAt) : null;
+
+    // Without a usable timestamp we cannot tell; inside the window assume it's ours
+    if (!updatedAt || Number.isNaN(updatedAt.getTime())) return "echo";
+    if (updatedAt.getTime() <= guard.pushedAt.getTime() + CLOCK_SKEW_MS) return "echo";
+  }
+
+  const lock = await prisma.syncLock.findFirst({
+    where: { adminId: input.adminId, intent: { startsWith: "push" }, expiresAt: { gte: now } },
+  });
+
+  if (lock) {
+    const job = await prisma.syncJob.findUnique({ where: { id: lock.jobId }, select: { status: true, dryRun: true } });
+    // The lock outlives the job's status change until its written products are
+    // recorded, so anything past "queued" still counts as in flight
+    if (job && job.status !== "queued" && !job.dryRun) return "pending";
+  }
+
+  return "none";
+}
+
+/**
+ * Deletes guards whose echo window has passed
+ */
+export async function purgeExpiredEchoGuards(): Promise<number> {
+  const { count } = await prisma.productEchoGuard.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return count;
+}
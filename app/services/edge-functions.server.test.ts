@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { callEdgeFunction, getCircuitStates } = await import("./edge-functions.server");
+
+const fetchMock = vi.fn();
+
+function respond(status: number, body: unknown = {}) {
+  return new Response(JSON.stringify(body), { status });
+}
+
+beforeEach(() => {
+  vi.stubEnv("SUPABASE_URL", "https://example.supabase.co");
+  vi.stubGlobal("fetch", fetchMock);
+  fetchMock.mockReset();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("callEdgeFunction retries", () => {
+  it("retries a read after a 5xx", async () => {
+    fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200, { items: [] }));
+
+    const r = await callEdgeFunction("read-fn", "jwt", {}, { idempotent: true, baseDelayMs: 0 });
+
+    expect(r).toMatchObject({ ok: true, status: 200, attempts: 2, data: { items: [] } });
+  });
+
+  it("doesn't send a write again after a 5xx, since it may have run", async () => {
+    fetchMock.mockImplementation(async () => respond(502));
+
+    const r = await callEdgeFunction("write-fn", "jwt", {}, { baseDelayMs: 0 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(r).toMatchObject({ ok: false, status: 502, attempts: 1, error: { kind: "http", retryable: true } });
+  });
+
+  it("retries a write the function turned away with 429", async () => {
+    fetchMock.mockResolvedValueOnce(respond(429)).mockResolvedValueOnce(respond(200));
+
+    const r = await callEdgeFunction("busy-write-fn", "jwt", {}, { baseDelayMs: 0, idempotencyKey: "job_1" });
+
+    expect(r).toMatchObject({ ok: true, attempts: 2 });
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ "Idempotency-Key": "job_1" });
+  });
+
+  it("returns a 4xx at once", async () => {
+    fetchMock.mockImplementation(async () => respond(400, { error: "bad mode" }));
+
+    const r = await callEdgeFunction("strict-fn", "jwt", {}, { idempotent: true, baseDelayMs: 0 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(r).toMatchObject({ ok: false, status: 400, data: { error: "bad mode" }, error: { retryable: false } });
+  });
+});
+
+describe("callEdgeFunction circuit breaker", () => {
+  it("fails fast after repeated failures and lets one trial call through after the cooldown", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    fetchMock.mockImplementation(async () => respond(500));
+
+    for (let i = 0; i < 5; i++) {
+      await callEdgeFunction("flaky-fn", "jwt", {}, { maxAttempts: 1 });
+    }
+
+    const blocked = await callEdgeFunction("flaky-fn", "jwt", {}, { maxAttempts: 1 });
+    expect(blocked).toMatchObject({ ok: false, attempts: 0, error: { kind: "circuit_open", retryable: true } });
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(getCircuitStates()["flaky-fn"].state).toBe("open");
+
+    vi.advanceTimersByTime(30_000);
+    fetchMock.mockImplementation(async () => respond(200));
+
+    const trial = await callEdgeFunction("flaky-fn", "jwt", {}, { maxAttempts: 1 });
+    expect(trial.ok).toBe(true);
+    expect(getCircuitStates()["flaky-fn"]).toEqual({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("doesn't count 4xx answers as failures", async () => {
+    fetchMock.mockImplementation(async () => respond(404));
+
+    for (let i = 0; i < 6; i++) {
+      await callEdgeFunction("missing-fn", "jwt", {}, { maxAttempts: 1 });
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    expect(getCircuitStates()["missing-fn"].state).toBe("closed");
+  });
+});
@@ -0,0 +1,305 @@
+import { SignJWT } from "jose";
+
+/**
+ * Supabase Edge Function client
+ *
+ * Shared by the /api/sync route and the background sync worker so both
+ * mint the same JWT and talk to the same functions.
+ *
+ * Every call gets a per-attempt timeout, jittered exponential backoff on
+ * retryable failures and a per-function circuit breaker, and always resolves
+ * to a structured result instead of throwing - so transient Supabase hiccups
+ * are absorbed here rather than surfacing as merchant-facing failures.
+ *
+ * Only calls marked `idempotent` retry timeouts, network errors and 408/5xx:
+ * a push that timed out may still be running, and sending it again would
+ * write the same products twice. Other calls only retry 425/429, which the
+ * function answers before doing any work.
+ */
+
+// --------------------
+// Env helpers
+// --------------------
+function mustEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Server misconfigured: ${name} missing`);
+  return v;
+}
+
+function numberEnv(name: string, fallback: number): number {
+  const parsed = Number(process.env[name]);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const SUPABASE_URL = () => mustEnv("SUPABASE_URL");
+const APP_JWT_SECRET = () => mustEnv("APP_JWT_SECRET");
+
+// Optional override if you want, otherwise it uses SUPABASE_URL/functions/v1
+const SUPABASE_FUNCTIONS_BASE = () =>
+  process.env.SUPABASE_FUNCTIONS_BASE || `${SUPABASE_URL()}/functions/v1`;
+
+// --------------------
+// Types
+// --------------------
+export type EdgeFunctionErrorKind = "timeout" | "network" | "http" | "circuit_open";
+
+export interface EdgeFunctionError {
+  kind: EdgeFunctionErrorKind;
+  message: string;
+  retryable: boolean;
+}
+
+export type EdgeFunctionResult =
+  | { ok: true; status: number; data: unknown; attempts: number; durationMs: number }
+  | { ok: false; status: number; data: unknown; attempts: number; durationMs: number; error: EdgeFunctionError };
+
+export interface EdgeFunctionOptions {
+  /** Per-attempt timeout (default EDGE_FUNCTION_TIMEOUT_MS or 150s, Supabase's wall-clock limit) */
+  timeoutMs?: number;
+  /** Total attempts including the first one (default EDGE_FUNCTION_MAX_ATTEMPTS or 3) */
+  maxAttempts?: number;
+  /** Safe to send twice (reads); only then are timeouts, network errors and 408/5xx retried */
+  idempotent?: boolean;
+  /** Sent as the Idempotency-Key header so the function can drop a request it already ran */
+  idempotencyKey?: string;
+  /** First backoff step; doubles on each retry (default 500ms) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff, including Retry-After (default 10s) */
+  maxDelayMs?: number;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Rejected before the function ran, so even a write can be sent again
+const NOT_RUN_STATUSES = new Set([425, 429]);
+
+// --------------------
+// Circuit breaker (per function, per server instance)
+// After FAILURE_THRESHOLD consecutive failed calls the circuit opens and calls
+// fail fast for COOLDOWN_MS; then one trial call is let through (half-open).
+// --------------------
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN_MS = 30_000;
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuit(fnName: string): CircuitState {
+  let circuit = circuits.get(fnName);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, openedAt: null, trialInFlight: false };
+    circuits.set(fnName, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Returns true when the call may proceed
+ */
+function allowRequest(circuit: CircuitState): boolean {
+  if (circuit.openedAt === null) return true;
+  if (Date.now() - circuit.openedAt < COOLDOWN_MS) return false;
+
+  // Half-open: let exactly one trial call through
+  if (circuit.trialInFlight) return false;
+  circuit.trialInFlight = true;
+  return true;
+}
+
+function recordSuccess(circuit: CircuitState) {
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+function recordFailure(fnName: string, circuit: CircuitState) {
+  circuit.consecutiveFailures += 1;
+  circuit.trialInFlight = false;
+
+  if (circuit.openedAt !== null || circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+    if (circuit.openedAt === null) {
+      console.warn(`[EdgeFunctions] Circuit opened for ${fnName} after ${circuit.consecutiveFailures} failures`);
+    }
+    circuit.openedAt = Date.now();
+  }
+}
+
+/**
+ * Snapshot of breaker state, for diagnostics
+ */
+export function getCircuitStates(): Record<string, { state: "closed" | "open" | "half_open"; consecutiveFailures: number }> {
+  const now = Date.now();
+  return Object.fromEntries(
+    [...circuits.entries()].map(([fnName, c]) => [
+      fnName,
+      {
+        state: c.openedAt === null ? "closed" : now - c.openedAt < COOLDOWN_MS ? "open" : "half_open",
+        consecutiveFailures: c.consecutiveFailures,
+      },
+    ])
+  );
+}
+
+// --------------------
+// Backoff helpers
+// --------------------
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Full-jitter exponential backoff, with Retry-After taking precedence when present
+ */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(ms) && ms >= 0) return Math.min(ms, maxDelayMs);
+  }
+
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return { raw: text };
+  }
+}
+
+/**
+ * Options for a read that has to be answered by `deadline`
+ * One attempt, cut to the time left (at least a second), so a job running under
+ * a time budget can't sit through the default 150s timeout three times.
+ */
+export function readOptionsBefore(deadline: number): EdgeFunctionOptions {
+  return { idempotent: true, maxAttempts: 1, timeoutMs: Math.max(deadline - Date.now(), 1000) };
+}
+
+// --------------------
+// Create a short-lived JWT that matches YOUR system:
+// payload: { userId, role } signed HS256 with APP_JWT_SECRET
+// --------------------
+export async function mintAppJwt(adminId: string): Promise<string> {
+  const secret = new TextEncoder().encode(APP_JWT_SECRET());
+
+  return await new SignJWT({ userId: adminId, role: "admin" })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime("5m")
+    .sign(secret);
+}
+
+// --------------------
+// Call your Supabase Edge Functions that already exist
+// shopify-pull-products
+// shopify-push-products
+// shopify-auto-sync (cron only, not used here)
+// --------------------
+export async function callEdgeFunction(
+  fnName: string,
+  jwt: string,
+  body?: unknown,
+  options: EdgeFunctionOptions = {}
+): Promise<EdgeFunctionResult> {
+  const url = `${SUPABASE_FUNCTIONS_BASE()}/${fnName}`;
+  const timeoutMs = options.timeoutMs ?? numberEnv("EDGE_FUNCTION_TIMEOUT_MS", 150_000);
+  const maxAttempts = Math.max(1, options.maxAttempts ?? numberEnv("EDGE_FUNCTION_MAX_ATTEMPTS", 3));
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 10_000;
+  const idempotent = options.idempotent ?? false;
+
+  const circuit = getCircuit(fnName);
+  const startedAt = Date.now();
+
+  if (!allowRequest(circuit)) {
+    const message = `${fnName} is temporarily unavailable (circuit open after repeated failures). Try again shortly.`;
+    return {
+      ok: false,
+      status: 503,
+      data: { error: message, errorType: "circuit_open" },
+      attempts: 0,
+      durationMs: 0,
+      error: { kind: "circuit_open", message, retryable: true },
+    };
+  }
+
+  let attempt = 0;
+  for (;;) {
+    attempt += 1;
+
+    let failure: {
+      status: number;
+      data: unknown;
+      error: EdgeFunctionError;
+      retryAfter: string | null;
+      repeatable: boolean;
+    };
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${jwt}`,
+          "Content-Type": "application/json",
+          ...(options.idempotencyKey && { "Idempotency-Key": options.idempotencyKey }),
+        },
+        body: JSON.stringify(body ?? {}),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      const data = parseBody(await res.text());
+
+      if (res.ok) {
+        recordSuccess(circuit);
+        return { ok: true, status: res.status, data, attempts: attempt, durationMs: Date.now() - startedAt };
+      }
+
+      const retryable = RETRYABLE_STATUSES.has(res.status);
+      failure = {
+        status: res.status,
+        data,
+        retryAfter: res.headers.get("Retry-After"),
+        error: { kind: "http", message: `${fnName} responded with status ${res.status}`, retryable },
+        repeatable: idempotent ? retryable : NOT_RUN_STATUSES.has(res.status),
+      };
+
+      // 4xx answers mean the function is up; they don't count against the circuit
+      if (!retryable) {
+        recordSuccess(circuit);
+        return { ok: false, ...failure, attempts: attempt, durationMs: Date.now() - startedAt };
+      }
+    } catch (e) {
+      const isTimeout = e instanceof DOMException && (e.name === "TimeoutError" || e.name === "AbortError");
+      const message = isTimeout
+        ? `${fnName} did not respond within ${Math.round(timeoutMs / 1000)}s`
+        : `Network error calling ${fnName}: ${e instanceof Error ? e.message : String(e)}`;
+
+      failure = {
+        status: isTimeout ? 504 : 502,
+        data: { error: message, errorType: isTimeout ? "timeout" : "network" },
+        retryAfter: null,
+        error: { kind: isTimeout ? "timeout" : "network", message, retryable: true },
+        // The request may have reached the function, which could still be running it
+        repeatable: idempotent,
+      };
+    }
+
+    if (attempt >= maxAttempts || !failure.repeatable) {
+      recordFailure(fnName, circuit);
+      console.error(`[EdgeFunctions] ${fnName} failed after ${attempt} attempt(s):`, failure.error);
+      return { ok: false, status: failure.status, data: failure.data, error: failure.error, attempts: attempt, durationMs: Date.now() - startedAt };
+    }
+
+    const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs, failure.retryAfter);
+    console.warn(`[EdgeFunctions] ${fnName} attempt ${attempt} failed (${failure.error.message}); retrying in ${delay}ms`);
+    await sleep(delay);
+  }
+}
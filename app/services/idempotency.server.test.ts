@@ -0,0 +1,90 @@
+import { Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  idempotencyKey: {
+    create: vi.fn(),
+    deleteMany: vi.fn(),
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock("../db.server", () => ({ default: db }));
+
+const { beginIdempotentRequest, completeIdempotentRequest, hashRequestBody } = await import("./idempotency.server");
+
+const SHOP = "example.myshopify.com";
+const claim = { shop: SHOP, key: "key_1", requestHash: hashRequestBody({ intent: "push_all" }) };
+
+function keyTaken() {
+  return new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "test" });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.idempotencyKey.deleteMany.mockResolvedValue({ count: 0 });
+  db.idempotencyKey.create.mockResolvedValue({ id: "idem_1" });
+});
+
+describe("hashRequestBody", () => {
+  it("ignores key order", () => {
+    expect(hashRequestBody({ intent: "push_all", dryRun: true })).toBe(hashRequestBody({ dryRun: true, intent: "push_all" }));
+    expect(hashRequestBody({ intent: "push_all" })).not.toBe(hashRequestBody({ intent: "push_changed" }));
+  });
+});
+
+describe("beginIdempotentRequest", () => {
+  it("claims an unused key", async () => {
+    expect(await beginIdempotentRequest(claim)).toEqual({ kind: "started", id: "idem_1" });
+  });
+
+  it("replays the stored response of a completed request", async () => {
+    db.idempotencyKey.create.mockRejectedValue(keyTaken());
+    db.idempotencyKey.findUnique.mockResolvedValue({
+      requestHash: claim.requestHash,
+      status: "completed",
+      responseStatus: 202,
+      responseBody: { ok: true, jobId: "job_1" },
+    });
+
+    expect(await beginIdempotentRequest(claim)).toEqual({ kind: "replay", status: 202, body: { ok: true, jobId: "job_1" } });
+  });
+
+  it("reports a duplicate that arrives while the first request is still running", async () => {
+    db.idempotencyKey.create.mockRejectedValue(keyTaken());
+    db.idempotencyKey.findUnique.mockResolvedValue({ requestHash: claim.requestHash, status: "in_progress", responseStatus: null });
+
+    expect(await beginIdempotentRequest(claim)).toEqual({ kind: "in_progress" });
+  });
+
+  it("rejects a key reused for a different request", async () => {
+    db.idempotencyKey.create.mockRejectedValue(keyTaken());
+    db.idempotencyKey.findUnique.mockResolvedValue({
+      requestHash: hashRequestBody({ intent: "pull" }),
+      status: "completed",
+      responseStatus: 202,
+      responseBody: {},
+    });
+
+    expect(await beginIdempotentRequest(claim)).toEqual({ kind: "mismatch" });
+  });
+});
+
+describe("completeIdempotentRequest", () => {
+  it("stores a response for replay", async () => {
+    await completeIdempotentRequest("idem_1", Response.json({ ok: true, jobId: "job_1" }, { status: 202 }));
+
+    expect(db.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: "idem_1" },
+      data: { status: "completed", responseStatus: 202, responseBody: { ok: true, jobId: "job_1" } },
+    });
+  });
+
+  it("releases the key after a response the client should retry", async () => {
+    await completeIdempotentRequest("idem_1", Response.json({ ok: false }, { status: 409 }));
+
+    expect(db.idempotencyKey.update).not.toHaveBeenCalled();
+    expect(db.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: "idem_1" } });
+  });
+});
@@ -0,0 +1,139 @@
+import { createHash } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+
+/**
+ * Idempotency keys for POST /api/sync
+ *
+ * The first request with a given (shop, Idempotency-Key) claims the key and
+ * runs; its response is stored and replayed for any duplicate that arrives
+ * within the window, so double-clicks and App Bridge retries never queue a
+ * second push.
+ */
+
+// How long a stored response is replayed for
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type IdempotencyClaim =
+  | { kind: "started"; id: string }
+  | { kind: "replay"; status: number; body: unknown }
+  | { kind: "in_progress" }
+  | { kind: "mismatch" };
+
+/**
+ * JSON.stringify with object keys sorted, so {a,b} and {b,a} hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Fingerprint of a request body, used to reject a key reused for a different request
+ */
+export function hashRequestBody(body: unknown): string {
+  return createHash("sha256").update(stableStringify(body)).digest("hex");
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+/**
+ * Claims an idempotency key, or reports what already happened with it
+ */
+export async function beginIdempotentRequest(input: {
+  shop: string;
+  key: string;
+  requestHash: string;
+}): Promise<IdempotencyClaim> {
+  const now = new Date();
+
+  // Expired keys behave as if they were never used
+  await prisma.idempotencyKey.deleteMany({
+    where: { shop: input.shop, key: input.key, expiresAt: { lt: now } },
+  });
+
+  try {
+    const created = await prisma.idempotencyKey.create({
+      data: {
+        shop: input.shop,
+        key: input.key,
+        requestHash: input.requestHash,
+        status: "in_progress",
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_WINDOW_MS),
+      },
+    });
+    return { kind: "started", id: created.id };
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) throw error;
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { shop_key: { shop: input.shop, key: input.key } },
+  });
+
+  // Deleted between our insert and read (abandoned by the first request) - let the client retry
+  if (!existing) return { kind: "in_progress" };
+
+  if (existing.requestHash !== input.requestHash) return { kind: "mismatch" };
+
+  if (existing.status !== "completed" || existing.responseStatus === null) return { kind: "in_progress" };
+
+  return { kind: "replay", status: existing.responseStatus, body: existing.responseBody };
+}
+
+/**
+ * Stores the response for replay
+ * 5xx and 409 (sync lock busy) responses are transient and not stored:
+ * the key is released so the client can retry with it.
+ */
+export async function completeIdempotentRequest(id: string, response: Response): Promise<void> {
+  if (response.status >= 500 || response.status === 409) {
+    await abandonIdempotentRequest(id);
+    return;
+  }
+
+  let body: unknown = null;
+  try {
+    const text = await response.clone().text();
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = null;
+  }
+
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      status: "completed",
+      responseStatus: response.status,
+      responseBody: body === null ? Prisma.JsonNull : (body as Prisma.InputJsonValue),
+    },
+  });
+}
+
+/**
+ * Releases a claimed key after an unexpected failure
+ */
+export async function abandonIdempotentRequest(id: string): Promise<void> {
+  await prisma.idempotencyKey.deleteMany({ where: { id } });
+}
+
+/**
+ * Deletes keys whose replay window has passed
+ */
+export async function purgeExpiredIdempotencyKeys(): Promise<number> {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return count;
+}
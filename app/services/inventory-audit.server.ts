@@ -0,0 +1,511 @@
+import { randomUUID } from "node:crypto";
+import type { InventoryAudit, InventoryCorrection, Prisma, SyncJob } from "@prisma/client";
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import type { CorrectionDirection, ValidIntent } from "../utils/validation.server";
+import { queryAdminApi } from "./admin-api.server";
+import { getGrantedScopes, missingScopesFor } from "./capabilities.server";
+import { callEdgeFunction, mintAppJwt, readOptionsBefore } from "./edge-functions.server";
+import { getLocationMappings } from "./location-mapping.server";
+import { getSyncProductLinks, listGetInvItems, type ShopifyVariant } from "./product-links.server";
+import { reconcileCatalog } from "./reconciliation.server";
+import { enqueueSyncJob, type LocalJobOutcome } from "./sync-jobs.server";
+import { acquireSyncLock, releaseSyncLock, type SyncLockHolder } from "./sync-lock.server";
+
+/**
+ * Inventory discrepancy audit: Shopify on-hand vs GetInv stock
+ *
+ * For every mapped location, reads on-hand quantities from the Admin API and
+ * the mapped warehouse's stock from GetInv, pairs variants with items the way
+ * a sync does (links, then unique SKU) and keeps the pairs whose quantities
+ * differ by more than the threshold. Each audit is stored with what it found.
+ * Reading a large catalog takes minutes, so an audit is queued as an "audit"
+ * SyncJob and run by the sync worker under the shop's sync lock.
+ *
+ * A correction picks a side for some or all of an audit's discrepancies and
+ * queues the usual job to apply it: "trust GetInv" pushes GetInv's quantities
+ * to Shopify, "trust Shopify" pulls Shopify's into GetInv. The correction is
+ * recorded with every quantity it changes and the job that changes it.
+ *
+ * Stock moves on while an audit sits, so only recent audits can be corrected,
+ * and each quantity is sent with the value the audit saw on the side it
+ * replaces (`compareQuantity`); the job skips rows that changed since.
+ * A pair with no stock record on one side is flagged rather than read as 0,
+ * and is left out of corrections: there is no quantity there to compare.
+ */
+
+const STOCK_FUNCTION = "shopify-list-stock";
+
+// Each level costs about 4 points (level, item, variant, product), so 100 a page stays well
+// under Shopify's 1,000-point query limit; up to 10,000 inventory levels per location are read
+const LEVELS_PAGE_SIZE = 100;
+const MAX_LEVEL_PAGES = 100;
+
+// Shopify reads stop here, leaving the audit partial, and GetInv's items and stock must have arrived
+// by then, so the worker finishes inside its maxDuration
+const AUDIT_READ_BUDGET_MS = 2 * 60 * 1000;
+
+// Bounds the stored audit; the count still covers every discrepancy found
+const MAX_STORED_DISCREPANCIES = 5000;
+
+// Corrections from older audits are refused; run a new audit instead
+const MAX_CORRECTABLE_AUDIT_AGE_MS = 15 * 60 * 1000;
+
+// Thrown when the shop isn't set up for an audit (no mapped locations); running again won't help
+export class InventoryAuditSetupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InventoryAuditSetupError";
+  }
+}
+
+export interface InventoryDiscrepancy {
+  // `${variantId}|${shopifyLocationId}`, unique within an audit
+  id: string;
+  sku: string | null;
+  productTitle: string;
+  variantTitle: string;
+  variantId: string;
+  inventoryItemId: string | null;
+  getinvItemId: string;
+  getinvItemName: string;
+  shopifyLocationId: string;
+  shopifyLocationName: string;
+  warehouseId: string;
+  // null when that side has no stock record for the pair at this location
+  shopifyQuantity: number | null;
+  getinvQuantity: number | null;
+  // GetInv minus Shopify; null when either side has no record
+  difference: number | null;
+}
+
+export interface InventoryCorrectionChange {
+  sku: string | null;
+  variantId: string;
+  getinvItemId: string;
+  shopifyLocationId: string;
+  warehouseId: string;
+  side: "shopify" | "getinv";
+  from: number;
+  to: number;
+}
+
+export type QueueCorrectionResult =
+  | { queued: true; correction: InventoryCorrection }
+  | { queued: false; reason: "no_discrepancies" }
+  | { queued: false; reason: "audit_stale" }
+  | { queued: false; reason: "sync_locked"; holder: SyncLockHolder | null };
+
+export type QueueAuditResult =
+  | { queued: true; job: SyncJob }
+  | { queued: false; reason: "sync_locked"; holder: SyncLockHolder | null };
+
+const LEVELS_QUERY = `#graphql
+  query AuditLevels($locationId: ID!, $first: Int!, $after: String) {
+    location(id: $locationId) {
+      inventoryLevels(first: $first, after: $after) {
+        nodes {
+          quantities(names: ["on_hand"]) {
+            name
+            quantity
+          }
+          item {
+            id
+            sku
+            variant {
+              id
+              title
+              product {
+                id
+                title
+              }
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+type LevelNode = {
+  quantities: { name: string; quantity: number }[];
+  item: {
+    id: string;
+    sku: string | null;
+    variant: { id: string; title: string; product: { id: string; title: string } } | null;
+  };
+};
+
+type LevelConnection = { nodes?: LevelNode[]; pageInfo?: { hasNextPage: boolean; endCursor: string | null } };
+
+type LevelsPage = { location?: { inventoryLevels?: LevelConnection } | null };
+
+/**
+ * On-hand quantity per variant at one location
+ * Returns whether every level was read before the page limit or `deadline`.
+ */
+async function readLocationLevels(
+  graphql: AdminGraphqlClient,
+  locationId: string,
+  variants: Map<string, ShopifyVariant>,
+  quantities: Map<string, number>,
+  deadline: number
+): Promise<boolean> {
+  let after: string | null = null;
+
+  for (let page = 0; page < MAX_LEVEL_PAGES && Date.now() < deadline; page++) {
+    const data: LevelsPage | undefined = await queryAdminApi<LevelsPage>(graphql, "inventory levels", LEVELS_QUERY, {
+      locationId,
+      first: LEVELS_PAGE_SIZE,
+      after,
+    });
+
+    const levels: LevelConnection | undefined = data?.location?.inventoryLevels;
+    for (const level of levels?.nodes ?? []) {
+      const variant = level.item.variant;
+      if (!variant) continue;
+
+      variants.set(variant.id, {
+        id: variant.id,
+        productId: variant.product.id,
+        productTitle: variant.product.title,
+        title: variant.title,
+        sku: level.item.sku || null,
+        inventoryItemId: level.item.id,
+      });
+      quantities.set(`${variant.id}|${locationId}`, level.quantities.find((q) => q.name === "on_hand")?.quantity ?? 0);
+    }
+
+    if (!levels?.pageInfo?.hasNextPage || !levels.pageInfo.endCursor) return true;
+    after = levels.pageInfo.endCursor;
+  }
+
+  return false;
+}
+
+/**
+ * GetInv stock per item and warehouse through the shopify-list-stock edge function
+ * It has to arrive by `deadline`.
+ */
+async function readGetInvStock(adminId: string, warehouseIds: string[], deadline: number): Promise<Map<string, number>> {
+  const jwt = await mintAppJwt(adminId);
+  const r = await callEdgeFunction(STOCK_FUNCTION, jwt, { warehouseIds }, readOptionsBefore(deadline));
+
+  if (!r.ok) throw new Error(`${STOCK_FUNCTION} failed (status ${r.status}): ${r.error.message}`);
+
+  const stock = (r.data as { stock?: unknown } | null)?.stock;
+  const quantities = new Map<string, number>();
+  if (!Array.isArray(stock)) return quantities;
+
+  for (const entry of stock) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { item_id: itemId, warehouse_id: warehouseId, quantity } = entry as Record<string, unknown>;
+    if ((typeof itemId !== "string" && typeof itemId !== "number") || typeof warehouseId !== "string") continue;
+    if (typeof quantity !== "number" || !Number.isFinite(quantity)) continue;
+
+    quantities.set(`${itemId}|${warehouseId}`, quantity);
+  }
+
+  return quantities;
+}
+
+/**
+ * Compares quantities for every linked item at every mapped location and stores the audit
+ * Throws when the shop has no mapped locations; there is nothing to compare then.
+ * Locations not read in full by `deadline` leave the audit marked incomplete;
+ * GetInv's items and stock have to arrive by then too, or the audit fails.
+ */
+export async function runInventoryAudit(
+  graphql: AdminGraphqlClient,
+  shop: string,
+  adminId: string,
+  threshold: number,
+  deadline = Date.now() + AUDIT_READ_BUDGET_MS
+): Promise<InventoryAudit> {
+  const mappings = await getLocationMappings(shop, adminId);
+  if (mappings.length === 0) {
+    throw new InventoryAuditSetupError("Map at least one Shopify location to a GetInv warehouse before auditing stock");
+  }
+
+  const variants = new Map<string, ShopifyVariant>();
+  const shopifyQuantities = new Map<string, number>();
+
+  // One location at a time keeps the Admin API cost per second low
+  async function readShopify(): Promise<boolean> {
+    let complete = true;
+    for (const mapping of mappings) {
+      const read = await readLocationLevels(graphql, mapping.shopifyLocationId, variants, shopifyQuantities, deadline);
+      if (!read) complete = false;
+    }
+    return complete;
+  }
+
+  // GetInv is read while Shopify is, under the same deadline
+  const [complete, items, links, getinvQuantities] = await Promise.all([
+    readShopify(),
+    listGetInvItems(adminId, { edgeOptions: readOptionsBefore(deadline) }),
+    getSyncProductLinks(shop, adminId),
+    readGetInvStock(adminId, mappings.map((m) => m.warehouseId), deadline),
+  ]);
+
+  const pairs = reconcileCatalog([...variants.values()], items, links).filter((r) => r.bucket === "matched");
+  const itemNames = new Map(items.map((i) => [i.id, i.name]));
+
+  const discrepancies: InventoryDiscrepancy[] = [];
+  let quantitiesChecked = 0;
+
+  for (const pair of pairs) {
+    if (!pair.shopifyVariantId || !pair.getinvItemId) continue;
+    const variant = variants.get(pair.shopifyVariantId);
+    if (!variant) continue;
+
+    for (const mapping of mappings) {
+      const shopifyQuantity = shopifyQuantities.get(`${variant.id}|${mapping.shopifyLocationId}`);
+      const getinvQuantity = getinvQuantities.get(`${pair.getinvItemId}|${mapping.warehouseId}`);
+      // Stocked on neither side here
+      if (shopifyQuantity === undefined && getinvQuantity === undefined) continue;
+
+      quantitiesChecked++;
+      const difference =
+        shopifyQuantity !== undefined && getinvQuantity !== undefined ? getinvQuantity - shopifyQuantity : null;
+      // A missing record is flagged when the other side holds stock beyond the threshold
+      if (Math.abs(difference ?? shopifyQuantity ?? getinvQuantity ?? 0) <= threshold) continue;
+
+      discrepancies.push({
+        id: `${variant.id}|${mapping.shopifyLocationId}`,
+        sku: variant.sku,
+        productTitle: variant.productTitle,
+        variantTitle: variant.title,
+        variantId: variant.id,
+        inventoryItemId: variant.inventoryItemId,
+        getinvItemId: pair.getinvItemId,
+        getinvItemName: itemNames.get(pair.getinvItemId) ?? pair.getinvItemId,
+        shopifyLocationId: mapping.shopifyLocationId,
+        shopifyLocationName: mapping.shopifyLocationName,
+        warehouseId: mapping.warehouseId,
+        shopifyQuantity: shopifyQuantity ?? null,
+        getinvQuantity: getinvQuantity ?? null,
+        difference,
+      });
+    }
+  }
+
+  // Largest differences first, so a truncated audit keeps the ones that matter most; missing records last
+  discrepancies.sort((a, b) => Math.abs(b.difference ?? -1) - Math.abs(a.difference ?? -1));
+
+  return prisma.inventoryAudit.create({
+    data: {
+      shop,
+      adminId,
+      threshold,
+      complete,
+      locationsChecked: mappings.length,
+      quantitiesChecked,
+      discrepancyCount: discrepancies.length,
+      discrepancies: discrepancies.slice(0, MAX_STORED_DISCREPANCIES) as unknown as Prisma.InputJsonArray,
+    },
+  });
+}
+
+/**
+ * Queues an audit for the sync worker, holding the shop's sync lock until it has run
+ * Throws InventoryAuditSetupError when the shop has no mapped locations.
+ */
+export async function queueInventoryAudit(input: {
+  shop: string;
+  adminId: string;
+  threshold: number;
+}): Promise<QueueAuditResult> {
+  if ((await getLocationMappings(input.shop, input.adminId)).length === 0) {
+    throw new InventoryAuditSetupError("Map at least one Shopify location to a GetInv warehouse before auditing stock");
+  }
+
+  const jobId = randomUUID();
+  const lock = await acquireSyncLock({ adminId: input.adminId, shop: input.shop, jobId, intent: "audit" });
+  if (!lock.acquired) return { queued: false, reason: "sync_locked", holder: lock.holder };
+
+  try {
+    const job = await enqueueSyncJob({
+      id: jobId,
+      shop: input.shop,
+      adminId: input.adminId,
+      intent: "audit",
+      payload: { threshold: input.threshold },
+    });
+    return { queued: true, job };
+  } catch (e) {
+    await releaseSyncLock(input.adminId, jobId);
+    throw e;
+  }
+}
+
+/**
+ * Runs a queued audit job in the sync worker
+ * Scopes are checked again: they may have been revoked while the job was queued.
+ */
+export async function runInventoryAuditJob(job: SyncJob): Promise<LocalJobOutcome> {
+  const granted = await getGrantedScopes(job.shop);
+  const missingScopes = [...missingScopesFor("pull", granted), ...missingScopesFor("locations", granted)];
+  if (missingScopes.length > 0) {
+    throw new Error(`The app no longer has the Shopify permissions an audit needs: ${missingScopes.join(", ")}`);
+  }
+
+  const payload = job.payload as { threshold?: unknown } | null;
+  const threshold = typeof payload?.threshold === "number" ? payload.threshold : 0;
+
+  const { admin } = await unauthenticated.admin(job.shop);
+  const audit = await runInventoryAudit(admin.graphql, job.shop, job.adminId, threshold);
+
+  console.log(`[InventoryAudit] Audited ${job.shop}:`, {
+    jobId: job.id,
+    auditId: audit.id,
+    discrepancies: audit.discrepancyCount,
+    complete: audit.complete,
+  });
+
+  return { counts: { total: audit.quantitiesChecked } };
+}
+
+/**
+ * The shop's most recent audit job, to show one that is still queued or running
+ */
+export async function getLatestInventoryAuditJob(shop: string, adminId: string): Promise<SyncJob | null> {
+  return prisma.syncJob.findFirst({ where: { shop, adminId, intent: "audit" }, orderBy: { createdAt: "desc" } });
+}
+
+export async function getInventoryAudit(shop: string, id: string): Promise<InventoryAudit | null> {
+  return prisma.inventoryAudit.findFirst({ where: { id, shop } });
+}
+
+export async function getLatestInventoryAudit(shop: string, adminId: string): Promise<InventoryAudit | null> {
+  return prisma.inventoryAudit.findFirst({ where: { shop, adminId }, orderBy: { createdAt: "desc" } });
+}
+
+export function auditDiscrepancies(audit: InventoryAudit): InventoryDiscrepancy[] {
+  return Array.isArray(audit.discrepancies) ? (audit.discrepancies as unknown as InventoryDiscrepancy[]) : [];
+}
+
+function hasBothQuantities(
+  d: InventoryDiscrepancy
+): d is InventoryDiscrepancy & { shopifyQuantity: number; getinvQuantity: number } {
+  return d.shopifyQuantity !== null && d.getinvQuantity !== null;
+}
+
+/**
+ * Whether the audit is recent enough to correct from
+ */
+export function isAuditCorrectable(audit: Pick<InventoryAudit, "createdAt">, now = Date.now()): boolean {
+  return now - audit.createdAt.getTime() <= MAX_CORRECTABLE_AUDIT_AGE_MS;
+}
+
+/**
+ * An audit's corrections, newest first, with the status of the job applying each
+ */
+export async function listInventoryCorrections(
+  shop: string,
+  auditId: string
+): Promise<(InventoryCorrection & { jobStatus: string | null })[]> {
+  const corrections = await prisma.inventoryCorrection.findMany({
+    where: { shop, auditId },
+    orderBy: { createdAt: "desc" },
+  });
+  const jobs = await prisma.syncJob.findMany({
+    where: { id: { in: corrections.map((c) => c.syncJobId) } },
+    select: { id: true, status: true },
+  });
+  const statuses = new Map(jobs.map((j) => [j.id, j.status]));
+
+  return corrections.map((c) => ({ ...c, jobStatus: statuses.get(c.syncJobId) ?? null }));
+}
+
+/**
+ * Queues the job that applies one side's quantities, and records the correction
+ * `discrepancyIds` narrows it to some of the audit's discrepancies; without it all are corrected.
+ * Pairs missing a stock record on either side are never corrected.
+ */
+export async function queueInventoryCorrection(input: {
+  audit: InventoryAudit;
+  direction: CorrectionDirection;
+  discrepancyIds?: string[];
+}): Promise<QueueCorrectionResult> {
+  const { audit, direction } = input;
+  if (!isAuditCorrectable(audit)) return { queued: false, reason: "audit_stale" };
+
+  const selected = input.discrepancyIds ? new Set(input.discrepancyIds) : null;
+  const rows = auditDiscrepancies(audit)
+    .filter((d) => !selected || selected.has(d.id))
+    .filter(hasBothQuantities);
+  if (rows.length === 0) return { queued: false, reason: "no_discrepancies" };
+
+  const trustGetInv = direction === "trust_getinv";
+  // GetInv's quantities go to Shopify through a push; Shopify's come into GetInv through a pull
+  const intent: ValidIntent = trustGetInv ? "push_changed" : "pull";
+
+  const changes: InventoryCorrectionChange[] = rows.map((d) => ({
+    sku: d.sku,
+    variantId: d.variantId,
+    getinvItemId: d.getinvItemId,
+    shopifyLocationId: d.shopifyLocationId,
+    warehouseId: d.warehouseId,
+    side: trustGetInv ? "shopify" : "getinv",
+    from: trustGetInv ? d.shopifyQuantity : d.getinvQuantity,
+    to: trustGetInv ? d.getinvQuantity : d.shopifyQuantity,
+  }));
+
+  const payload = {
+    mode: "inventory",
+    correction: { auditId: audit.id, direction },
+    inventory: rows.map((d) => ({
+      getinvItemId: d.getinvItemId,
+      variantId: d.variantId,
+      inventoryItemId: d.inventoryItemId,
+      shopifyLocationId: d.shopifyLocationId,
+      warehouseId: d.warehouseId,
+      quantity: trustGetInv ? d.getinvQuantity : d.shopifyQuantity,
+      // What the audit saw on the side being overwritten; a row that no longer matches is skipped
+      compareQuantity: trustGetInv ? d.shopifyQuantity : d.getinvQuantity,
+    })),
+  } satisfies Prisma.InputJsonObject;
+
+  const jobId = randomUUID();
+  const lock = await acquireSyncLock({ adminId: audit.adminId, shop: audit.shop, jobId, intent });
+  if (!lock.acquired) return { queued: false, reason: "sync_locked", holder: lock.holder };
+
+  try {
+    // Created together, so a recorded correction always has its job and a job always its record
+    const [, correction] = await prisma.$transaction([
+      prisma.syncJob.create({
+        data: {
+          id: jobId,
+          shop: audit.shop,
+          adminId: audit.adminId,
+          intent,
+          mode: "inventory",
+          dryRun: false,
+          status: "queued",
+          payload,
+        },
+      }),
+      prisma.inventoryCorrection.create({
+        data: {
+          auditId: audit.id,
+          shop: audit.shop,
+          adminId: audit.adminId,
+          direction,
+          syncJobId: jobId,
+          changes: changes as unknown as Prisma.InputJsonArray,
+        },
+      }),
+    ]);
+
+    return { queued: true, correction };
+  } catch (e) {
+    await releaseSyncLock(audit.adminId, jobId);
+    throw e;
+  }
+}
@@ -0,0 +1,69 @@
+import type { IngestEvent } from "./webhook-forwarding.server";
+import { WebhookPayloadError } from "./webhook-inbox.server";
+
+/**
+ * Inventory webhook payloads -> GetInv ingest events
+ *
+ * inventory_levels/update carries the new absolute `available` quantity for an
+ * item at a location (not a delta); GetInv computes the change against its own
+ * stock and uses `updatedAt` to discard out-of-order deliveries.
+ */
+
+function idField(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value === "string" && value) return value;
+  return null;
+}
+
+function numberOrNull(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+/**
+ * inventory_levels/update
+ * { inventory_item_id, location_id, available, updated_at, admin_graphql_api_id }
+ */
+export function normalizeInventoryLevelUpdate(payload: Record<string, unknown>): IngestEvent[] {
+  const inventoryItemId = idField(payload.inventory_item_id);
+  const locationId = idField(payload.location_id);
+
+  if (!inventoryItemId || !locationId) {
+    throw new WebhookPayloadError("inventory_levels/update payload is missing inventory_item_id or location_id");
+  }
+
+  return [
+    {
+      type: "inventory_level.updated",
+      inventoryItemId,
+      locationId,
+      available: numberOrNull(payload.available),
+      updatedAt: typeof payload.updated_at === "string" ? payload.updated_at : null,
+    },
+  ];
+}
+
+/**
+ * inventory_items/update
+ * { id, sku, tracked, cost, requires_shipping, updated_at, ... }
+ */
+export function normalizeInventoryItemUpdate(payload: Record<string, unknown>): IngestEvent[] {
+  const inventoryItemId = idField(payload.id);
+
+  if (!inventoryItemId) {
+    throw new WebhookPayloadError("inventory_items/update payload is missing id");
+  }
+
+  return [
+    {
+      type: "inventory_item.updated",
+      inventoryItemId,
+      sku: typeof payload.sku === "string" ? payload.sku : null,
+      tracked: typeof payload.tracked === "boolean" ? payload.tracked : null,
+      cost: numberOrNull(payload.cost),
+      requiresShipping: typeof payload.requires_shipping === "boolean" ? payload.requires_shipping : null,
+      updatedAt: typeof payload.updated_at === "string" ? payload.updated_at : null,
+    },
+  ];
+}
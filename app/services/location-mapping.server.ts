@@ -0,0 +1,145 @@
+import type { LocationMapping } from "@prisma/client";
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+import prisma from "../db.server";
+import { callEdgeFunction, mintAppJwt } from "./edge-functions.server";
+
+/**
+ * Location mapping: Shopify location -> GetInv warehouse
+ *
+ * Merchants pair each Shopify location with the GetInv warehouse that holds
+ * its stock on the Locations page. Pull and push jobs carry the tenant's
+ * mappings in their payload, so the edge functions read and write stock at
+ * the right place instead of GetInv's default warehouse. Unmapped locations
+ * keep the default behaviour.
+ */
+
+const WAREHOUSES_FUNCTION = "shopify-list-warehouses";
+
+// Shopify caps locations well below this, even on Plus
+const MAX_LOCATIONS = 250;
+
+export interface ShopifyLocation {
+  id: string;
+  name: string;
+  isActive: boolean;
+  fulfillsOnlineOrders: boolean;
+}
+
+export interface GetInvWarehouse {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+export interface LocationMappingInput {
+  shopifyLocationId: string;
+  shopifyLocationName: string;
+  warehouseId: string | null;
+}
+
+// What pull/push jobs send to the edge functions
+export interface SyncLocationMapping {
+  shopifyLocationId: string;
+  warehouseId: string;
+}
+
+const LOCATIONS_QUERY = `#graphql
+  query AppLocations($first: Int!) {
+    locations(first: $first, includeInactive: true) {
+      nodes {
+        id
+        name
+        isActive
+        fulfillsOnlineOrders
+      }
+    }
+  }
+`;
+
+/**
+ * Lists the shop's locations through the Admin API (needs read_locations)
+ */
+export async function listShopifyLocations(graphql: AdminGraphqlClient): Promise<ShopifyLocation[]> {
+  const response = await graphql(LOCATIONS_QUERY, { variables: { first: MAX_LOCATIONS } });
+  const body = (await response.json()) as {
+    data?: { locations?: { nodes?: ShopifyLocation[] } };
+    errors?: unknown;
+  };
+
+  if (body.errors) throw new Error(`Shopify locations query failed: ${JSON.stringify(body.errors)}`);
+  return body.data?.locations?.nodes ?? [];
+}
+
+/**
+ * Lists the tenant's GetInv warehouses through the shopify-list-warehouses edge function
+ */
+export async function listGetInvWarehouses(adminId: string): Promise<GetInvWarehouse[]> {
+  const jwt = await mintAppJwt(adminId);
+  const r = await callEdgeFunction(WAREHOUSES_FUNCTION, jwt, {}, { idempotent: true });
+
+  if (!r.ok) throw new Error(`${WAREHOUSES_FUNCTION} failed (status ${r.status}): ${r.error.message}`);
+
+  const warehouses = (r.data as { warehouses?: unknown } | null)?.warehouses;
+  if (!Array.isArray(warehouses)) return [];
+
+  return warehouses
+    .filter((w): w is Record<string, unknown> => typeof w === "object" && w !== null)
+    .filter((w) => typeof w.id === "string" || typeof w.id === "number")
+    .map((w) => ({
+      id: String(w.id),
+      name: typeof w.name === "string" && w.name ? w.name : String(w.id),
+      isDefault: w.is_default === true || w.isDefault === true,
+    }));
+}
+
+/**
+ * The shop's saved mappings for the tenant it is linked to
+ * Mappings saved under an earlier tenant point at warehouses that tenant owns, so they are left out.
+ */
+export async function getLocationMappings(shop: string, adminId: string): Promise<LocationMapping[]> {
+  return prisma.locationMapping.findMany({
+    where: { shop, adminId },
+    orderBy: { shopifyLocationName: "asc" },
+  });
+}
+
+/**
+ * Replaces the shop's mappings with `mappings`
+ * A null warehouse (or a location left out) removes that location's mapping.
+ */
+export async function saveLocationMappings(
+  shop: string,
+  adminId: string,
+  mappings: LocationMappingInput[]
+): Promise<LocationMapping[]> {
+  const mapped = mappings.filter((m): m is LocationMappingInput & { warehouseId: string } => m.warehouseId !== null);
+
+  await prisma.$transaction([
+    prisma.locationMapping.deleteMany({
+      where: { shop, NOT: { shopifyLocationId: { in: mapped.map((m) => m.shopifyLocationId) } } },
+    }),
+    ...mapped.map((m) =>
+      prisma.locationMapping.upsert({
+        where: { shop_shopifyLocationId: { shop, shopifyLocationId: m.shopifyLocationId } },
+        create: {
+          shop,
+          adminId,
+          shopifyLocationId: m.shopifyLocationId,
+          shopifyLocationName: m.shopifyLocationName,
+          warehouseId: m.warehouseId,
+        },
+        update: { adminId, shopifyLocationName: m.shopifyLocationName, warehouseId: m.warehouseId },
+      })
+    ),
+  ]);
+
+  return getLocationMappings(shop, adminId);
+}
+
+/**
+ * Mappings in the shape pull/push jobs send to the edge functions
+ */
+export async function getSyncLocationMappings(shop: string, adminId: string): Promise<SyncLocationMapping[]> {
+  const mappings = await getLocationMappings(shop, adminId);
+  return mappings.map((m) => ({ shopifyLocationId: m.shopifyLocationId, warehouseId: m.warehouseId }));
+}
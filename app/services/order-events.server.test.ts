@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { OrderMovement } from "@prisma/client";
+
+const db = vi.hoisted(() => ({
+  orderMovement: {
+    findMany: vi.fn(),
+    createMany: vi.fn(),
+  },
+}));
+
+vi.mock("../db.server", () => ({ default: db }));
+vi.mock("../shopify.server", () => ({ authenticate: {} }));
+
+const { normalizeOrderCancelled, normalizeOrderCreate, normalizeRefundCreate } = await import("./order-events.server");
+
+const SHOP = "example.myshopify.com";
+const context = (topic: string, webhookId: string) => ({ shop: SHOP, topic, webhookId });
+
+const order = {
+  id: 1001,
+  name: "#1001",
+  line_items: [
+    { id: 1, variant_id: 11, product_id: 111, sku: "A", quantity: 2 },
+    { id: 2, variant_id: 22, product_id: 222, sku: "B", quantity: 3 },
+  ],
+  fulfillments: [],
+};
+
+function movement(lineItemId: string, kind: string, quantity: number): OrderMovement {
+  return {
+    id: `${lineItemId}-${kind}`,
+    shop: SHOP,
+    orderId: "1001",
+    lineItemId,
+    kind,
+    quantity,
+    variantId: lineItemId === "1" ? "11" : "22",
+    locationId: null,
+    webhookId: "wh_earlier",
+    createdAt: new Date(),
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.orderMovement.findMany.mockResolvedValue([]);
+  db.orderMovement.createMany.mockResolvedValue({ count: 0 });
+});
+
+describe("order cancelled before orders/create is processed", () => {
+  it("marks the unreserved lines cancelled instead of releasing them", async () => {
+    const events = await normalizeOrderCancelled({ ...order, cancelled_at: "2026-10-19T10:00:00Z" }, context("ORDERS_CANCELLED", "wh_cancel"));
+
+    expect(events).toEqual([]);
+    expect(db.orderMovement.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ lineItemId: "1", kind: "cancel", quantity: 2, webhookId: "wh_cancel" }),
+        expect.objectContaining({ lineItemId: "2", kind: "cancel", quantity: 3, webhookId: "wh_cancel" }),
+      ],
+      skipDuplicates: true,
+    });
+  });
+
+  it("does not reserve cancelled items when orders/create arrives late", async () => {
+    db.orderMovement.findMany.mockResolvedValue([movement("1", "cancel", 2), movement("2", "cancel", 1)]);
+
+    const events = await normalizeOrderCreate(order, context("ORDERS_CREATE", "wh_create"));
+
+    expect(events).toEqual([expect.objectContaining({ kind: "reserve", lineItemId: "2", quantity: 2 })]);
+  });
+
+  it("marks a cancel refund for an unreserved line", async () => {
+    const events = await normalizeRefundCreate(
+      {
+        id: 5,
+        order_id: 1001,
+        refund_line_items: [{ line_item_id: 1, quantity: 1, restock_type: "cancel", line_item: order.line_items[0] }],
+      },
+      context("REFUNDS_CREATE", "wh_refund")
+    );
+
+    expect(events).toEqual([]);
+    expect(db.orderMovement.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ lineItemId: "1", kind: "cancel", quantity: 1 })],
+      skipDuplicates: true,
+    });
+  });
+});
+
+describe("orders/create", () => {
+  it("skips lines that already have a recorded reservation or release", async () => {
+    db.orderMovement.findMany.mockResolvedValue([movement("1", "reserve", 2), movement("1", "release", 2)]);
+
+    const events = await normalizeOrderCreate(order, context("ORDERS_CREATE", "wh_create"));
+
+    expect(events).toEqual([expect.objectContaining({ kind: "reserve", lineItemId: "2", quantity: 3 })]);
+  });
+
+  it("releases a recorded reservation on cancel without marking it", async () => {
+    db.orderMovement.findMany.mockResolvedValue([movement("1", "reserve", 2), movement("2", "reserve", 3)]);
+
+    const events = await normalizeOrderCancelled({ ...order, cancelled_at: "2026-10-19T10:00:00Z" }, context("ORDERS_CANCELLED", "wh_cancel"));
+
+    expect(events).toEqual([
+      expect.objectContaining({ kind: "release", lineItemId: "1", quantity: 2 }),
+      expect.objectContaining({ kind: "release", lineItemId: "2", quantity: 3 }),
+    ]);
+    expect(db.orderMovement.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,363 @@
+import type { OrderMovement } from "@prisma/client";
+import prisma from "../db.server";
+import type { IngestEvent, WebhookContext } from "./webhook-forwarding.server";
+import { WebhookPayloadError } from "./webhook-inbox.server";
+
+/**
+ * Order webhook payloads -> GetInv stock movements
+ *
+ * orders/create reserves each line item's quantity, orders/cancelled releases
+ * whatever is still reserved and refunds/create restocks returned items (or
+ * releases them when the refund cancels unfulfilled items).
+ *
+ * Every movement forwarded to GetInv is recorded in OrderMovement, so a
+ * cancellation only releases what was actually reserved and a redelivered or
+ * overlapping webhook (Shopify sends both orders/cancelled and a "cancel"
+ * refund for the same items) never moves stock twice. Recording is part of the
+ * event's success path: if it fails the inbox retries the event.
+ *
+ * A cancellation processed before its orders/create (a retried or late
+ * delivery) has nothing to release, so it is recorded as a "cancel" marker
+ * instead and orders/create does not reserve those items.
+ *
+ * Order payloads carry the buyer's name, addresses and contact details, none
+ * of which a movement needs; the webhook routes reduce them before they are
+ * stored (minimizeOrderPayload / minimizeRefundPayload).
+ */
+
+export type OrderMovementKind = "reserve" | "release" | "restock";
+
+// Recorded, never forwarded: items cancelled before their reservation was recorded
+const CANCEL_MARKER = "cancel";
+
+const EVENT_TYPE_BY_KIND: Record<OrderMovementKind, string> = {
+  reserve: "stock.reserved",
+  release: "stock.released",
+  restock: "stock.restocked",
+};
+
+// A line item's movement, as forwarded to GetInv and recorded in OrderMovement
+interface MovementEvent extends IngestEvent {
+  kind: OrderMovementKind;
+  orderId: string;
+  lineItemId: string;
+  variantId: string;
+  productId: string | null;
+  sku: string | null;
+  locationId: string | null;
+  quantity: number;
+}
+
+function idField(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value === "string" && value) return value;
+  return null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function quantityField(value: unknown): number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function pick(record: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.filter((key) => key in record).map((key) => [key, record[key]]));
+}
+
+const LINE_ITEM_KEYS = ["id", "variant_id", "product_id", "sku", "quantity", "gift_card"];
+
+/**
+ * Keeps the order fields the normalizers read
+ * The customer id stays so customers/data_request and customers/redact can find the stored event.
+ */
+export function minimizeOrderPayload(payload: Record<string, unknown>): Record<string, unknown> {
+  return {
+    ...pick(payload, ["id", "name", "created_at", "cancelled_at", "cancel_reason", "test", "location_id"]),
+    ...(isRecord(payload.customer) && { customer: pick(payload.customer, ["id"]) }),
+    line_items: records(payload.line_items).map((line) => pick(line, LINE_ITEM_KEYS)),
+    fulfillments: records(payload.fulfillments).map((fulfillment) => ({
+      status: fulfillment.status,
+      line_items: records(fulfillment.line_items).map((line) => pick(line, ["id", "quantity"])),
+    })),
+  };
+}
+
+/**
+ * Keeps the refund fields normalizeRefundCreate reads
+ */
+export function minimizeRefundPayload(payload: Record<string, unknown>): Record<string, unknown> {
+  return {
+    ...pick(payload, ["id", "order_id", "created_at"]),
+    refund_line_items: records(payload.refund_line_items).map((refundLine) => ({
+      ...pick(refundLine, ["line_item_id", "location_id", "quantity", "restock_type"]),
+      ...(isRecord(refundLine.line_item) && { line_item: pick(refundLine.line_item, LINE_ITEM_KEYS) }),
+    })),
+  };
+}
+
+function movementEvent(
+  kind: OrderMovementKind,
+  order: { orderId: string; orderName: string | null; occurredAt: string | null; test: boolean },
+  line: Record<string, unknown>,
+  quantity: number,
+  locationId: string | null,
+  extra: Record<string, unknown> = {}
+): MovementEvent | null {
+  const lineItemId = idField(line.id);
+  const variantId = idField(line.variant_id);
+
+  // Custom line items and gift cards have no variant, so GetInv holds no stock for them
+  if (!lineItemId || !variantId || line.gift_card === true || quantity <= 0) return null;
+
+  return {
+    type: EVENT_TYPE_BY_KIND[kind],
+    kind,
+    orderId: order.orderId,
+    orderName: order.orderName,
+    lineItemId,
+    variantId,
+    productId: idField(line.product_id),
+    sku: stringOrNull(line.sku),
+    locationId,
+    quantity,
+    occurredAt: order.occurredAt,
+    test: order.test,
+    ...extra,
+  };
+}
+
+function orderInfo(payload: Record<string, unknown>, occurredAtKey: string) {
+  const orderId = idField(payload.id);
+
+  if (!orderId) {
+    throw new WebhookPayloadError("Order payload is missing id");
+  }
+
+  return {
+    orderId,
+    orderName: stringOrNull(payload.name),
+    occurredAt: stringOrNull(payload[occurredAtKey]),
+    test: payload.test === true,
+  };
+}
+
+/**
+ * Net quantity per line item for one kind of movement, from recorded movements
+ */
+function sumByLine(movements: OrderMovement[], kind: OrderMovementKind | typeof CANCEL_MARKER): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const m of movements) {
+    if (m.kind === kind) totals.set(m.lineItemId, (totals.get(m.lineItemId) ?? 0) + m.quantity);
+  }
+  return totals;
+}
+
+function orderMovements(shop: string, orderId: string): Promise<OrderMovement[]> {
+  return prisma.orderMovement.findMany({ where: { shop, orderId } });
+}
+
+function outstandingReservations(movements: OrderMovement[]): Map<string, number> {
+  const reserved = sumByLine(movements, "reserve");
+  const released = sumByLine(movements, "release");
+
+  const outstanding = new Map<string, number>();
+  for (const [lineItemId, quantity] of reserved) {
+    const remaining = quantity - (released.get(lineItemId) ?? 0);
+    if (remaining > 0) outstanding.set(lineItemId, remaining);
+  }
+  return outstanding;
+}
+
+// Quantity per line item that left the warehouse in successful fulfillments
+function fulfilledByLine(payload: Record<string, unknown>): Map<string, number> {
+  const fulfilled = new Map<string, number>();
+  for (const fulfillment of records(payload.fulfillments)) {
+    if (fulfillment.status !== "success") continue;
+    for (const line of records(fulfillment.line_items)) {
+      const lineItemId = idField(line.id);
+      if (lineItemId) fulfilled.set(lineItemId, (fulfilled.get(lineItemId) ?? 0) + quantityField(line.quantity));
+    }
+  }
+  return fulfilled;
+}
+
+/**
+ * Records line quantities cancelled while nothing was reserved for them
+ * Keyed by webhook and line item like a movement, so a retried cancellation adds nothing.
+ */
+async function recordUnreservedCancellations(
+  context: WebhookContext,
+  orderId: string,
+  cancelled: { line: Record<string, unknown>; quantity: number }[]
+): Promise<void> {
+  const data = cancelled.flatMap(({ line, quantity }) => {
+    const lineItemId = idField(line.id);
+    const variantId = idField(line.variant_id);
+    if (!lineItemId || !variantId || quantity <= 0) return [];
+    return [{ shop: context.shop, orderId, lineItemId, kind: CANCEL_MARKER, quantity, variantId, webhookId: context.webhookId }];
+  });
+
+  if (data.length > 0) {
+    await prisma.orderMovement.createMany({ data, skipDuplicates: true });
+  }
+}
+
+/**
+ * orders/create
+ * Reserves every stocked line item. Lines an earlier delivery already reserved
+ * (or released) are skipped, and items cancelled before this delivery was
+ * processed are left out.
+ */
+export async function normalizeOrderCreate(
+  payload: Record<string, unknown>,
+  context: WebhookContext
+): Promise<IngestEvent[]> {
+  const order = orderInfo(payload, "created_at");
+  // POS orders carry the selling location; online orders are allocated by GetInv
+  const locationId = idField(payload.location_id);
+
+  const movements = await orderMovements(context.shop, order.orderId);
+  const reserved = sumByLine(movements, "reserve");
+  const released = sumByLine(movements, "release");
+  const cancelled = sumByLine(movements, CANCEL_MARKER);
+
+  return records(payload.line_items)
+    .filter((line) => {
+      const lineItemId = idField(line.id) ?? "";
+      return !reserved.has(lineItemId) && !released.has(lineItemId);
+    })
+    .map((line) => {
+      const quantity = quantityField(line.quantity) - (cancelled.get(idField(line.id) ?? "") ?? 0);
+      return movementEvent("reserve", order, line, quantity, locationId);
+    })
+    .filter((e): e is MovementEvent => e !== null);
+}
+
+/**
+ * orders/cancelled
+ * Releases what is still reserved, less anything already fulfilled. Lines with
+ * no reservation yet are marked cancelled so a late orders/create skips them.
+ */
+export async function normalizeOrderCancelled(
+  payload: Record<string, unknown>,
+  context: WebhookContext
+): Promise<IngestEvent[]> {
+  const order = orderInfo(payload, "cancelled_at");
+  const locationId = idField(payload.location_id);
+  const movements = await orderMovements(context.shop, order.orderId);
+  const reserved = sumByLine(movements, "reserve");
+  const outstanding = outstandingReservations(movements);
+  const fulfilled = fulfilledByLine(payload);
+  const lines = records(payload.line_items);
+
+  const unfulfilledQuantity = (line: Record<string, unknown>) =>
+    quantityField(line.quantity) - (fulfilled.get(idField(line.id) ?? "") ?? 0);
+
+  await recordUnreservedCancellations(
+    context,
+    order.orderId,
+    lines
+      .filter((line) => !reserved.has(idField(line.id) ?? ""))
+      .map((line) => ({ line, quantity: unfulfilledQuantity(line) }))
+  );
+
+  return lines
+    .map((line) => {
+      const lineItemId = idField(line.id) ?? "";
+      const unfulfilled = unfulfilledQuantity(line);
+      const quantity = Math.min(outstanding.get(lineItemId) ?? 0, unfulfilled);
+      return movementEvent("release", order, line, quantity, locationId, {
+        reason: stringOrNull(payload.cancel_reason),
+      });
+    })
+    .filter((e): e is MovementEvent => e !== null);
+}
+
+/**
+ * refunds/create
+ * "return" / "legacy_restock" lines go back on hand at the refund's location;
+ * "cancel" lines release their reservation (or are marked cancelled when there
+ * is none yet); "no_restock" lines leave stock alone.
+ */
+export async function normalizeRefundCreate(
+  payload: Record<string, unknown>,
+  context: WebhookContext
+): Promise<IngestEvent[]> {
+  const orderId = idField(payload.order_id);
+
+  if (!orderId) {
+    throw new WebhookPayloadError("refunds/create payload is missing order_id");
+  }
+
+  const order = { orderId, orderName: null, occurredAt: stringOrNull(payload.created_at), test: false };
+  const refundId = idField(payload.id);
+  const movements = await orderMovements(context.shop, orderId);
+  const reserved = sumByLine(movements, "reserve");
+  const outstanding = outstandingReservations(movements);
+  const events: MovementEvent[] = [];
+  const unreserved: { line: Record<string, unknown>; quantity: number }[] = [];
+
+  for (const refundLine of records(payload.refund_line_items)) {
+    const line = isRecord(refundLine.line_item) ? refundLine.line_item : { id: refundLine.line_item_id };
+    const lineItemId = idField(line.id) ?? "";
+    const locationId = idField(refundLine.location_id);
+    const quantity = quantityField(refundLine.quantity);
+
+    let event: MovementEvent | null = null;
+    switch (refundLine.restock_type) {
+      case "return":
+      case "legacy_restock":
+        event = movementEvent("restock", order, line, quantity, locationId, { refundId });
+        break;
+      case "cancel": {
+        if (!reserved.has(lineItemId)) {
+          unreserved.push({ line, quantity });
+          break;
+        }
+        const release = Math.min(outstanding.get(lineItemId) ?? 0, quantity);
+        event = movementEvent("release", order, line, release, locationId, { refundId });
+        if (event) outstanding.set(lineItemId, (outstanding.get(lineItemId) ?? 0) - release);
+        break;
+      }
+    }
+
+    if (event) events.push(event);
+  }
+
+  await recordUnreservedCancellations(context, orderId, unreserved);
+
+  return events;
+}
+
+/**
+ * Records movements GetInv has accepted
+ * Keyed by webhook and line item, so a redelivery that slips through adds nothing.
+ * Errors are thrown: an unrecorded reservation could never be released.
+ */
+export async function recordOrderMovements(context: WebhookContext, events: IngestEvent[]): Promise<void> {
+  const movements = events as MovementEvent[];
+
+  await prisma.orderMovement.createMany({
+    data: movements.map((e) => ({
+      shop: context.shop,
+      orderId: e.orderId,
+      lineItemId: e.lineItemId,
+      kind: e.kind,
+      quantity: e.quantity,
+      variantId: e.variantId,
+      locationId: e.locationId,
+      webhookId: context.webhookId,
+    })),
+    skipDuplicates: true,
+  });
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  productEchoGuard: {
+    findUnique: vi.fn(),
+  },
+  syncLock: {
+    findFirst: vi.fn(),
+  },
+  syncJob: {
+    findUnique: vi.fn(),
+  },
+}));
+
+vi.mock("../db.server", () => ({ default: db }));
+vi.mock("../shopify.server", () => ({ authenticate: {} }));
+
+const { checkProductEventEcho, normalizeProductDelete, normalizeProductUpdate } = await import("./product-events.server");
+const { WebhookPayloadError } = await import("./webhook-inbox.server");
+
+const SHOP = "example.myshopify.com";
+const pushedAt = new Date("2026-01-01T12:00:00Z");
+
+function productEvent(updatedAt: string) {
+  return { shop: SHOP, adminId: "admin_1", events: normalizeProductUpdate({ id: 1, updated_at: updatedAt }) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.productEchoGuard.findUnique.mockResolvedValue(null);
+  db.syncLock.findFirst.mockResolvedValue(null);
+});
+
+describe("product normalizers", () => {
+  it("turns a products/update payload into one event with its variants", () => {
+    const [event] = normalizeProductUpdate({
+      id: 1,
+      title: "Shirt",
+      tags: "summer, sale",
+      updated_at: "2026-01-01T12:00:00Z",
+      variants: [{ id: 11, inventory_item_id: 111, sku: "A-1", price: "19.90" }],
+    });
+
+    expect(event).toMatchObject({
+      type: "product.updated",
+      productId: "1",
+      title: "Shirt",
+      tags: ["summer", "sale"],
+      variants: [{ variantId: "11", inventoryItemId: "111", sku: "A-1", price: 19.9 }],
+    });
+  });
+
+  it("fails a payload without an id for good", () => {
+    expect(() => normalizeProductDelete({})).toThrow(WebhookPayloadError);
+  });
+});
+
+describe("checkProductEventEcho", () => {
+  it("drops an update our own push caused", async () => {
+    db.productEchoGuard.findUnique.mockResolvedValue({ pushedAt, expiresAt: new Date(Date.now() + 60_000) });
+
+    expect(await checkProductEventEcho(productEvent("2026-01-01T12:00:03Z"))).toBe("echo");
+    expect(db.productEchoGuard.findUnique).toHaveBeenCalledWith({
+      where: { shop_productId: { shop: SHOP, productId: "gid://shopify/Product/1" } },
+    });
+  });
+
+  it("forwards a later edit of a pushed product", async () => {
+    db.productEchoGuard.findUnique.mockResolvedValue({ pushedAt, expiresAt: new Date(Date.now() + 60_000) });
+
+    expect(await checkProductEventEcho(productEvent("2026-01-01T12:05:00Z"))).toBe("none");
+  });
+
+  it("holds updates back while a push is running", async () => {
+    db.syncLock.findFirst.mockResolvedValue({ jobId: "job_1" });
+    db.syncJob.findUnique.mockResolvedValue({ status: "running", dryRun: false });
+
+    expect(await checkProductEventEcho(productEvent("2026-01-01T12:05:00Z"))).toBe("pending");
+  });
+
+  it("doesn't hold updates back for a dry run", async () => {
+    db.syncLock.findFirst.mockResolvedValue({ jobId: "job_1" });
+    db.syncJob.findUnique.mockResolvedValue({ status: "running", dryRun: true });
+
+    expect(await checkProductEventEcho(productEvent("2026-01-01T12:05:00Z"))).toBe("none");
+  });
+});
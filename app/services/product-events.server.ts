@@ -0,0 +1,126 @@
+import { checkProductEcho, type EchoCheck } from "./echo-guard.server";
+import type { IngestEvent } from "./webhook-forwarding.server";
+import { WebhookPayloadError } from "./webhook-inbox.server";
+
+/**
+ * Product webhook payloads -> GetInv ingest events
+ *
+ * products/create and products/update carry the full product; GetInv upserts
+ * it for the tenant. products/delete only carries the id; GetInv archives the
+ * product rather than deleting it, so stock history is kept.
+ */
+
+function idField(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value === "string" && value) return value;
+  return null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function numberOrNull(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// REST webhooks send tags as one comma-separated string
+function toTags(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((t): t is string => typeof t === "string");
+  if (typeof value !== "string") return [];
+  return value
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+function toVariant(value: Record<string, unknown>) {
+  return {
+    variantId: idField(value.id),
+    inventoryItemId: idField(value.inventory_item_id),
+    sku: stringOrNull(value.sku),
+    barcode: stringOrNull(value.barcode),
+    title: stringOrNull(value.title),
+    price: numberOrNull(value.price),
+    compareAtPrice: numberOrNull(value.compare_at_price),
+  };
+}
+
+function normalizeProduct(payload: Record<string, unknown>, type: string): IngestEvent[] {
+  const productId = idField(payload.id);
+
+  if (!productId) {
+    throw new WebhookPayloadError(`${type} payload is missing id`);
+  }
+
+  const variants = Array.isArray(payload.variants) ? payload.variants.filter(isRecord).map(toVariant) : [];
+
+  return [
+    {
+      type,
+      productId,
+      title: stringOrNull(payload.title),
+      handle: stringOrNull(payload.handle),
+      status: stringOrNull(payload.status),
+      vendor: stringOrNull(payload.vendor),
+      productType: stringOrNull(payload.product_type),
+      tags: toTags(payload.tags),
+      variants,
+      updatedAt: stringOrNull(payload.updated_at),
+    },
+  ];
+}
+
+/**
+ * products/create
+ */
+export function normalizeProductCreate(payload: Record<string, unknown>): IngestEvent[] {
+  return normalizeProduct(payload, "product.created");
+}
+
+/**
+ * products/update
+ */
+export function normalizeProductUpdate(payload: Record<string, unknown>): IngestEvent[] {
+  return normalizeProduct(payload, "product.updated");
+}
+
+/**
+ * products/delete
+ * { id }
+ */
+export function normalizeProductDelete(payload: Record<string, unknown>): IngestEvent[] {
+  const productId = idField(payload.id);
+
+  if (!productId) {
+    throw new WebhookPayloadError("products/delete payload is missing id");
+  }
+
+  return [{ type: "product.deleted", productId }];
+}
+
+/**
+ * Echo check for products/create and products/update deliveries
+ * Each delivery normalizes to a single product event.
+ */
+export async function checkProductEventEcho(input: {
+  shop: string;
+  adminId: string;
+  events: IngestEvent[];
+}): Promise<EchoCheck> {
+  const [event] = input.events;
+  if (typeof event?.productId !== "string") return "none";
+
+  return checkProductEcho({
+    shop: input.shop,
+    adminId: input.adminId,
+    productId: event.productId,
+    updatedAt: typeof event.updatedAt === "string" ? event.updatedAt : null,
+  });
+}
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SyncJob } from "@prisma/client";
+
+const db = vi.hoisted(() => ({
+  productLink: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    upsert: vi.fn(),
+    deleteMany: vi.fn(),
+    createMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}));
+
+vi.mock("../db.server", () => ({ default: db }));
+
+const { extractReportedLinks, recordReportedLinks, refreshLinksFromProductEvent, upsertProductLink } = await import(
+  "./product-links.server"
+);
+
+const SHOP = "example.myshopify.com";
+const job = { id: "job_1", shop: SHOP, adminId: "admin_1" } as SyncJob;
+
+const variantGid = (id: number) => `gid://shopify/ProductVariant/${id}`;
+
+function reported(...pairs: [string, number][]) {
+  return { links: pairs.map(([item, variant]) => ({ getinv_item_id: item, product_id: 1, variant_id: variant })) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.productLink.findMany.mockResolvedValue([]);
+  db.$transaction.mockImplementation(async (queries: unknown[]) => queries);
+});
+
+describe("recordReportedLinks", () => {
+  it("writes every link of a batch in one transaction", async () => {
+    db.productLink.findMany.mockResolvedValue([
+      { id: "l1", getinvItemId: "item_1", variantGid: variantGid(11), source: "sync" },
+      { id: "l2", getinvItemId: "item_2", variantGid: variantGid(99), source: "sync" },
+    ]);
+
+    const saved = await recordReportedLinks(job, reported(["item_1", 11], ["item_2", 22], ["item_3", 33]));
+
+    expect(saved).toBe(3);
+    expect(db.productLink.findMany).toHaveBeenCalledTimes(1);
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    // item_2 moved to another variant, so its old link goes
+    expect(db.productLink.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ["l2"] } } });
+    expect(db.productLink.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ getinvItemId: "item_2", variantGid: variantGid(22), source: "sync" }),
+        expect.objectContaining({ getinvItemId: "item_3", variantGid: variantGid(33), source: "sync" }),
+      ],
+      skipDuplicates: true,
+    });
+    expect(db.productLink.updateMany).toHaveBeenCalledTimes(1);
+    expect(db.productLink.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { shop: SHOP, adminId: "admin_1", getinvItemId: "item_1", variantGid: variantGid(11) } })
+    );
+  });
+
+  it("skips pairs a manual link blocks", async () => {
+    db.productLink.findMany.mockResolvedValue([
+      { id: "m1", getinvItemId: "item_1", variantGid: variantGid(12), source: "manual" },
+    ]);
+
+    const saved = await recordReportedLinks(job, reported(["item_1", 11]));
+
+    expect(saved).toBe(0);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("keeps the last pair reported for an item", async () => {
+    await recordReportedLinks(job, reported(["item_1", 11], ["item_1", 12]));
+
+    expect(db.productLink.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ getinvItemId: "item_1", variantGid: variantGid(12) })],
+      skipDuplicates: true,
+    });
+  });
+});
+
+describe("extractReportedLinks", () => {
+  it("reads links at the top level or under result, skipping incomplete pairs", () => {
+    expect(
+      extractReportedLinks({
+        result: {
+          links: [
+            { getinv_item_id: "item_1", product_id: 1, variant_id: 11, inventory_item_id: 111, sku: "A-1" },
+            { getinv_item_id: "item_2", product_id: 2 },
+          ],
+        },
+      })
+    ).toEqual([
+      {
+        getinvItemId: "item_1",
+        productId: "1",
+        variantId: "11",
+        inventoryItemId: "111",
+        sku: "A-1",
+        shopifyHash: null,
+        getinvHash: null,
+      },
+    ]);
+    expect(extractReportedLinks({ ok: true })).toEqual([]);
+  });
+});
+
+describe("upsertProductLink", () => {
+  const input = { getinvItemId: "item_1", productId: "1", variantId: "11" };
+
+  it("lets a manual link replace whatever either side was linked to", async () => {
+    db.productLink.upsert.mockReturnValue({ id: "l1" });
+
+    const link = await upsertProductLink(SHOP, "admin_1", input, "manual");
+
+    expect(link).toEqual({ id: "l1" });
+    expect(db.productLink.findFirst).not.toHaveBeenCalled();
+    expect(db.productLink.deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        adminId: "admin_1",
+        OR: [{ getinvItemId: "item_1" }, { variantGid: variantGid(11) }],
+        NOT: { getinvItemId: "item_1", variantGid: variantGid(11) },
+      },
+    });
+    expect(db.productLink.upsert.mock.calls[0][0].update).toMatchObject({ source: "manual" });
+  });
+
+  it("doesn't let a sync replace a manual link", async () => {
+    db.productLink.findFirst.mockResolvedValue({ getinvItemId: "item_1", variantGid: variantGid(12), source: "manual" });
+
+    expect(await upsertProductLink(SHOP, "admin_1", input, "sync")).toBeNull();
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("refreshLinksFromProductEvent", () => {
+  const context = { shop: SHOP, topic: "products/update", webhookId: "wh_1" };
+
+  it("drops links to variants the product no longer has and refreshes the rest", async () => {
+    await refreshLinksFromProductEvent(context, [
+      { type: "product.updated", productId: "1", variants: [{ variantId: "11", inventoryItemId: "111", sku: "A-2" }] },
+    ]);
+
+    expect(db.productLink.deleteMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, productGid: "gid://shopify/Product/1", variantGid: { notIn: [variantGid(11)] } },
+    });
+    expect(db.productLink.updateMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, variantGid: variantGid(11) },
+      data: { productGid: "gid://shopify/Product/1", sku: "A-2", inventoryItemGid: "gid://shopify/InventoryItem/111" },
+    });
+  });
+
+  it("leaves links alone when the payload lists no variants", async () => {
+    await refreshLinksFromProductEvent(context, [{ type: "product.updated", productId: "1", variants: [] }]);
+
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
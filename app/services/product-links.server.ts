@@ -0,0 +1,556 @@
+import type { Prisma, ProductLink, SyncJob } from "@prisma/client";
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+import prisma from "../db.server";
+import { queryAdminApi } from "./admin-api.server";
+import { callEdgeFunction, mintAppJwt, type EdgeFunctionOptions } from "./edge-functions.server";
+import type { IngestEvent, WebhookContext } from "./webhook-forwarding.server";
+import type { ProductLinkSource } from "../utils/validation.server";
+
+/**
+ * Product links: which Shopify variant is which GetInv item
+ *
+ * The edge functions used to match products by SKU on every run, so a renamed
+ * SKU looked like a new product and a duplicate SKU matched whichever variant
+ * came first. Each pull/push now reports the pairs it matched, they are kept
+ * here, and the sync worker sends them with the next job's edge function call
+ * (read when the job runs, not stored on it) so the edge functions match by
+ * link first and fall back to SKU only for items without one.
+ *
+ * Links from a sync never replace a manual link; only the merchant (or an
+ * unlink) does. Product webhooks keep SKUs and inventory items current and
+ * drop links for deleted products and variants.
+ */
+
+const ITEMS_FUNCTION = "shopify-list-items";
+
+// Unmatched lists on the Product links page stop here; linking some reveals the rest
+export const MAX_UNMATCHED = 250;
+
+// 250 variants a page, so up to 5,000 variants are scanned
+const MAX_VARIANT_PAGES = 20;
+
+// Reported links are saved this many at a time: one read and one transaction each
+const LINK_WRITE_BATCH = 500;
+
+export interface ProductLinkInput {
+  getinvItemId: string;
+  productId: string;
+  variantId: string;
+  inventoryItemId?: string | null;
+  sku?: string | null;
+  shopifyHash?: string | null;
+  getinvHash?: string | null;
+}
+
+export interface GetInvItem {
+  id: string;
+  name: string;
+  sku: string | null;
+}
+
+export interface ShopifyVariant {
+  id: string;
+  productId: string;
+  productTitle: string;
+  title: string;
+  sku: string | null;
+  inventoryItemId: string | null;
+}
+
+// What pull/push jobs send to the edge functions
+export interface SyncProductLink {
+  getinvItemId: string;
+  productId: string;
+  variantId: string;
+  inventoryItemId: string | null;
+  shopifyHash: string | null;
+  getinvHash: string | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringField(record: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value) return value;
+    if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  }
+  return null;
+}
+
+const VARIANT_FIELDS = `#graphql
+  fragment LinkVariant on ProductVariant {
+    id
+    title
+    sku
+    product {
+      id
+      title
+    }
+    inventoryItem {
+      id
+    }
+  }
+`;
+
+const VARIANTS_QUERY = `#graphql
+  ${VARIANT_FIELDS}
+  query LinkVariants($first: Int!, $after: String) {
+    productVariants(first: $first, after: $after, sortKey: ID) {
+      nodes {
+        ...LinkVariant
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+const VARIANT_QUERY = `#graphql
+  ${VARIANT_FIELDS}
+  query LinkVariant($id: ID!) {
+    productVariant(id: $id) {
+      ...LinkVariant
+    }
+  }
+`;
+
+type VariantNode = {
+  id: string;
+  title: string;
+  sku: string | null;
+  product: { id: string; title: string };
+  inventoryItem: { id: string } | null;
+};
+
+function toShopifyVariant(node: VariantNode): ShopifyVariant {
+  return {
+    id: node.id,
+    productId: node.product.id,
+    productTitle: node.product.title,
+    title: node.title,
+    sku: node.sku || null,
+    inventoryItemId: node.inventoryItem?.id ?? null,
+  };
+}
+
+/**
+ * Admin API GID for a Shopify id; webhooks send plain numeric ids, GraphQL sends GIDs
+ */
+export function toShopifyGid(type: "Product" | "ProductVariant" | "InventoryItem", id: string): string {
+  return id.startsWith("gid://") ? id : `gid://shopify/${type}/${id}`;
+}
+
+/**
+ * Lists the tenant's GetInv items through the shopify-list-items edge function
+ * With `ids`, only those items come back (unknown ids are left out).
+ * `edgeOptions` replaces the default retry policy, e.g. to bound the call by a job's deadline.
+ */
+export async function listGetInvItems(
+  adminId: string,
+  options: { ids?: string[]; edgeOptions?: EdgeFunctionOptions } = {}
+): Promise<GetInvItem[]> {
+  const jwt = await mintAppJwt(adminId);
+  const r = await callEdgeFunction(
+    ITEMS_FUNCTION,
+    jwt,
+    options.ids ? { ids: options.ids } : {},
+    options.edgeOptions ?? { idempotent: true }
+  );
+
+  if (!r.ok) throw new Error(`${ITEMS_FUNCTION} failed (status ${r.status}): ${r.error.message}`);
+
+  const items = (r.data as { items?: unknown } | null)?.items;
+  if (!Array.isArray(items)) return [];
+
+  return items.filter(isRecord).flatMap((item) => {
+    const id = stringField(item, ["id"]);
+    if (!id) return [];
+    return [{ id, name: stringField(item, ["name", "title"]) ?? id, sku: stringField(item, ["sku", "SKU"]) }];
+  });
+}
+
+type VariantConnection = { nodes?: VariantNode[]; pageInfo?: { hasNextPage: boolean; endCursor: string | null } };
+
+type VariantsPage = { productVariants?: VariantConnection };
+
+/**
+ * Pages through the shop's variants, oldest first, handing each to `visit` until it returns false
+ * Returns whether the whole catalog was seen: false if `visit` stopped early, or
+ * `maxPages` pages (250 variants each) or the time until `deadline` ran out first.
+ */
+export async function scanShopifyVariants(
+  graphql: AdminGraphqlClient,
+  { maxPages, deadline = Infinity }: { maxPages: number; deadline?: number },
+  visit: (variant: ShopifyVariant) => boolean
+): Promise<boolean> {
+  let after: string | null = null;
+
+  for (let page = 0; page < maxPages && Date.now() < deadline; page++) {
+    const data: VariantsPage | undefined = await queryAdminApi<VariantsPage>(graphql, "variants", VARIANTS_QUERY, {
+      first: 250,
+      after,
+    });
+
+    const variants: VariantConnection | undefined = data?.productVariants;
+    for (const node of variants?.nodes ?? []) {
+      if (!visit(toShopifyVariant(node))) return false;
+    }
+
+    if (!variants?.pageInfo?.hasNextPage || !variants.pageInfo.endCursor) return true;
+    after = variants.pageInfo.endCursor;
+  }
+
+  return false;
+}
+
+/**
+ * The shop's variants without a link, oldest first
+ * Stops at MAX_UNMATCHED of them, or after MAX_VARIANT_PAGES pages on very large catalogs.
+ */
+export async function listUnlinkedShopifyVariants(
+  graphql: AdminGraphqlClient,
+  linkedVariantGids: Set<string>
+): Promise<{ variants: ShopifyVariant[]; truncated: boolean }> {
+  const variants: ShopifyVariant[] = [];
+  let truncated = false;
+
+  const complete = await scanShopifyVariants(graphql, { maxPages: MAX_VARIANT_PAGES }, (variant) => {
+    if (linkedVariantGids.has(variant.id)) return true;
+    if (variants.length === MAX_UNMATCHED) {
+      truncated = true;
+      return false;
+    }
+    variants.push(variant);
+    return true;
+  });
+
+  return { variants, truncated: truncated || !complete };
+}
+
+/**
+ * Looks up one variant through the Admin API; null when it doesn't exist
+ */
+export async function getShopifyVariant(graphql: AdminGraphqlClient, variantId: string): Promise<ShopifyVariant | null> {
+  const response = await graphql(VARIANT_QUERY, { variables: { id: toShopifyGid("ProductVariant", variantId) } });
+  const body = (await response.json()) as { data?: { productVariant?: VariantNode | null }; errors?: unknown };
+
+  if (body.errors) throw new Error(`Shopify variant query failed: ${JSON.stringify(body.errors)}`);
+  return body.data?.productVariant ? toShopifyVariant(body.data.productVariant) : null;
+}
+
+/**
+ * Finds a link by GetInv item, variant or inventory item
+ */
+export async function findProductLink(
+  shop: string,
+  adminId: string,
+  by: { getinvItemId?: string; variantId?: string; inventoryItemId?: string }
+): Promise<ProductLink | null> {
+  const where: Prisma.ProductLinkWhereInput = { shop, adminId };
+
+  if (by.getinvItemId) where.getinvItemId = by.getinvItemId;
+  else if (by.variantId) where.variantGid = toShopifyGid("ProductVariant", by.variantId);
+  else if (by.inventoryItemId) where.inventoryItemGid = toShopifyGid("InventoryItem", by.inventoryItemId);
+  else return null;
+
+  return prisma.productLink.findFirst({ where });
+}
+
+/**
+ * Every link whose variant carries `sku`; more than one means the SKU is duplicated in Shopify
+ */
+export async function findProductLinksBySku(shop: string, adminId: string, sku: string): Promise<ProductLink[]> {
+  return prisma.productLink.findMany({ where: { shop, adminId, sku }, orderBy: { createdAt: "asc" } });
+}
+
+/**
+ * Lists a shop's links for its current tenant, newest first
+ */
+export async function listProductLinks(input: {
+  shop: string;
+  adminId: string;
+  source?: ProductLinkSource;
+  page: number;
+  pageSize: number;
+}): Promise<{ links: ProductLink[]; total: number }> {
+  const where: Prisma.ProductLinkWhereInput = {
+    shop: input.shop,
+    adminId: input.adminId,
+    ...(input.source && { source: input.source }),
+  };
+
+  const [links, total] = await Promise.all([
+    prisma.productLink.findMany({
+      where,
+      orderBy: { updatedAt: "desc" },
+      skip: (input.page - 1) * input.pageSize,
+      take: input.pageSize,
+    }),
+    prisma.productLink.count({ where }),
+  ]);
+
+  return { links, total };
+}
+
+// The columns a link input sets besides its item, variant and source
+function linkFields(input: ProductLinkInput, source: ProductLinkSource) {
+  return {
+    productGid: toShopifyGid("Product", input.productId),
+    inventoryItemGid: input.inventoryItemId ? toShopifyGid("InventoryItem", input.inventoryItemId) : null,
+    sku: input.sku ?? null,
+    shopifyHash: input.shopifyHash ?? null,
+    getinvHash: input.getinvHash ?? null,
+    ...(source === "sync" && { lastSyncedAt: new Date() }),
+  };
+}
+
+/**
+ * Links a GetInv item to a Shopify variant
+ * Either side's previous link is replaced, so every item and every variant has
+ * at most one. A sync-reported link leaves manual links on either side alone.
+ * Returns null when a manual link blocked it.
+ */
+export async function upsertProductLink(
+  shop: string,
+  adminId: string,
+  input: ProductLinkInput,
+  source: ProductLinkSource
+): Promise<ProductLink | null> {
+  const variantGid = toShopifyGid("ProductVariant", input.variantId);
+  const conflicts: Prisma.ProductLinkWhereInput = {
+    shop,
+    adminId,
+    OR: [{ getinvItemId: input.getinvItemId }, { variantGid }],
+  };
+
+  if (source === "sync") {
+    const manual = await prisma.productLink.findFirst({ where: { ...conflicts, source: "manual" } });
+    // The same pair as the manual link just refreshes its sync state below
+    if (manual && (manual.getinvItemId !== input.getinvItemId || manual.variantGid !== variantGid)) return null;
+  }
+
+  const data = linkFields(input, source);
+
+  const [, link] = await prisma.$transaction([
+    prisma.productLink.deleteMany({
+      where: { ...conflicts, NOT: { getinvItemId: input.getinvItemId, variantGid } },
+    }),
+    prisma.productLink.upsert({
+      where: { shop_adminId_getinvItemId: { shop, adminId, getinvItemId: input.getinvItemId } },
+      create: { shop, adminId, getinvItemId: input.getinvItemId, variantGid, source, ...data },
+      // A sync never downgrades a manual link's source
+      update: { ...data, ...(source === "manual" && { source }) },
+    }),
+  ]);
+
+  return link;
+}
+
+/**
+ * Removes the link for a GetInv item; returns whether there was one
+ */
+export async function deleteProductLink(shop: string, adminId: string, getinvItemId: string): Promise<boolean> {
+  const { count } = await prisma.productLink.deleteMany({ where: { shop, adminId, getinvItemId } });
+  return count > 0;
+}
+
+/**
+ * Links in the shape pull/push jobs send to the edge functions
+ */
+export async function getSyncProductLinks(shop: string, adminId: string): Promise<SyncProductLink[]> {
+  const links = await prisma.productLink.findMany({
+    where: { shop, adminId },
+    select: {
+      getinvItemId: true,
+      productGid: true,
+      variantGid: true,
+      inventoryItemGid: true,
+      shopifyHash: true,
+      getinvHash: true,
+    },
+  });
+
+  return links.map((l) => ({
+    getinvItemId: l.getinvItemId,
+    productId: l.productGid,
+    variantId: l.variantGid,
+    inventoryItemId: l.inventoryItemGid,
+    shopifyHash: l.shopifyHash,
+    getinvHash: l.getinvHash,
+  }));
+}
+
+/**
+ * Reads the pairs a pull/push matched out of its edge function response
+ * Reported as `links: [{ getinv_item_id, product_id, variant_id, inventory_item_id, sku, shopify_hash, getinv_hash }]`.
+ */
+export function extractReportedLinks(data: unknown): ProductLinkInput[] {
+  if (!isRecord(data)) return [];
+
+  const list = [data.links, isRecord(data.result) ? data.result.links : undefined].find(Array.isArray) ?? [];
+  const links: ProductLinkInput[] = [];
+
+  for (const entry of list) {
+    if (!isRecord(entry)) continue;
+
+    const getinvItemId = stringField(entry, ["getinv_item_id", "getinvItemId", "item_id", "itemId"]);
+    const productId = stringField(entry, ["shopify_product_id", "product_id", "productId"]);
+    const variantId = stringField(entry, ["shopify_variant_id", "variant_id", "variantId"]);
+    if (!getinvItemId || !productId || !variantId) continue;
+
+    links.push({
+      getinvItemId,
+      productId,
+      variantId,
+      inventoryItemId: stringField(entry, ["inventory_item_id", "inventoryItemId"]),
+      sku: stringField(entry, ["sku", "SKU"]),
+      shopifyHash: stringField(entry, ["shopify_hash", "shopifyHash"]),
+      getinvHash: stringField(entry, ["getinv_hash", "getinvHash"]),
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Saves one batch of sync-reported links the way upsertProductLink would, in one transaction
+ * Returns how many were saved.
+ */
+async function saveReportedLinks(shop: string, adminId: string, inputs: ProductLinkInput[]): Promise<number> {
+  const reported = inputs.map((input) => ({ input, variantGid: toShopifyGid("ProductVariant", input.variantId) }));
+
+  const existing = await prisma.productLink.findMany({
+    where: {
+      shop,
+      adminId,
+      OR: [
+        { getinvItemId: { in: reported.map((r) => r.input.getinvItemId) } },
+        { variantGid: { in: reported.map((r) => r.variantGid) } },
+      ],
+    },
+    select: { id: true, getinvItemId: true, variantGid: true, source: true },
+  });
+
+  const samePair = (link: { getinvItemId: string; variantGid: string }, r: (typeof reported)[number]) =>
+    link.getinvItemId === r.input.getinvItemId && link.variantGid === r.variantGid;
+  const touches = (link: { getinvItemId: string; variantGid: string }, r: (typeof reported)[number]) =>
+    link.getinvItemId === r.input.getinvItemId || link.variantGid === r.variantGid;
+
+  // A manual link on either side blocks a different pair; the same pair just refreshes its sync state
+  const accepted = reported.filter(
+    (r) => !existing.some((link) => link.source === "manual" && touches(link, r) && !samePair(link, r))
+  );
+  if (accepted.length === 0) return 0;
+
+  const stale = existing.filter((link) => accepted.some((r) => touches(link, r) && !samePair(link, r)));
+  const current = accepted.filter((r) => existing.some((link) => samePair(link, r)));
+  const added = accepted.filter((r) => !existing.some((link) => samePair(link, r)));
+
+  await prisma.$transaction([
+    prisma.productLink.deleteMany({ where: { id: { in: stale.map((link) => link.id) } } }),
+    prisma.productLink.createMany({
+      data: added.map((r) => ({
+        shop,
+        adminId,
+        getinvItemId: r.input.getinvItemId,
+        variantGid: r.variantGid,
+        source: "sync",
+        ...linkFields(r.input, "sync"),
+      })),
+      skipDuplicates: true,
+    }),
+    ...current.map((r) =>
+      prisma.productLink.updateMany({
+        where: { shop, adminId, getinvItemId: r.input.getinvItemId, variantGid: r.variantGid },
+        data: linkFields(r.input, "sync"),
+      })
+    ),
+  ]);
+
+  return accepted.length;
+}
+
+/**
+ * Stores the links a finished pull/push reported
+ * Returns how many were saved; links blocked by a manual link are skipped.
+ * A run can report thousands, so they are written in batches rather than one upsert each.
+ */
+export async function recordReportedLinks(job: SyncJob, data: unknown): Promise<number> {
+  // Each item and each variant keeps one link, so the last pair reported for either wins
+  const seenItems = new Set<string>();
+  const seenVariants = new Set<string>();
+  const links = extractReportedLinks(data)
+    .reverse()
+    .filter((link) => {
+      const variantGid = toShopifyGid("ProductVariant", link.variantId);
+      if (seenItems.has(link.getinvItemId) || seenVariants.has(variantGid)) return false;
+      seenItems.add(link.getinvItemId);
+      seenVariants.add(variantGid);
+      return true;
+    })
+    .reverse();
+
+  let saved = 0;
+  for (let i = 0; i < links.length; i += LINK_WRITE_BATCH) {
+    saved += await saveReportedLinks(job.shop, job.adminId, links.slice(i, i + LINK_WRITE_BATCH));
+  }
+  return saved;
+}
+
+/**
+ * products/update (after forwarding): keeps SKUs and inventory items current
+ * and drops links to variants the product no longer has
+ */
+export async function refreshLinksFromProductEvent(context: WebhookContext, events: IngestEvent[]): Promise<void> {
+  for (const event of events) {
+    if (typeof event.productId !== "string" || !Array.isArray(event.variants)) continue;
+
+    const productGid = toShopifyGid("Product", event.productId);
+    const variants = (event.variants as Record<string, unknown>[]).filter(
+      (v): v is Record<string, unknown> & { variantId: string } => typeof v.variantId === "string"
+    );
+    // A payload without variants says nothing about which ones are gone
+    if (variants.length === 0) continue;
+
+    await prisma.$transaction([
+      prisma.productLink.deleteMany({
+        where: {
+          shop: context.shop,
+          productGid,
+          variantGid: { notIn: variants.map((v) => toShopifyGid("ProductVariant", v.variantId)) },
+        },
+      }),
+      ...variants.map((v) =>
+        prisma.productLink.updateMany({
+          where: { shop: context.shop, variantGid: toShopifyGid("ProductVariant", v.variantId) },
+          data: {
+            productGid,
+            sku: typeof v.sku === "string" ? v.sku : null,
+            ...(typeof v.inventoryItemId === "string" && {
+              inventoryItemGid: toShopifyGid("InventoryItem", v.inventoryItemId),
+            }),
+          },
+        })
+      ),
+    ]);
+  }
+}
+
+/**
+ * products/delete (after forwarding): drops the product's links
+ */
+export async function dropLinksForDeletedProduct(context: WebhookContext, events: IngestEvent[]): Promise<void> {
+  const productGids = events
+    .map((e) => e.productId)
+    .filter((id): id is string => typeof id === "string")
+    .map((id) => toShopifyGid("Product", id));
+
+  if (productGids.length === 0) return;
+
+  await prisma.productLink.deleteMany({ where: { shop: context.shop, productGid: { in: productGids } } });
+}
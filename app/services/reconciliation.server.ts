@@ -0,0 +1,285 @@
+import { randomUUID } from "node:crypto";
+import type { Prisma, SyncJob } from "@prisma/client";
+import type { AdminGraphqlClient } from "@shopify/shopify-app-react-router/server";
+import prisma from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { toCsv } from "../utils/csv.server";
+import type { ReconciliationBucket } from "../utils/validation.server";
+import { readOptionsBefore } from "./edge-functions.server";
+import {
+  getSyncProductLinks,
+  listGetInvItems,
+  scanShopifyVariants,
+  type GetInvItem,
+  type ShopifyVariant,
+} from "./product-links.server";
+import { enqueueSyncJob, type LocalJobOutcome, type SyncJobSummary } from "./sync-jobs.server";
+import { acquireSyncLock, releaseSyncLock, type SyncLockHolder } from "./sync-lock.server";
+
+/**
+ * Catalog reconciliation: how the shop's variants line up with the tenant's GetInv items
+ *
+ * Scans the whole catalog through the Admin API and GetInv's item list, pairs
+ * what it can the way a sync would (product links first, then SKU) and sorts
+ * everything into buckets:
+ *   matched       - paired by a link or by a SKU unique on both sides
+ *   shopify_only  - a variant whose SKU GetInv doesn't have
+ *   getinv_only   - an item whose SKU Shopify doesn't have
+ *   duplicate_sku - a SKU carried by more than one variant or item, so a sync can't tell which is which
+ *   blank_sku     - a variant or item with no SKU and no link
+ *
+ * Scanning a large catalog takes minutes, so a report is queued as a
+ * "reconcile" SyncJob, built by the sync worker under the shop's sync lock and
+ * stored on the job (SyncJob.result). Pages read the latest stored report.
+ */
+
+// 250 variants a page, so up to 25,000 variants are scanned
+const MAX_VARIANT_PAGES = 100;
+
+// Shopify reads stop here, leaving the report partial, and GetInv's item list must have arrived
+// by then, so the worker finishes inside its maxDuration
+const RECONCILE_READ_BUDGET_MS = 2 * 60 * 1000;
+
+export interface ReconciliationRow {
+  bucket: ReconciliationBucket;
+  sku: string | null;
+  matchedBy: "link" | "sku" | null;
+  shopifyProductId: string | null;
+  shopifyVariantId: string | null;
+  productTitle: string | null;
+  variantTitle: string | null;
+  getinvItemId: string | null;
+  getinvItemName: string | null;
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  // False when the Shopify catalog was too large to scan in full; getinv_only may then be overstated
+  complete: boolean;
+  summary: Record<ReconciliationBucket, number>;
+  rows: ReconciliationRow[];
+}
+
+export type QueueReconciliationResult =
+  | { queued: true; job: SyncJob }
+  | { queued: false; reason: "sync_locked"; holder: SyncLockHolder | null };
+
+function normalizeSku(sku: string | null): string | null {
+  const trimmed = sku?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function row(
+  bucket: ReconciliationBucket,
+  variant: ShopifyVariant | null,
+  item: GetInvItem | null,
+  matchedBy: ReconciliationRow["matchedBy"] = null
+): ReconciliationRow {
+  return {
+    bucket,
+    sku: normalizeSku(variant?.sku ?? null) ?? normalizeSku(item?.sku ?? null),
+    matchedBy,
+    shopifyProductId: variant?.productId ?? null,
+    shopifyVariantId: variant?.id ?? null,
+    productTitle: variant?.productTitle ?? null,
+    variantTitle: variant?.title ?? null,
+    getinvItemId: item?.id ?? null,
+    getinvItemName: item?.name ?? null,
+  };
+}
+
+function groupBySku<T>(entries: T[], skuOf: (entry: T) => string | null): { blank: T[]; bySku: Map<string, T[]> } {
+  const blank: T[] = [];
+  const bySku = new Map<string, T[]>();
+
+  for (const entry of entries) {
+    const sku = normalizeSku(skuOf(entry));
+    if (!sku) {
+      blank.push(entry);
+      continue;
+    }
+    const group = bySku.get(sku);
+    if (group) group.push(entry);
+    else bySku.set(sku, [entry]);
+  }
+
+  return { blank, bySku };
+}
+
+/**
+ * Buckets variants and items the way a sync would pair them: links first, then SKU
+ */
+export function reconcileCatalog(
+  variants: ShopifyVariant[],
+  items: GetInvItem[],
+  links: { getinvItemId: string; variantId: string }[]
+): ReconciliationRow[] {
+  const rows: ReconciliationRow[] = [];
+  const variantsById = new Map(variants.map((v) => [v.id, v]));
+  const itemsById = new Map(items.map((i) => [i.id, i]));
+  const pairedVariants = new Set<string>();
+  const pairedItems = new Set<string>();
+
+  // A link whose variant or item is gone no longer pairs anything; the side that is left falls through to SKU
+  for (const link of links) {
+    const variant = variantsById.get(link.variantId);
+    const item = itemsById.get(link.getinvItemId);
+    if (!variant || !item) continue;
+
+    rows.push(row("matched", variant, item, "link"));
+    pairedVariants.add(variant.id);
+    pairedItems.add(item.id);
+  }
+
+  const shopify = groupBySku(
+    variants.filter((v) => !pairedVariants.has(v.id)),
+    (v) => v.sku
+  );
+  const getinv = groupBySku(
+    items.filter((i) => !pairedItems.has(i.id)),
+    (i) => i.sku
+  );
+
+  rows.push(...shopify.blank.map((v) => row("blank_sku", v, null)));
+  rows.push(...getinv.blank.map((i) => row("blank_sku", null, i)));
+
+  for (const sku of new Set([...shopify.bySku.keys(), ...getinv.bySku.keys()])) {
+    const skuVariants = shopify.bySku.get(sku) ?? [];
+    const skuItems = getinv.bySku.get(sku) ?? [];
+
+    if (skuVariants.length > 1 || skuItems.length > 1) {
+      rows.push(...skuVariants.map((v) => row("duplicate_sku", v, null)));
+      rows.push(...skuItems.map((i) => row("duplicate_sku", null, i)));
+    } else if (skuVariants.length === 1 && skuItems.length === 1) {
+      rows.push(row("matched", skuVariants[0], skuItems[0], "sku"));
+    } else if (skuVariants.length === 1) {
+      rows.push(row("shopify_only", skuVariants[0], null));
+    } else {
+      rows.push(row("getinv_only", null, skuItems[0]));
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Scans both catalogs and builds the report for the shop's tenant
+ * A catalog not read in full by `deadline` leaves the report marked incomplete;
+ * GetInv's item list is read alongside and has to arrive by then too.
+ */
+export async function buildReconciliationReport(
+  graphql: AdminGraphqlClient,
+  shop: string,
+  adminId: string,
+  deadline = Date.now() + RECONCILE_READ_BUDGET_MS
+): Promise<ReconciliationReport> {
+  const variants: ShopifyVariant[] = [];
+
+  const [complete, items, links] = await Promise.all([
+    scanShopifyVariants(graphql, { maxPages: MAX_VARIANT_PAGES, deadline }, (variant) => {
+      variants.push(variant);
+      return true;
+    }),
+    listGetInvItems(adminId, { edgeOptions: readOptionsBefore(deadline) }),
+    getSyncProductLinks(shop, adminId),
+  ]);
+
+  const rows = reconcileCatalog(variants, items, links);
+  const summary: Record<ReconciliationBucket, number> = {
+    matched: 0,
+    shopify_only: 0,
+    getinv_only: 0,
+    duplicate_sku: 0,
+    blank_sku: 0,
+  };
+  for (const r of rows) summary[r.bucket]++;
+
+  return { generatedAt: new Date().toISOString(), complete, summary, rows };
+}
+
+/**
+ * Queues a report for the sync worker, holding the shop's sync lock until it has run
+ */
+export async function queueReconciliation(input: { shop: string; adminId: string }): Promise<QueueReconciliationResult> {
+  const jobId = randomUUID();
+  const lock = await acquireSyncLock({ adminId: input.adminId, shop: input.shop, jobId, intent: "reconcile" });
+  if (!lock.acquired) return { queued: false, reason: "sync_locked", holder: lock.holder };
+
+  try {
+    const job = await enqueueSyncJob({ id: jobId, shop: input.shop, adminId: input.adminId, intent: "reconcile" });
+    return { queued: true, job };
+  } catch (e) {
+    await releaseSyncLock(input.adminId, jobId);
+    throw e;
+  }
+}
+
+/**
+ * Runs a queued reconcile job in the sync worker; the report is stored as the job's result
+ */
+export async function runReconciliationJob(job: SyncJob): Promise<LocalJobOutcome> {
+  const { admin } = await unauthenticated.admin(job.shop);
+  const report = await buildReconciliationReport(admin.graphql, job.shop, job.adminId);
+
+  console.log(`[Reconciliation] Reconciled ${job.shop}:`, { jobId: job.id, ...report.summary, complete: report.complete });
+
+  return {
+    counts: { total: report.rows.length },
+    result: report as unknown as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * The shop's most recent reconcile job, to show one that is still queued or running
+ */
+export async function getLatestReconciliationJob(shop: string, adminId: string): Promise<SyncJobSummary | null> {
+  return prisma.syncJob.findFirst({
+    where: { shop, adminId, intent: "reconcile" },
+    omit: { result: true, preview: true },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * The latest report built for the shop's tenant, or null if none has been run yet
+ */
+export async function getLatestReconciliationReport(shop: string, adminId: string): Promise<ReconciliationReport | null> {
+  const job = await prisma.syncJob.findFirst({
+    where: { shop, adminId, intent: "reconcile", status: "succeeded" },
+    select: { result: true },
+    orderBy: { createdAt: "desc" },
+  });
+  return (job?.result as unknown as ReconciliationReport | null) ?? null;
+}
+
+/**
+ * Renders report rows as CSV, one row per variant, item or matched pair
+ */
+export function reconciliationToCsv(rows: ReconciliationRow[]): string {
+  const header = [
+    "bucket",
+    "sku",
+    "matched_by",
+    "shopify_product_id",
+    "shopify_variant_id",
+    "product_title",
+    "variant_title",
+    "getinv_item_id",
+    "getinv_item_name",
+  ];
+
+  return toCsv(
+    header,
+    rows.map((r) => [
+      r.bucket,
+      r.sku,
+      r.matchedBy,
+      r.shopifyProductId,
+      r.shopifyVariantId,
+      r.productTitle,
+      r.variantTitle,
+      r.getinvItemId,
+      r.getinvItemName,
+    ])
+  );
+}
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => {
+  const models = [
+    "session",
+    "syncJob",
+    "syncLock",
+    "idempotencyKey",
+    "productEchoGuard",
+    "orderMovement",
+    "webhookEvent",
+    "customerDataExport",
+    "locationMapping",
+    "productLink",
+    "inventoryAudit",
+    "inventoryCorrection",
+  ];
+  return {
+    ...Object.fromEntries(models.map((model) => [model, { deleteMany: vi.fn() }])),
+    $transaction: vi.fn(),
+  };
+});
+
+// Supabase queries resolve to whatever `respond` returns for the table and operation
+const supabase = vi.hoisted(() => {
+  const calls: string[] = [];
+  const respond = vi.fn<(table: string, op: string) => unknown>();
+
+  function query(table: string) {
+    let op = "select";
+    const builder = {
+      select: (_columns: string, options?: { head?: boolean }) => {
+        op = options?.head ? "count" : "select";
+        return builder;
+      },
+      delete: () => {
+        op = "delete";
+        return builder;
+      },
+      eq: () => builder,
+      maybeSingle: () => builder,
+      then: (resolve: (value: unknown) => void) => {
+        calls.push(`${op} ${table}`);
+        resolve(respond(table, op));
+      },
+    };
+    return builder;
+  }
+
+  return { calls, respond, supabaseAdmin: { from: query, schema: () => ({ from: query }) } };
+});
+
+const edge = vi.hoisted(() => ({ callEdgeFunction: vi.fn(), mintAppJwt: vi.fn() }));
+const compliance = vi.hoisted(() => ({ completeComplianceRequest: vi.fn(), getLatestComplianceRequest: vi.fn() }));
+
+vi.mock("../db.server", () => ({ default: db }));
+vi.mock("../supabase.server", () => ({ supabaseAdmin: supabase.supabaseAdmin }));
+vi.mock("./edge-functions.server", () => edge);
+vi.mock("./compliance-requests.server", () => compliance);
+
+const { redactShop } = await import("./shop-redaction.server");
+
+const SHOP = "example.myshopify.com";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  supabase.calls.length = 0;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  db.$transaction.mockImplementation(async (queries: unknown[]) => queries.map(() => ({ count: 1 })));
+  edge.mintAppJwt.mockResolvedValue("jwt");
+  edge.callEdgeFunction.mockImplementation(async () => {
+    supabase.calls.push("shopify-redact-shop");
+    return { ok: true, status: 200, data: { deleted: { products: 120 } } };
+  });
+  supabase.respond.mockImplementation((table: string, op: string) => {
+    if (table === "shopify_shops" && op === "select") return { data: { admin_id: "admin_1" }, error: null };
+    return { data: null, count: op === "count" ? 0 : 1, error: null };
+  });
+});
+
+describe("redactShop", () => {
+  it("asks GetInv to redact before deleting the link that proves the tenant", async () => {
+    const result = await redactShop(SHOP, { webhookId: "wh_1" });
+
+    expect(supabase.calls.indexOf("shopify-redact-shop")).toBeLessThan(supabase.calls.indexOf("delete shopify_shops"));
+    expect(edge.callEdgeFunction).toHaveBeenCalledWith("shopify-redact-shop", "jwt", { shopDomain: SHOP });
+    expect(result.deleted).toMatchObject({ "getinv.products": 120, shopLinks: 1, linkCodes: 1, settings: 1, syncJobs: 1 });
+    expect(compliance.completeComplianceRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ shop: SHOP, topic: "SHOP_REDACT", adminId: "admin_1", outcome: "completed" })
+    );
+  });
+
+  it("keeps the tenant's settings while another store is linked to it", async () => {
+    supabase.respond.mockImplementation((table: string, op: string) => {
+      if (table === "shopify_shops" && op === "select") return { data: { admin_id: "admin_1" }, error: null };
+      return { data: null, count: 1, error: null };
+    });
+
+    const result = await redactShop(SHOP);
+
+    expect(supabase.calls).not.toContain("delete shopify_settings");
+    expect(result.deleted.settings).toBe(0);
+  });
+
+  it("finds the tenant from the earlier run when a redelivery arrives after the link is gone", async () => {
+    supabase.respond.mockReturnValue({ data: null, count: 0, error: null });
+    compliance.getLatestComplianceRequest.mockResolvedValue({ adminId: "admin_1" });
+
+    const result = await redactShop(SHOP);
+
+    expect(result.adminId).toBe("admin_1");
+    expect(edge.mintAppJwt).toHaveBeenCalledWith("admin_1");
+  });
+
+  it("records a partial redaction when GetInv rejects the request", async () => {
+    edge.callEdgeFunction.mockResolvedValue({
+      ok: false,
+      status: 400,
+      data: null,
+      error: { kind: "http", message: "bad request", retryable: false },
+    });
+
+    const result = await redactShop(SHOP);
+
+    expect(result.errors).toEqual([expect.stringContaining("shopify-redact-shop rejected the request (status 400)")]);
+    expect(compliance.completeComplianceRequest).toHaveBeenCalledWith(expect.objectContaining({ outcome: "partial" }));
+  });
+});
@@ -0,0 +1,197 @@
+import prisma from "../db.server";
+import { supabaseAdmin } from "../supabase.server";
+import { completeComplianceRequest, getLatestComplianceRequest } from "./compliance-requests.server";
+import { callEdgeFunction, mintAppJwt } from "./edge-functions.server";
+import { invalidateTenant } from "./tenant-resolver.server";
+
+/**
+ * Shop redaction (GDPR shop/redact)
+ *
+ * Deletes everything this app holds for a shop: sessions, sync history, locks,
+ * idempotency keys, echo guards, order movements, stored webhooks, customer
+ * data exports and location mappings in Postgres; the shop link, its link codes and (when no other
+ * shop uses the tenant) the tenant's Shopify settings in Supabase; and the
+ * Shopify data GetInv cached for the shop, via the shopify-redact-shop edge
+ * function.
+ *
+ * Every step is a delete-by-key, so running it again (a redelivery or a replay)
+ * deletes nothing new and still records the outcome.
+ */
+
+const REDACT_TOPIC = "SHOP_REDACT";
+const REDACT_FUNCTION = "shopify-redact-shop";
+
+export interface ShopRedactionResult {
+  adminId: string | null;
+  deleted: Record<string, number>;
+  errors: string[];
+}
+
+/**
+ * Finds the tenant the shop was linked to, active or not
+ * Falls back to an earlier redaction's compliance request, since that run deleted the link.
+ */
+async function findRedactedTenant(shop: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_shops")
+    .select("admin_id")
+    .eq("shop_domain", shop)
+    .maybeSingle();
+
+  if (error) throw new Error(`Could not read shopify_shops for ${shop}: ${error.message}`);
+  if (data?.admin_id) return data.admin_id;
+
+  const previous = await getLatestComplianceRequest(shop, REDACT_TOPIC);
+  return previous?.adminId ?? null;
+}
+
+async function redactLocalData(shop: string, keepWebhookEventId?: string): Promise<Record<string, number>> {
+  const [
+    sessions,
+    syncJobs,
+    syncLocks,
+    idempotencyKeys,
+    echoGuards,
+    orderMovements,
+    webhookEvents,
+    dataExports,
+    locationMappings,
+    productLinks,
+    inventoryAudits,
+    inventoryCorrections,
+  ] = await prisma.$transaction([
+      prisma.session.deleteMany({ where: { shop } }),
+      prisma.syncJob.deleteMany({ where: { shop } }),
+      prisma.syncLock.deleteMany({ where: { shop } }),
+      prisma.idempotencyKey.deleteMany({ where: { shop } }),
+      prisma.productEchoGuard.deleteMany({ where: { shop } }),
+      prisma.orderMovement.deleteMany({ where: { shop } }),
+      // The event being processed holds only the shop id and domain; the worker still needs it
+      prisma.webhookEvent.deleteMany({ where: { shop, ...(keepWebhookEventId && { id: { not: keepWebhookEventId } }) } }),
+      prisma.customerDataExport.deleteMany({ where: { shop } }),
+      prisma.locationMapping.deleteMany({ where: { shop } }),
+      prisma.productLink.deleteMany({ where: { shop } }),
+      prisma.inventoryAudit.deleteMany({ where: { shop } }),
+      prisma.inventoryCorrection.deleteMany({ where: { shop } }),
+    ]);
+
+  return {
+    sessions: sessions.count,
+    syncJobs: syncJobs.count,
+    syncLocks: syncLocks.count,
+    idempotencyKeys: idempotencyKeys.count,
+    echoGuards: echoGuards.count,
+    orderMovements: orderMovements.count,
+    webhookEvents: webhookEvents.count,
+    customerDataExports: dataExports.count,
+    locationMappings: locationMappings.count,
+    productLinks: productLinks.count,
+    inventoryAudits: inventoryAudits.count,
+    inventoryCorrections: inventoryCorrections.count,
+  };
+}
+
+async function redactSupabaseData(shop: string, adminId: string | null): Promise<Record<string, number>> {
+  const { count: shopLinks, error: linkError } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_shops")
+    .delete({ count: "exact" })
+    .eq("shop_domain", shop);
+
+  if (linkError) throw new Error(`Could not delete shopify_shops row for ${shop}: ${linkError.message}`);
+  invalidateTenant(shop);
+
+  const { count: linkCodes, error: codeError } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_link_codes")
+    .delete({ count: "exact" })
+    .eq("used_by_shop", shop);
+
+  if (codeError) throw new Error(`Could not delete shopify_link_codes for ${shop}: ${codeError.message}`);
+
+  let settings = 0;
+  if (adminId) {
+    // Settings belong to the tenant; keep them if another store is still linked to it
+    const { count: otherShops, error: otherError } = await supabaseAdmin
+      .schema("app_private")
+      .from("shopify_shops")
+      .select("shop_domain", { count: "exact", head: true })
+      .eq("admin_id", adminId);
+
+    if (otherError) throw new Error(`Could not check other shops for tenant ${adminId}: ${otherError.message}`);
+
+    if (!otherShops) {
+      const { count, error } = await supabaseAdmin
+        .from("shopify_settings")
+        .delete({ count: "exact" })
+        .eq("admin_id", adminId);
+
+      if (error) throw new Error(`Could not delete shopify_settings for ${shop}: ${error.message}`);
+      settings = count ?? 0;
+    }
+  }
+
+  return { shopLinks: shopLinks ?? 0, linkCodes: linkCodes ?? 0, settings };
+}
+
+/**
+ * Asks GetInv to drop the Shopify data it cached for the shop
+ * Retryable failures are thrown; a rejection is reported so the audit shows a partial redaction.
+ */
+async function redactGetInvData(shop: string, adminId: string): Promise<{ deleted: Record<string, number>; error?: string }> {
+  const jwt = await mintAppJwt(adminId);
+  const r = await callEdgeFunction(REDACT_FUNCTION, jwt, { shopDomain: shop });
+
+  if (!r.ok) {
+    if (r.error.retryable) throw new Error(`${REDACT_FUNCTION} failed: ${r.error.message}`);
+    return { deleted: {}, error: `${REDACT_FUNCTION} rejected the request (status ${r.status}): ${r.error.message}` };
+  }
+
+  // The function reports per-table counts, e.g. { deleted: { products: 120, variants: 340 } }
+  const reported = (r.data as { deleted?: Record<string, unknown> } | null)?.deleted ?? {};
+  const deleted: Record<string, number> = {};
+  for (const [table, count] of Object.entries(reported)) {
+    if (typeof count === "number") deleted[`getinv.${table}`] = count;
+  }
+
+  return { deleted };
+}
+
+/**
+ * Redacts all data held for `shop` and records the outcome in the compliance request log
+ */
+export async function redactShop(
+  shop: string,
+  { webhookId, keepWebhookEventId }: { webhookId?: string; keepWebhookEventId?: string } = {}
+): Promise<ShopRedactionResult> {
+  const adminId = await findRedactedTenant(shop);
+  const errors: string[] = [];
+
+  // GetInv first: it needs the tenant, which we can only prove while the link exists
+  let getInv: Record<string, number> = {};
+  if (adminId) {
+    const result = await redactGetInvData(shop, adminId);
+    getInv = result.deleted;
+    if (result.error) errors.push(result.error);
+  }
+
+  const supabase = await redactSupabaseData(shop, adminId);
+  const local = await redactLocalData(shop, keepWebhookEventId);
+
+  const deleted = { ...local, ...supabase, ...getInv };
+
+  await completeComplianceRequest({
+    shop,
+    topic: REDACT_TOPIC,
+    webhookId,
+    adminId,
+    outcome: errors.length > 0 ? "partial" : "completed",
+    recordsAffected: deleted,
+    errors,
+  });
+
+  console.log(`[Compliance] Shop redaction for ${shop}:`, { adminId, deleted, errors });
+
+  return { adminId, deleted, errors };
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  syncJob: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+
+vi.mock("../db.server", () => ({ default: db }));
+
+const { cancelSyncJob, claimNextSyncJob, finishSyncJob } = await import("./sync-jobs.server");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  db.syncJob.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe("claimNextSyncJob", () => {
+  it("moves the oldest queued job to running", async () => {
+    db.syncJob.findFirst.mockResolvedValue({ id: "job_1" });
+    db.syncJob.findUnique.mockResolvedValue({ id: "job_1", status: "running" });
+
+    const job = await claimNextSyncJob();
+
+    expect(job).toMatchObject({ id: "job_1", status: "running" });
+    expect(db.syncJob.updateMany).toHaveBeenCalledWith({
+      where: { id: "job_1", status: "queued" },
+      data: { status: "running", startedAt: expect.any(Date) },
+    });
+  });
+
+  it("moves on to the next job when another worker claimed it first", async () => {
+    db.syncJob.findFirst.mockResolvedValueOnce({ id: "job_1" }).mockResolvedValueOnce({ id: "job_2" });
+    db.syncJob.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+    db.syncJob.findUnique.mockResolvedValue({ id: "job_2", status: "running" });
+
+    const job = await claimNextSyncJob();
+
+    expect(job?.id).toBe("job_2");
+    expect(db.syncJob.findUnique).toHaveBeenCalledWith({ where: { id: "job_2" } });
+  });
+
+  it("returns null when the queue is empty", async () => {
+    db.syncJob.findFirst.mockResolvedValue(null);
+
+    expect(await claimNextSyncJob()).toBeNull();
+    expect(db.syncJob.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("cancelSyncJob", () => {
+  it("reports whether the job was still active", async () => {
+    db.syncJob.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await cancelSyncJob("job_1", "Cancelled by the merchant")).toBe(false);
+    expect(db.syncJob.updateMany.mock.calls[0][0].where).toEqual({ id: "job_1", status: { in: ["queued", "running"] } });
+  });
+});
+
+describe("finishSyncJob", () => {
+  it("records a failed call with its status and error, and leaves closed jobs alone", async () => {
+    await finishSyncJob("job_1", {
+      ok: false,
+      status: 502,
+      data: null,
+      attempts: 1,
+      error: { kind: "http", message: "shopify-pull-products responded with status 502", retryable: true },
+    });
+
+    const { where, data } = db.syncJob.updateMany.mock.calls[0][0];
+    expect(where).toEqual({ id: "job_1", status: { in: ["queued", "running"] } });
+    expect(data).toMatchObject({
+      status: "failed",
+      httpStatus: 502,
+      error: { message: "shopify-pull-products responded with status 502", kind: "http", retryable: true },
+    });
+  });
+
+  it("stores counts and per-item outcomes of a finished push", async () => {
+    const result = await finishSyncJob("job_1", {
+      ok: true,
+      status: 200,
+      data: { counts: { processed: 2, updated: 1 }, items: [{ status: "updated", sku: "A-1" }] },
+    });
+
+    expect(result?.items).toEqual([expect.objectContaining({ status: "updated", sku: "A-1" })]);
+    const { data } = db.syncJob.updateMany.mock.calls[0][0];
+    expect(data).toMatchObject({ status: "succeeded", httpStatus: 200, counts: { processed: 2, updated: 1 } });
+  });
+
+  it("stores the preview of a dry run the function confirmed", async () => {
+    await finishSyncJob(
+      "job_1",
+      { ok: true, status: 200, data: { dryRun: true, preview: { products: { create: 2, update: 1, unchanged: 5 } } } },
+      { dryRun: true }
+    );
+
+    const { data } = db.syncJob.updateMany.mock.calls[0][0];
+    expect(data.status).toBe("succeeded");
+    expect(data.preview.products).toMatchObject({ create: 2, update: 1, unchanged: 5 });
+  });
+
+  it("fails a dry run whose response doesn't confirm it was one", async () => {
+    const result = await finishSyncJob(
+      "job_1",
+      { ok: true, status: 200, data: { preview: { products: { create: 2 } } } },
+      { dryRun: true }
+    );
+
+    expect(result).toBeNull();
+    const { data } = db.syncJob.updateMany.mock.calls[0][0];
+    expect(data.status).toBe("failed");
+    expect(data.error.message).toMatch(/did not confirm this was a dry run/);
+    expect(data).not.toHaveProperty("preview");
+  });
+});
@@ -0,0 +1,470 @@
+import type { Prisma, SyncJob } from "@prisma/client";
+import prisma from "../db.server";
+import type { SyncJobIntent, SyncJobStatus } from "../utils/validation.server";
+import { confirmsDryRun, extractPushPreview } from "./sync-preview.server";
+
+/**
+ * Sync job records
+ *
+ * Every /api/sync intent is written to the SyncJob table so we can answer
+ * "what happened to last night's push" without digging through Vercel logs.
+ *
+ * Pull/push intents, audits and reconciliations are queued here and executed later
+ * by the sync worker (see sync-worker.server.ts); toggle_auto runs inline and is
+ * recorded directly.
+ */
+
+export interface SyncJobCounts {
+  total?: number;
+  processed?: number;
+  created?: number;
+  updated?: number;
+  skipped?: number;
+  failed?: number;
+}
+
+export type SyncItemStatus = "created" | "updated" | "synced" | "skipped" | "failed";
+
+// Per-product (or per-variant) outcome reported by an edge function
+export interface SyncItemOutcome {
+  status: SyncItemStatus;
+  productId?: string;
+  variantId?: string;
+  sku?: string;
+  title?: string;
+  message?: string;
+}
+
+// Stored in SyncJob.result for pulls and pushes; a reconcile job stores its report there instead
+export interface SyncJobResult {
+  items: SyncItemOutcome[];
+  totalItems: number;
+  truncated: boolean;
+}
+
+// A list row; `result` and `preview` can be large and are only loaded for a single job
+export type SyncJobSummary = Omit<SyncJob, "result" | "preview">;
+
+export interface EdgeFunctionOutcome {
+  ok: boolean;
+  status: number;
+  data: unknown;
+  attempts?: number;
+  error?: { kind: string; message: string; retryable: boolean };
+}
+
+const COUNT_KEYS: (keyof SyncJobCounts)[] = ["total", "processed", "created", "updated", "skipped", "failed"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Pulls item counts out of an edge function response
+ * The edge functions report counts either at the top level or under `counts` / `summary`
+ */
+export function extractSyncCounts(data: unknown): SyncJobCounts | null {
+  if (!isRecord(data)) return null;
+
+  const sources = [data, data.counts, data.summary].filter(isRecord);
+  const counts: SyncJobCounts = {};
+
+  for (const key of COUNT_KEYS) {
+    for (const source of sources) {
+      const value = source[key];
+      if (typeof value === "number" && Number.isFinite(value)) {
+        counts[key] = value;
+        break;
+      }
+    }
+  }
+
+  return Object.keys(counts).length > 0 ? counts : null;
+}
+
+// Keeps the result column bounded for very large catalogs
+const MAX_STORED_ITEMS = 2000;
+
+// Where the edge functions put per-item details
+const ITEM_ARRAY_KEYS = ["results", "items", "products", "outcomes", "details"];
+const FAILURE_ARRAY_KEYS = ["errors", "failures", "failed_items"];
+
+const ITEM_STATUS_ALIASES: Record<string, SyncItemStatus> = {
+  created: "created",
+  create: "created",
+  inserted: "created",
+  new: "created",
+  updated: "updated",
+  update: "updated",
+  changed: "updated",
+  synced: "synced",
+  success: "synced",
+  succeeded: "synced",
+  ok: "synced",
+  pushed: "synced",
+  pulled: "synced",
+  skipped: "skipped",
+  skip: "skipped",
+  unchanged: "skipped",
+  ignored: "skipped",
+  failed: "failed",
+  failure: "failed",
+  error: "failed",
+};
+
+function stringField(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value) return value;
+    if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  }
+  return undefined;
+}
+
+function toItemOutcome(value: unknown, fallbackStatus: SyncItemStatus): SyncItemOutcome | null {
+  if (!isRecord(value)) return null;
+
+  const message =
+    stringField(value, ["error", "message", "reason"]) ??
+    (isRecord(value.error) ? stringField(value.error, ["message"]) : undefined);
+
+  const rawStatus = stringField(value, ["status", "action", "result", "outcome"])?.toLowerCase();
+  let status = rawStatus ? ITEM_STATUS_ALIASES[rawStatus] : undefined;
+  if (!status && value.success === false) status = "failed";
+  if (!status && value.success === true) status = "synced";
+  if (!status) status = value.error ? "failed" : fallbackStatus;
+
+  const item: SyncItemOutcome = {
+    status,
+    // No bare "id": on GetInv items that is GetInv's own id, not the Shopify product's
+    productId: stringField(value, ["shopify_product_id", "product_id", "productId"]),
+    variantId: stringField(value, ["shopify_variant_id", "variant_id", "variantId"]),
+    sku: stringField(value, ["sku", "SKU"]),
+    title: stringField(value, ["title", "name", "product_title"]),
+    message,
+  };
+
+  // Drop undefined keys so the stored JSON stays compact
+  return Object.fromEntries(Object.entries(item).filter(([, v]) => v !== undefined)) as unknown as SyncItemOutcome;
+}
+
+/**
+ * Pulls per-item outcomes out of an edge function response
+ * Returns null when the response has no item-level details.
+ */
+export function extractItemOutcomes(data: unknown): SyncJobResult | null {
+  if (!isRecord(data)) return null;
+
+  const sources = [data, data.summary, data.result].filter(isRecord);
+  const items: SyncItemOutcome[] = [];
+
+  for (const source of sources) {
+    for (const key of ITEM_ARRAY_KEYS) {
+      const list = source[key];
+      if (!Array.isArray(list)) continue;
+      for (const entry of list) {
+        const item = toItemOutcome(entry, "synced");
+        if (item) items.push(item);
+      }
+    }
+    for (const key of FAILURE_ARRAY_KEYS) {
+      const list = source[key];
+      if (!Array.isArray(list)) continue;
+      for (const entry of list) {
+        const item = typeof entry === "string" ? { status: "failed" as const, message: entry } : toItemOutcome(entry, "failed");
+        if (item) items.push(item);
+      }
+    }
+  }
+
+  if (items.length === 0) return null;
+
+  // Failures first, so truncation never hides them
+  const ordered = [...items.filter((i) => i.status === "failed"), ...items.filter((i) => i.status !== "failed")];
+
+  return {
+    items: ordered.slice(0, MAX_STORED_ITEMS),
+    totalItems: items.length,
+    truncated: items.length > MAX_STORED_ITEMS,
+  };
+}
+
+/**
+ * Builds the error payload stored on a failed job
+ */
+function errorPayloadFromOutcome(outcome: EdgeFunctionOutcome): Prisma.InputJsonValue {
+  const data = isRecord(outcome.data) ? outcome.data : null;
+  const message =
+    (typeof data?.error === "string" && data.error) ||
+    (typeof data?.message === "string" && data.message) ||
+    outcome.error?.message ||
+    `Edge function responded with status ${outcome.status}`;
+
+  return {
+    message,
+    status: outcome.status,
+    ...(outcome.error && { kind: outcome.error.kind, retryable: outcome.error.retryable }),
+    ...(outcome.attempts !== undefined && { attempts: outcome.attempts }),
+    ...(outcome.data !== null && outcome.data !== undefined && { body: outcome.data as Prisma.InputJsonValue }),
+  };
+}
+
+/**
+ * Queues a pull/push intent for the worker
+ * `payload` is the request body sent to the edge function
+ */
+export async function enqueueSyncJob(input: {
+  id?: string;
+  shop: string;
+  adminId: string;
+  intent: SyncJobIntent;
+  mode?: string | null;
+  dryRun?: boolean;
+  payload?: Prisma.InputJsonValue;
+}): Promise<SyncJob> {
+  return prisma.syncJob.create({
+    data: {
+      ...(input.id && { id: input.id }),
+      shop: input.shop,
+      adminId: input.adminId,
+      intent: input.intent,
+      mode: input.mode ?? null,
+      dryRun: input.dryRun ?? false,
+      status: "queued",
+      payload: input.payload ?? {},
+    },
+  });
+}
+
+/**
+ * Atomically moves the oldest queued job to "running"
+ * Returns null when the queue is empty. Safe to call from concurrent workers:
+ * the status guard on the update means only one of them wins a given job.
+ * Jobs with an intent in `exceptIntents` stay queued for a later run.
+ */
+export async function claimNextSyncJob({ exceptIntents }: { exceptIntents?: string[] } = {}): Promise<SyncJob | null> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const next = await prisma.syncJob.findFirst({
+      where: { status: "queued", ...(exceptIntents?.length && { intent: { notIn: exceptIntents } }) },
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (!next) return null;
+
+    const { count } = await prisma.syncJob.updateMany({
+      where: { id: next.id, status: "queued" },
+      data: { status: "running", startedAt: new Date() },
+    });
+
+    if (count === 1) {
+      return prisma.syncJob.findUnique({ where: { id: next.id } });
+    }
+    // Another worker claimed it first - try the next one
+  }
+
+  return null;
+}
+
+/**
+ * Fails jobs that have been "running" longer than `maxAgeMs`
+ * (the worker invocation that owned them was killed or timed out)
+ */
+export async function failStaleSyncJobs(maxAgeMs: number): Promise<number> {
+  const { count } = await prisma.syncJob.updateMany({
+    where: {
+      status: "running",
+      startedAt: { lt: new Date(Date.now() - maxAgeMs) },
+    },
+    data: {
+      status: "failed",
+      finishedAt: new Date(),
+      error: { message: `Job did not finish within ${Math.round(maxAgeMs / 60000)} minutes and was marked failed` },
+    },
+  });
+
+  return count;
+}
+
+/**
+ * Loads a single job, scoped to the shop that owns it
+ */
+export async function getSyncJob(shop: string, id: string): Promise<SyncJob | null> {
+  return prisma.syncJob.findFirst({ where: { id, shop } });
+}
+
+/**
+ * Loads a single job for status polling, without `result` (a reconcile job keeps its whole report there)
+ * `preview` is kept: it is what a dry run's poller shows.
+ */
+export async function getSyncJobStatus(shop: string, id: string): Promise<Omit<SyncJob, "result"> | null> {
+  return prisma.syncJob.findFirst({ where: { id, shop }, omit: { result: true } });
+}
+
+/**
+ * Records the start of an intent that runs inline (toggle_auto)
+ */
+export async function startSyncJob(input: {
+  id?: string;
+  shop: string;
+  adminId: string;
+  intent: SyncJobIntent;
+  mode?: string | null;
+}): Promise<SyncJob> {
+  return prisma.syncJob.create({
+    data: {
+      ...(input.id && { id: input.id }),
+      shop: input.shop,
+      adminId: input.adminId,
+      intent: input.intent,
+      mode: input.mode ?? null,
+      status: "running",
+      startedAt: new Date(),
+    },
+  });
+}
+
+// Only jobs that are still active can be closed; a cancelled job keeps its status
+// even if its edge function call returns afterwards
+const ACTIVE_STATUSES = ["queued", "running"];
+
+/**
+ * Records the outcome of an edge function call (or any HTTP-like result)
+ * Dry runs store the normalized preview instead of per-item outcomes; one whose
+ * response doesn't confirm it was a dry run is failed.
+ * Returns the stored per-item outcomes, if any.
+ */
+export async function finishSyncJob(
+  id: string,
+  outcome: EdgeFunctionOutcome,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<SyncJobResult | null> {
+  if (dryRun && outcome.ok && !confirmsDryRun(outcome.data)) {
+    console.error(`[SyncJobs] Job ${id} was a dry run but the push response did not confirm it; it may have written to Shopify`);
+    await failSyncJob(
+      id,
+      new Error(
+        "The push function did not confirm this was a dry run, so it may have written to Shopify. Check the store, and turn previews off until the function supports dryRun."
+      ),
+      outcome.status
+    );
+    return null;
+  }
+
+  const counts = extractSyncCounts(outcome.data);
+  const result = dryRun ? null : extractItemOutcomes(outcome.data);
+  const preview = dryRun && outcome.ok ? extractPushPreview(outcome.data) : null;
+
+  await prisma.syncJob.updateMany({
+    where: { id, status: { in: ACTIVE_STATUSES } },
+    data: {
+      status: outcome.ok ? "succeeded" : "failed",
+      finishedAt: new Date(),
+      httpStatus: outcome.status,
+      ...(counts && { counts: counts as Prisma.InputJsonValue }),
+      ...(result && { result: result as unknown as Prisma.InputJsonValue }),
+      ...(preview && { preview: preview as unknown as Prisma.InputJsonValue }),
+      ...(!outcome.ok && { error: errorPayloadFromOutcome(outcome) }),
+    },
+  });
+
+  return result;
+}
+
+// What a job the worker runs itself reports back
+export interface LocalJobOutcome {
+  counts: SyncJobCounts | null;
+  result?: Prisma.InputJsonValue;
+}
+
+/**
+ * Records a job the worker ran itself, without an edge function call (e.g. an audit)
+ */
+export async function completeSyncJob(id: string, { counts, result }: LocalJobOutcome): Promise<void> {
+  await prisma.syncJob.updateMany({
+    where: { id, status: { in: ACTIVE_STATUSES } },
+    data: {
+      status: "succeeded",
+      finishedAt: new Date(),
+      ...(counts && { counts: counts as Prisma.InputJsonValue }),
+      ...(result !== undefined && { result }),
+    },
+  });
+}
+
+/**
+ * Marks a job as failed because of an exception or a local error
+ */
+export async function failSyncJob(id: string, error: unknown, httpStatus?: number): Promise<void> {
+  await prisma.syncJob.updateMany({
+    where: { id, status: { in: ACTIVE_STATUSES } },
+    data: {
+      status: "failed",
+      finishedAt: new Date(),
+      httpStatus: httpStatus ?? null,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+      },
+    },
+  });
+}
+
+/**
+ * Cancels a queued or running job (the worker skips or ignores it from then on)
+ */
+export async function cancelSyncJob(id: string, reason: string): Promise<boolean> {
+  const { count } = await prisma.syncJob.updateMany({
+    where: { id, status: { in: ACTIVE_STATUSES } },
+    data: {
+      status: "cancelled",
+      finishedAt: new Date(),
+      error: { message: reason },
+    },
+  });
+  return count === 1;
+}
+
+/**
+ * Cancels every queued or running job for a shop (e.g. when the app is uninstalled)
+ * `intents` limits it to those intents (e.g. when a scope they need is revoked).
+ */
+export async function cancelActiveSyncJobs(shop: string, reason: string, intents?: SyncJobIntent[]): Promise<number> {
+  const { count } = await prisma.syncJob.updateMany({
+    where: { shop, status: { in: ACTIVE_STATUSES }, ...(intents && { intent: { in: intents } }) },
+    data: {
+      status: "cancelled",
+      finishedAt: new Date(),
+      error: { message: reason },
+    },
+  });
+  return count;
+}
+
+/**
+ * Lists jobs for a shop, newest first
+ */
+export async function listSyncJobs(input: {
+  shop: string;
+  intent?: SyncJobIntent;
+  status?: SyncJobStatus;
+  page: number;
+  pageSize: number;
+}): Promise<{ jobs: SyncJobSummary[]; total: number }> {
+  const where: Prisma.SyncJobWhereInput = {
+    shop: input.shop,
+    ...(input.intent && { intent: input.intent }),
+    ...(input.status && { status: input.status }),
+  };
+
+  const [jobs, total] = await Promise.all([
+    prisma.syncJob.findMany({
+      where,
+      omit: { result: true, preview: true },
+      orderBy: { createdAt: "desc" },
+      skip: (input.page - 1) * input.pageSize,
+      take: input.pageSize,
+    }),
+    prisma.syncJob.count({ where }),
+  ]);
+
+  return { jobs, total };
+}
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  syncLock: {
+    findFirst: vi.fn(),
+    deleteMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  syncJob: {
+    findUnique: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+
+vi.mock("../db.server", () => ({ default: db }));
+
+const { forceReleaseSyncLock } = await import("./sync-lock.server");
+
+const SHOP = "example.myshopify.com";
+const lock = {
+  adminId: "admin_1",
+  shop: SHOP,
+  jobId: "job_1",
+  intent: "push_all",
+  acquiredAt: new Date(),
+  expiresAt: new Date(Date.now() + 20 * 60 * 1000),
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  db.syncLock.findFirst.mockResolvedValue(lock);
+  db.syncJob.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe("forceReleaseSyncLock", () => {
+  it("frees the lock of a job that never started", async () => {
+    db.syncJob.findUnique.mockResolvedValue({ id: "job_1", status: "queued", startedAt: null });
+
+    const result = await forceReleaseSyncLock(SHOP, "stuck");
+
+    expect(result?.freed).toBe(true);
+    expect(db.syncLock.deleteMany).toHaveBeenCalledWith({ where: { adminId: "admin_1", jobId: "job_1" } });
+  });
+
+  it("keeps the lock of a running job until its run must have ended", async () => {
+    const startedAt = new Date(Date.now() - 60 * 1000);
+    db.syncJob.findUnique.mockResolvedValue({ id: "job_1", status: "running", startedAt });
+
+    const result = await forceReleaseSyncLock(SHOP, "stuck");
+
+    expect(result?.freed).toBe(false);
+    expect(db.syncLock.deleteMany).not.toHaveBeenCalled();
+    expect(db.syncLock.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { expiresAt: new Date(startedAt.getTime() + 5 * 60 * 1000) } })
+    );
+    // The job is still cancelled, so its outcome isn't recorded as a success
+    expect(db.syncJob.updateMany).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: "cancelled" }) }));
+  });
+});
@@ -0,0 +1,141 @@
+import { Prisma } from "@prisma/client";
+import type { SyncJob, SyncLock } from "@prisma/client";
+import prisma from "../db.server";
+import { cancelSyncJob } from "./sync-jobs.server";
+
+/**
+ * Per-tenant sync lock
+ *
+ * A lease row keyed by admin_id. Every /api/sync intent takes it, so a pull and
+ * a push_all can no longer run at the same time and race on last_pull_at /
+ * last_push_at in shopify_settings. Leases expire on their own, so a worker
+ * that dies mid-job cannot block the shop forever.
+ */
+
+// Covers queue wait + the longest edge function run; the worker renews it when it starts
+export const SYNC_LOCK_TTL_MS = 20 * 60 * 1000;
+
+// A started job's worker invocation ends within the worker route's 300s maxDuration
+const MAX_JOB_RUN_MS = 5 * 60 * 1000;
+
+export type SyncLockHolder = SyncLock & { job: SyncJob | null };
+
+// `freed` is false when the job's run may still be going: the lease then lasts until it returns
+// (the worker releases it) or until `lock.expiresAt` at the latest
+export type ForceReleaseResult = { lock: SyncLockHolder; freed: boolean };
+
+export type AcquireSyncLockResult =
+  | { acquired: true; lock: SyncLock }
+  | { acquired: false; holder: SyncLockHolder | null };
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+async function withHolderJob(lock: SyncLock): Promise<SyncLockHolder> {
+  const job = await prisma.syncJob.findUnique({ where: { id: lock.jobId } });
+  return { ...lock, job };
+}
+
+/**
+ * Tries to take the lock for `jobId`
+ * Expired leases are taken over; a live lease reports who holds it.
+ */
+export async function acquireSyncLock(input: {
+  adminId: string;
+  shop: string;
+  jobId: string;
+  intent: string;
+  ttlMs?: number;
+}): Promise<AcquireSyncLockResult> {
+  const now = new Date();
+
+  await prisma.syncLock.deleteMany({
+    where: { adminId: input.adminId, expiresAt: { lt: now } },
+  });
+
+  try {
+    const lock = await prisma.syncLock.create({
+      data: {
+        adminId: input.adminId,
+        shop: input.shop,
+        jobId: input.jobId,
+        intent: input.intent,
+        acquiredAt: now,
+        expiresAt: new Date(now.getTime() + (input.ttlMs ?? SYNC_LOCK_TTL_MS)),
+      },
+    });
+    return { acquired: true, lock };
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) throw error;
+  }
+
+  const current = await prisma.syncLock.findUnique({ where: { adminId: input.adminId } });
+  return { acquired: false, holder: current ? await withHolderJob(current) : null };
+}
+
+/**
+ * Extends the lease while its job is still working
+ */
+export async function renewSyncLock(adminId: string, jobId: string, ttlMs = SYNC_LOCK_TTL_MS): Promise<boolean> {
+  const { count } = await prisma.syncLock.updateMany({
+    where: { adminId, jobId },
+    data: { expiresAt: new Date(Date.now() + ttlMs) },
+  });
+  return count === 1;
+}
+
+/**
+ * Releases the lock, but only if `jobId` still owns it
+ */
+export async function releaseSyncLock(adminId: string, jobId: string): Promise<void> {
+  await prisma.syncLock.deleteMany({ where: { adminId, jobId } });
+}
+
+/**
+ * Current lock for a shop, if any (expired leases are reported as free)
+ */
+export async function getSyncLockForShop(shop: string): Promise<SyncLockHolder | null> {
+  const lock = await prisma.syncLock.findFirst({
+    where: { shop, expiresAt: { gte: new Date() } },
+  });
+  return lock ? withHolderJob(lock) : null;
+}
+
+/**
+ * Breaks a stuck lock and cancels the job that held it
+ * A job the worker already started may still be inside its edge function call,
+ * and a new sync must not overlap it, so its lease is only cut short to when
+ * that run must have ended; the worker frees it as soon as the call returns.
+ */
+export async function forceReleaseSyncLock(shop: string, reason: string): Promise<ForceReleaseResult | null> {
+  const lock = await prisma.syncLock.findFirst({ where: { shop } });
+  if (!lock) return null;
+
+  const job = await prisma.syncJob.findUnique({ where: { id: lock.jobId } });
+  await cancelSyncJob(lock.jobId, reason);
+
+  const runEndsAt = job?.startedAt ? new Date(job.startedAt.getTime() + MAX_JOB_RUN_MS) : null;
+  const freed = !runEndsAt || runEndsAt <= new Date();
+
+  if (freed) {
+    await prisma.syncLock.deleteMany({ where: { adminId: lock.adminId, jobId: lock.jobId } });
+  } else {
+    await prisma.syncLock.updateMany({
+      where: { adminId: lock.adminId, jobId: lock.jobId, expiresAt: { gt: runEndsAt } },
+      data: { expiresAt: runEndsAt },
+    });
+  }
+
+  console.warn(`[SyncLock] Force-released lock for ${shop}:`, {
+    jobId: lock.jobId,
+    intent: lock.intent,
+    reason,
+    ...(!freed && { heldUntil: runEndsAt }),
+  });
+
+  return {
+    lock: { ...lock, ...(!freed && runEndsAt < lock.expiresAt && { expiresAt: runEndsAt }), job },
+    freed,
+  };
+}
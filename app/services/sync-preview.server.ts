@@ -0,0 +1,199 @@
+/**
+ * Push previews (dryRun)
+ *
+ * A push intent queued with dryRun: true asks shopify-push-products to report
+ * what it would do without writing to Shopify. This module normalizes that
+ * report into create / update / unchanged buckets for products, variants and
+ * inventory, stored on SyncJob.preview and rendered before the merchant confirms.
+ *
+ * A function that ignores dryRun would run a real push instead, so previews are
+ * off until PUSH_PREVIEW_ENABLED says the deployed function follows the contract in
+ * SUPABASE_EDGE_FUNCTIONS.md, and a response that doesn't echo `dryRun: true`
+ * fails the job instead of being shown as a preview.
+ */
+
+export type PreviewEntity = "products" | "variants" | "inventory";
+export type PreviewAction = "create" | "update" | "unchanged";
+
+export interface PreviewChange {
+  action: Exclude<PreviewAction, "unchanged">;
+  productId?: string;
+  variantId?: string;
+  sku?: string;
+  title?: string;
+  locationId?: string;
+  fields?: string[];
+  from?: number | null;
+  to?: number | null;
+}
+
+export interface PreviewBucket {
+  create: number;
+  update: number;
+  unchanged: number;
+  // Creates and updates only, capped at MAX_SAMPLES
+  samples: PreviewChange[];
+}
+
+export type PushPreview = Record<PreviewEntity, PreviewBucket>;
+
+// Enough rows to eyeball a preview; the counts always cover everything
+const MAX_SAMPLES = 200;
+
+// Keys the edge function may use for each entity
+const ENTITY_KEYS: Record<PreviewEntity, string[]> = {
+  products: ["products", "product"],
+  variants: ["variants", "variant"],
+  inventory: ["inventory", "inventory_levels", "inventoryLevels"],
+};
+
+const ACTION_ALIASES: Record<string, PreviewAction> = {
+  create: "create",
+  created: "create",
+  insert: "create",
+  new: "create",
+  update: "update",
+  updated: "update",
+  change: "update",
+  changed: "update",
+  modify: "update",
+  unchanged: "unchanged",
+  same: "unchanged",
+  noop: "unchanged",
+  none: "unchanged",
+  skip: "unchanged",
+  skipped: "unchanged",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringField(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value) return value;
+    if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  }
+  return undefined;
+}
+
+function numberField(record: Record<string, unknown>, keys: string[]): number | null | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    if (value === null) return null;
+  }
+  return undefined;
+}
+
+function toAction(value: unknown): PreviewAction | undefined {
+  return typeof value === "string" ? ACTION_ALIASES[value.toLowerCase()] : undefined;
+}
+
+function toChange(entry: Record<string, unknown>, action: Exclude<PreviewAction, "unchanged">): PreviewChange {
+  const rawFields = entry.fields ?? entry.changed_fields ?? entry.changes;
+  const fields = Array.isArray(rawFields)
+    ? rawFields.filter((f): f is string => typeof f === "string")
+    : isRecord(rawFields)
+      ? Object.keys(rawFields)
+      : undefined;
+
+  const change: PreviewChange = {
+    action,
+    productId: stringField(entry, ["shopify_product_id", "product_id", "productId"]),
+    variantId: stringField(entry, ["shopify_variant_id", "variant_id", "variantId"]),
+    sku: stringField(entry, ["sku", "SKU"]),
+    title: stringField(entry, ["title", "name", "product_title"]),
+    locationId: stringField(entry, ["location_id", "locationId", "location"]),
+    fields: fields && fields.length > 0 ? fields : undefined,
+    from: numberField(entry, ["from", "before", "current", "old"]),
+    to: numberField(entry, ["to", "after", "target", "new", "available"]),
+  };
+
+  return Object.fromEntries(Object.entries(change).filter(([, v]) => v !== undefined)) as unknown as PreviewChange;
+}
+
+function emptyBucket(): PreviewBucket {
+  return { create: 0, update: 0, unchanged: 0, samples: [] };
+}
+
+function addEntry(bucket: PreviewBucket, action: PreviewAction, entry: unknown) {
+  bucket[action] += 1;
+  if (action !== "unchanged" && isRecord(entry) && bucket.samples.length < MAX_SAMPLES) {
+    bucket.samples.push(toChange(entry, action));
+  }
+}
+
+/**
+ * Accepts either a flat list of changes with an `action` field, or an object
+ * keyed by action whose values are lists or plain counts
+ */
+function normalizeEntity(value: unknown): PreviewBucket | null {
+  const bucket = emptyBucket();
+
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      if (!isRecord(entry)) continue;
+      const action = toAction(entry.action ?? entry.op ?? entry.change ?? entry.status) ?? "update";
+      addEntry(bucket, action, entry);
+    }
+    return bucket;
+  }
+
+  if (!isRecord(value)) return null;
+
+  let found = false;
+  for (const [key, list] of Object.entries(value)) {
+    const action = toAction(key);
+    if (!action) continue;
+    found = true;
+
+    if (typeof list === "number" && Number.isFinite(list)) {
+      bucket[action] += list;
+    } else if (Array.isArray(list)) {
+      for (const entry of list) addEntry(bucket, action, entry);
+    }
+  }
+
+  return found ? bucket : null;
+}
+
+/**
+ * Whether the deployed shopify-push-products is known to honor dryRun
+ */
+export function isPushPreviewEnabled(): boolean {
+  return process.env.PUSH_PREVIEW_ENABLED === "true";
+}
+
+/**
+ * Whether a push response says it was a dry run; anything else may have written to Shopify
+ */
+export function confirmsDryRun(data: unknown): boolean {
+  return isRecord(data) && data.dryRun === true;
+}
+
+/**
+ * Normalizes a dry-run response from shopify-push-products
+ * Returns null when the response carries no preview data.
+ */
+export function extractPushPreview(data: unknown): PushPreview | null {
+  if (!isRecord(data)) return null;
+
+  const root = [data.preview, data.diff, data.plan, data].find(isRecord) as Record<string, unknown>;
+  const preview: PushPreview = { products: emptyBucket(), variants: emptyBucket(), inventory: emptyBucket() };
+  let found = false;
+
+  for (const [entity, keys] of Object.entries(ENTITY_KEYS) as [PreviewEntity, string[]][]) {
+    for (const key of keys) {
+      const bucket = normalizeEntity(root[key]);
+      if (bucket) {
+        preview[entity] = bucket;
+        found = true;
+        break;
+      }
+    }
+  }
+
+  return found ? preview : null;
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const jobs = vi.hoisted(() => ({
+  claimNextSyncJob: vi.fn(),
+  completeSyncJob: vi.fn(),
+  failStaleSyncJobs: vi.fn(),
+  failSyncJob: vi.fn(),
+  finishSyncJob: vi.fn(),
+}));
+
+vi.mock("./sync-jobs.server", () => jobs);
+vi.mock("./edge-functions.server", () => ({ callEdgeFunction: vi.fn(), mintAppJwt: vi.fn() }));
+vi.mock("./inventory-audit.server", () => ({ runInventoryAuditJob: vi.fn() }));
+vi.mock("./reconciliation.server", () => ({ runReconciliationJob: vi.fn() }));
+vi.mock("./idempotency.server", () => ({ purgeExpiredIdempotencyKeys: vi.fn() }));
+vi.mock("./echo-guard.server", () => ({ purgeExpiredEchoGuards: vi.fn(), recordPushedProducts: vi.fn() }));
+vi.mock("./sync-lock.server", () => ({ acquireSyncLock: vi.fn(), releaseSyncLock: vi.fn(), renewSyncLock: vi.fn() }));
+vi.mock("./product-links.server", () => ({ getSyncProductLinks: vi.fn(), recordReportedLinks: vi.fn() }));
+vi.mock("./tenant-resolver.server", () => ({ resolveTenant: vi.fn() }));
+
+const { drainSyncQueue } = await import("./sync-worker.server");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers();
+  jobs.failStaleSyncJobs.mockResolvedValue(0);
+  jobs.claimNextSyncJob.mockResolvedValue(null);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("drainSyncQueue", () => {
+  it("claims any job early in the invocation", async () => {
+    await drainSyncQueue();
+
+    expect(jobs.claimNextSyncJob).toHaveBeenCalledWith({});
+  });
+
+  it("leaves audits and reconciliations queued when they could not finish before maxDuration", async () => {
+    // Housekeeping ran long: 140s of the invocation are gone before the first claim
+    jobs.failStaleSyncJobs.mockImplementation(async () => {
+      vi.setSystemTime(Date.now() + 140 * 1000);
+      return 0;
+    });
+
+    await drainSyncQueue({ budgetMs: 200 * 1000 });
+
+    expect(jobs.claimNextSyncJob).toHaveBeenCalledWith({ exceptIntents: ["audit", "reconcile"] });
+  });
+});
@@ -0,0 +1,239 @@
+import { timingSafeEqual } from "node:crypto";
+import type { SyncJob } from "@prisma/client";
+import { waitUntil } from "@vercel/functions";
+import { callEdgeFunction, mintAppJwt } from "./edge-functions.server";
+import { runInventoryAuditJob } from "./inventory-audit.server";
+import { runReconciliationJob } from "./reconciliation.server";
+import {
+  claimNextSyncJob,
+  completeSyncJob,
+  failStaleSyncJobs,
+  failSyncJob,
+  finishSyncJob,
+  type LocalJobOutcome,
+} from "./sync-jobs.server";
+import { purgeExpiredIdempotencyKeys } from "./idempotency.server";
+import { acquireSyncLock, releaseSyncLock, renewSyncLock } from "./sync-lock.server";
+import { purgeExpiredEchoGuards, recordPushedProducts } from "./echo-guard.server";
+import { getSyncProductLinks, recordReportedLinks } from "./product-links.server";
+import { resolveTenant } from "./tenant-resolver.server";
+
+/**
+ * Sync worker
+ *
+ * Drains queued SyncJob rows by calling the matching Supabase edge function,
+ * or, for jobs that read Shopify through the Admin API (audits, reconciliations), by running them here.
+ * Runs in its own serverless invocation (/api/sync/worker), triggered by
+ * Vercel Cron every minute and kicked right after a job is queued, so a long
+ * push_all no longer holds the merchant's request open. An every-minute cron
+ * needs the Vercel Pro plan; on Hobby, crons run at most once a day.
+ */
+
+// Edge function that executes each queued intent
+const EDGE_FUNCTION_BY_INTENT: Record<string, string> = {
+  pull: "shopify-pull-products",
+  push_changed: "shopify-push-products",
+  push_all: "shopify-push-products",
+};
+
+// Jobs the worker runs itself; they return the counts (and any result) stored on the job
+const LOCAL_JOB_RUNNERS: Record<string, (job: SyncJob) => Promise<LocalJobOutcome>> = {
+  audit: runInventoryAuditJob,
+  reconcile: runReconciliationJob,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Jobs stuck in "running" longer than this lost their worker and are failed
+const STALE_JOB_AFTER_MS = 15 * 60 * 1000;
+
+// Wait a little past Supabase's 150s wall-clock limit so a slow run isn't abandoned while it
+// still writes. One attempt: a push or pull that timed out may have done its work anyway.
+const EDGE_FUNCTION_OPTIONS = { timeoutMs: 160 * 1000, maxAttempts: 1 };
+
+// How long a request waits on the worker kick; the worker has received it well before then
+const TRIGGER_WAIT_MS = 5 * 1000;
+
+// Stop claiming new jobs once this much of the invocation budget is used; a job claimed
+// just before then still finishes inside the worker route's 300s maxDuration
+const DEFAULT_DRAIN_BUDGET_MS = 2 * 60 * 1000;
+
+// The longest a job the worker runs itself takes: its reads stop after 2 minutes,
+// then the last Shopify page and writing the result
+const LOCAL_JOB_MAX_MS = 150 * 1000;
+
+// The worker route's 300s maxDuration, less time to record an outcome and release the lock
+const INVOCATION_LIMIT_MS = 280 * 1000;
+
+/**
+ * Executes one claimed job and records its outcome
+ * The tenant's sync lock (taken when the job was queued) is released afterwards.
+ */
+export async function processSyncJob(job: SyncJob): Promise<void> {
+  const fnName = EDGE_FUNCTION_BY_INTENT[job.intent];
+  const runLocally = LOCAL_JOB_RUNNERS[job.intent];
+
+  if (!fnName && !runLocally) {
+    await failSyncJob(job.id, new Error(`No edge function for intent "${job.intent}"`));
+    await releaseSyncLock(job.adminId, job.id);
+    return;
+  }
+
+  // Push the lease out now that the job actually starts. If it expired while the
+  // job sat in the queue, take it again - unless another run got there first.
+  if (!(await renewSyncLock(job.adminId, job.id))) {
+    const retry = await acquireSyncLock({ adminId: job.adminId, shop: job.shop, jobId: job.id, intent: job.intent });
+    if (!retry.acquired) {
+      console.warn(`[SyncWorker] Job ${job.id} lost the sync lock for ${job.shop}`, { holder: retry.holder?.jobId });
+      await failSyncJob(job.id, new Error("Another sync took over this shop's sync lock before the job started"));
+      return;
+    }
+  }
+
+  try {
+    // An uninstall or relink handled by another instance isn't in this one's tenant cache
+    const tenant = await resolveTenant(job.shop, { fresh: true });
+    if (tenant.error) throw new Error(`Could not resolve tenant for ${job.shop}: ${tenant.error.message}`);
+    if (tenant.adminId !== job.adminId) {
+      console.warn(`[SyncWorker] Job ${job.id} skipped: ${job.shop} is no longer linked to the job's tenant`);
+      await failSyncJob(job.id, new Error("The shop was uninstalled or linked to another GetInv account after the job was queued"));
+      return;
+    }
+
+    if (runLocally) {
+      console.log(`[SyncWorker] Running job ${job.id}:`, { intent: job.intent, shop: job.shop });
+      await completeSyncJob(job.id, await runLocally(job));
+      console.log(`[SyncWorker] Job ${job.id} finished`);
+      return;
+    }
+
+    console.log(`[SyncWorker] Running job ${job.id}:`, { intent: job.intent, dryRun: job.dryRun, shop: job.shop, fnName });
+    const jwt = await mintAppJwt(job.adminId);
+    // Known item <-> variant pairs, as of now; the edge functions match by link first and by SKU for the rest
+    const links = await getSyncProductLinks(job.shop, job.adminId);
+    const payload = {
+      ...(isRecord(job.payload) && job.payload),
+      ...(links.length > 0 && { productLinks: links }),
+    };
+    const r = await callEdgeFunction(fnName, jwt, payload, {
+      ...EDGE_FUNCTION_OPTIONS,
+      // Lets the function drop a second delivery of the same job
+      idempotencyKey: job.id,
+    });
+    const result = await finishSyncJob(job.id, r, { dryRun: job.dryRun });
+
+    // Even a failed push may have written some products, so guard whatever it reports
+    if (result && job.intent.startsWith("push") && !job.dryRun) {
+      const guarded = await recordPushedProducts(job, result).catch((error) => {
+        console.warn(`[SyncWorker] Could not record pushed products for job ${job.id}:`, error);
+        return 0;
+      });
+      if (guarded > 0) console.log(`[SyncWorker] Guarding ${guarded} pushed product(s) against webhook echoes`);
+    }
+
+    // Keep the item <-> variant pairs the run matched, partial runs included
+    if ((job.intent === "pull" || job.intent.startsWith("push")) && !job.dryRun) {
+      const linked = await recordReportedLinks(job, r.data).catch((error) => {
+        console.warn(`[SyncWorker] Could not record product links for job ${job.id}:`, error);
+        return 0;
+      });
+      if (linked > 0) console.log(`[SyncWorker] Recorded ${linked} product link(s) for ${job.shop}`);
+    }
+
+    console.log(`[SyncWorker] Job ${job.id} finished:`, {
+      ok: r.ok,
+      status: r.status,
+      attempts: r.attempts,
+      durationMs: r.durationMs,
+      ...(!r.ok && { errorKind: r.error.kind }),
+    });
+  } catch (e) {
+    console.error(`[SyncWorker] Job ${job.id} failed:`, e);
+    await failSyncJob(job.id, e);
+  } finally {
+    await releaseSyncLock(job.adminId, job.id);
+  }
+}
+
+/**
+ * Processes queued jobs one at a time until the queue is empty
+ * or the time budget for this invocation is spent
+ */
+export async function drainSyncQueue({
+  budgetMs = DEFAULT_DRAIN_BUDGET_MS,
+  maxJobs = 25,
+}: { budgetMs?: number; maxJobs?: number } = {}): Promise<{ processed: string[]; staleFailed: number }> {
+  const startedAt = Date.now();
+  const deadline = startedAt + budgetMs;
+  const processed: string[] = [];
+
+  const staleFailed = await failStaleSyncJobs(STALE_JOB_AFTER_MS);
+  if (staleFailed > 0) {
+    console.warn(`[SyncWorker] Marked ${staleFailed} stale job(s) as failed`);
+  }
+
+  // Housekeeping: idempotency keys are only replayed within their window
+  await purgeExpiredIdempotencyKeys();
+  await purgeExpiredEchoGuards();
+
+  while (processed.length < maxJobs && Date.now() < deadline) {
+    // An audit or reconciliation claimed too late would be cut off by maxDuration with the lock held;
+    // it stays queued for the next run
+    const localJobsFit = Date.now() + LOCAL_JOB_MAX_MS <= startedAt + INVOCATION_LIMIT_MS;
+    const job = await claimNextSyncJob(localJobsFit ? {} : { exceptIntents: Object.keys(LOCAL_JOB_RUNNERS) });
+    if (!job) break;
+
+    await processSyncJob(job);
+    processed.push(job.id);
+  }
+
+  return { processed, staleFailed };
+}
+
+/**
+ * Checks the worker's shared secret
+ * Vercel Cron sends `Authorization: Bearer $CRON_SECRET` automatically
+ */
+export function isAuthorizedWorkerRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const provided = Buffer.from(request.headers.get("Authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Kicks the worker so a freshly queued job starts right away
+ * Vercel freezes a function once its response is sent, which drops a bare fetch,
+ * so the request is handed to waitUntil. It is only waited on until the worker has
+ * received it; the worker answers after running its jobs and keeps running without us.
+ * If it still never lands, the next cron tick picks the job up.
+ */
+export function triggerSyncWorker(request: Request): void {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.warn(`[SyncWorker] CRON_SECRET not set - queued jobs will wait for the next cron run`);
+    return;
+  }
+
+  const baseUrl = process.env.SHOPIFY_APP_URL || new URL(request.url).origin;
+
+  waitUntil(
+    fetch(`${baseUrl}/api/sync/worker`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}` },
+      signal: AbortSignal.timeout(TRIGGER_WAIT_MS),
+    }).then(
+      () => undefined,
+      (error) => {
+        // The worker is busy with the job; nothing went wrong
+        if (error instanceof Error && error.name === "TimeoutError") return;
+        console.warn(`[SyncWorker] Failed to trigger worker:`, error instanceof Error ? error.message : error);
+      }
+    )
+  );
+}
@@ -0,0 +1,349 @@
+import { createHash } from "node:crypto";
+import { supabaseAdmin } from "../supabase.server";
+import { validateAdminId } from "../utils/validation.server";
+import { getSyncLockForShop } from "./sync-lock.server";
+import {
+  classifySupabaseError,
+  invalidateTenant,
+  isMissingColumnError,
+  resolveTenant,
+  type TenantResolutionError,
+} from "./tenant-resolver.server";
+
+/**
+ * Tenant linking
+ *
+ * GetInv issues a one-time link code to a tenant admin; the merchant enters it
+ * in the embedded app and we write the shop -> admin_id row to
+ * app_private.shopify_shops. Only the SHA-256 of a code is stored, in
+ * app_private.shopify_link_codes (code_hash, admin_id, expires_at, used_at,
+ * used_by_shop).
+ *
+ * Uninstalling the app deactivates the link instead of deleting it
+ * (active = false, uninstalled_at); reinstalling within the grace period
+ * restores it, including auto-sync if it was on. Those columns come from the
+ * uninstall SQL in VERCEL_ENV_VARIABLES.md; until it has run, linking writes
+ * admin_id alone and an uninstall only turns auto-sync off.
+ */
+
+export type LinkFailureReason =
+  | "invalid_code"
+  | "expired_code"
+  | "used_code"
+  | "linked_to_other_tenant"
+  | "sync_in_progress"
+  | "tenant_error";
+
+export type LinkShopResult =
+  | { ok: true; adminId: string; previousAdminId: string | null; alreadyLinked: boolean }
+  | { ok: false; reason: LinkFailureReason; message: string; linkedAdminId?: string; error?: TenantResolutionError };
+
+export type UnlinkShopResult =
+  | { ok: true; unlinked: boolean; previousAdminId: string | null }
+  | { ok: false; reason: "sync_in_progress" | "tenant_error"; message: string; error?: TenantResolutionError };
+
+function hashLinkCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+function tenantError(error: TenantResolutionError): { ok: false; reason: "tenant_error"; message: string; error: TenantResolutionError } {
+  return { ok: false, reason: "tenant_error", message: error.message, error };
+}
+
+const SYNC_IN_PROGRESS_MESSAGE =
+  "A sync is running for this store. Wait for it to finish (or release the sync lock) before changing the link.";
+
+/**
+ * Current link straight from Supabase, bypassing the resolver cache
+ */
+async function freshTenant(shop: string) {
+  invalidateTenant(shop);
+  return resolveTenant(shop);
+}
+
+/**
+ * Writes the shop -> admin_id row as an active link
+ * Falls back to admin_id alone while the uninstall columns are missing.
+ */
+async function upsertShopLink(shop: string, adminId: string) {
+  const shops = () => supabaseAdmin.schema("app_private").from("shopify_shops");
+
+  const result = await shops().upsert(
+    { shop_domain: shop, admin_id: adminId, active: true, uninstalled_at: null, auto_sync_was_enabled: null },
+    { onConflict: "shop_domain" }
+  );
+  if (!isMissingColumnError(result.error)) return result;
+
+  console.warn(`[TenantLink] shopify_shops uninstall columns are missing; run the uninstall SQL. Writing admin_id only.`);
+  return await shops().upsert({ shop_domain: shop, admin_id: adminId }, { onConflict: "shop_domain" });
+}
+
+/**
+ * Redeems a link code for `shop`
+ * A shop already linked to a different tenant is only re-linked when `replaceExisting` is set.
+ */
+export async function linkShopWithCode(input: {
+  shop: string;
+  code: string;
+  replaceExisting?: boolean;
+}): Promise<LinkShopResult> {
+  const codeHash = hashLinkCode(input.code);
+
+  const { data: linkCode, error: lookupError } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_link_codes")
+    .select("admin_id, expires_at, used_at")
+    .eq("code_hash", codeHash)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error(`[TenantLink] Error looking up link code:`, lookupError);
+    return tenantError(classifySupabaseError(lookupError, "app_private.shopify_link_codes"));
+  }
+
+  if (!linkCode) {
+    return { ok: false, reason: "invalid_code", message: "This link code is not valid. Check it and try again." };
+  }
+
+  if (linkCode.used_at) {
+    return { ok: false, reason: "used_code", message: "This link code has already been used. Generate a new one in GetInv." };
+  }
+
+  if (linkCode.expires_at && new Date(linkCode.expires_at).getTime() < Date.now()) {
+    return { ok: false, reason: "expired_code", message: "This link code has expired. Generate a new one in GetInv." };
+  }
+
+  let adminId: string;
+  try {
+    adminId = validateAdminId(linkCode.admin_id);
+  } catch {
+    return tenantError({ type: "invalid_admin_id", message: "Invalid admin ID format returned from database" });
+  }
+
+  const current = await freshTenant(input.shop);
+  if (current.error) return tenantError(current.error);
+
+  const previousAdminId = current.adminId;
+
+  if (previousAdminId && previousAdminId !== adminId) {
+    if (!input.replaceExisting) {
+      return {
+        ok: false,
+        reason: "linked_to_other_tenant",
+        message: "This store is already linked to another GetInv account. Unlink it first, or confirm re-linking it to the account that issued this code.",
+        linkedAdminId: previousAdminId,
+      };
+    }
+
+    if (await getSyncLockForShop(input.shop)) {
+      return { ok: false, reason: "sync_in_progress", message: SYNC_IN_PROGRESS_MESSAGE };
+    }
+  }
+
+  // Claim the code; the used_at guard makes a concurrent second redemption match no rows
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_link_codes")
+    .update({ used_at: new Date().toISOString(), used_by_shop: input.shop })
+    .eq("code_hash", codeHash)
+    .is("used_at", null)
+    .select("code_hash");
+
+  if (claimError) {
+    console.error(`[TenantLink] Error claiming link code:`, claimError);
+    return tenantError(classifySupabaseError(claimError, "app_private.shopify_link_codes"));
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return { ok: false, reason: "used_code", message: "This link code has already been used. Generate a new one in GetInv." };
+  }
+
+  if (previousAdminId !== adminId) {
+    const { error: upsertError } = await upsertShopLink(input.shop, adminId);
+
+    if (upsertError) {
+      console.error(`[TenantLink] Error writing shopify_shops:`, upsertError);
+
+      // Give the code back so the merchant can retry with it
+      await supabaseAdmin
+        .schema("app_private")
+        .from("shopify_link_codes")
+        .update({ used_at: null, used_by_shop: null })
+        .eq("code_hash", codeHash);
+
+      return tenantError(classifySupabaseError(upsertError));
+    }
+  }
+
+  invalidateTenant(input.shop);
+
+  console.log(`[TenantLink] Linked ${input.shop}:`, { adminId, previousAdminId });
+
+  return { ok: true, adminId, previousAdminId, alreadyLinked: previousAdminId === adminId };
+}
+
+/**
+ * Removes the shop's link to its GetInv tenant
+ */
+export async function unlinkShop(shop: string): Promise<UnlinkShopResult> {
+  const current = await freshTenant(shop);
+  if (current.error) return tenantError(current.error);
+
+  if (!current.adminId) {
+    return { ok: true, unlinked: false, previousAdminId: null };
+  }
+
+  if (await getSyncLockForShop(shop)) {
+    return { ok: false, reason: "sync_in_progress", message: SYNC_IN_PROGRESS_MESSAGE };
+  }
+
+  const { error } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_shops")
+    .delete()
+    .eq("shop_domain", shop)
+    .eq("admin_id", current.adminId);
+
+  if (error) {
+    console.error(`[TenantLink] Error deleting shopify_shops row:`, error);
+    return tenantError(classifySupabaseError(error));
+  }
+
+  invalidateTenant(shop);
+
+  console.log(`[TenantLink] Unlinked ${shop} from ${current.adminId}`);
+
+  return { ok: true, unlinked: true, previousAdminId: current.adminId };
+}
+
+// shop/redact arrives 48 hours after uninstall and erases the shop's data, so a longer grace period has no effect
+const UNINSTALL_GRACE_PERIOD_MS = () => Number(process.env.UNINSTALL_GRACE_PERIOD_HOURS || 48) * 60 * 60 * 1000;
+
+/**
+ * Deactivates the shop's link and turns auto-sync off when the app is uninstalled
+ * Idempotent: a link that is already inactive keeps its original uninstalled_at.
+ * Without the uninstall columns only auto-sync is turned off and the link stays.
+ * Throws on Supabase errors so the webhook inbox retries.
+ */
+export async function deactivateShopLink(shop: string): Promise<{ adminId: string | null; deactivated: boolean }> {
+  const shops = () => supabaseAdmin.schema("app_private").from("shopify_shops");
+
+  let columnsMissing = false;
+  let { data: link, error } = await shops().select("admin_id, active").eq("shop_domain", shop).maybeSingle();
+
+  if (isMissingColumnError(error)) {
+    columnsMissing = true;
+    ({ data: link, error } = await shops().select("admin_id").eq("shop_domain", shop).maybeSingle());
+  }
+
+  if (error) throw new Error(`Could not read shopify_shops for ${shop}: ${error.message}`);
+  if (!link?.admin_id) return { adminId: null, deactivated: false };
+  if (link.active === false) return { adminId: link.admin_id, deactivated: false };
+
+  const { data: settings, error: settingsError } = await supabaseAdmin
+    .from("shopify_settings")
+    .select("auto_sync_enabled")
+    .eq("admin_id", link.admin_id)
+    .maybeSingle();
+
+  if (settingsError) throw new Error(`Could not read shopify_settings for ${shop}: ${settingsError.message}`);
+
+  // Stop the scheduled auto-sync before anything else; it is what keeps hitting an uninstalled shop
+  if (settings?.auto_sync_enabled) {
+    const { error: disableError } = await supabaseAdmin
+      .from("shopify_settings")
+      .update({ auto_sync_enabled: false, updated_at: new Date().toISOString() })
+      .eq("admin_id", link.admin_id);
+
+    if (disableError) throw new Error(`Could not disable auto-sync for ${shop}: ${disableError.message}`);
+  }
+
+  if (columnsMissing) {
+    console.warn(`[TenantLink] shopify_shops uninstall columns are missing; ${shop} stays linked with auto-sync off.`);
+    return { adminId: link.admin_id, deactivated: false };
+  }
+
+  const { error: updateError } = await shops()
+    .update({
+      active: false,
+      uninstalled_at: new Date().toISOString(),
+      auto_sync_was_enabled: settings?.auto_sync_enabled ?? false,
+    })
+    .eq("shop_domain", shop)
+    .eq("admin_id", link.admin_id);
+
+  if (updateError) throw new Error(`Could not deactivate shopify_shops link for ${shop}: ${updateError.message}`);
+
+  invalidateTenant(shop);
+
+  console.log(`[TenantLink] Deactivated link for uninstalled shop ${shop}:`, {
+    adminId: link.admin_id,
+    autoSyncWasEnabled: settings?.auto_sync_enabled ?? false,
+  });
+
+  return { adminId: link.admin_id, deactivated: true };
+}
+
+export type RestoreShopLinkResult =
+  | { restored: true; adminId: string; autoSyncRestored: boolean }
+  | { restored: false; reason: "no_inactive_link" | "grace_period_expired" };
+
+/**
+ * Restores a link deactivated by an uninstall, if the shop comes back within the grace period
+ * An expired link is deleted, so the merchant links again with a fresh code.
+ */
+export async function restoreShopLink(shop: string): Promise<RestoreShopLinkResult> {
+  const { data: link, error } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_shops")
+    .select("admin_id, active, uninstalled_at, auto_sync_was_enabled")
+    .eq("shop_domain", shop)
+    .maybeSingle();
+
+  // Without the uninstall columns no link was ever deactivated
+  if (isMissingColumnError(error)) return { restored: false, reason: "no_inactive_link" };
+  if (error) throw new Error(`Could not read shopify_shops for ${shop}: ${error.message}`);
+  if (!link?.admin_id || link.active !== false) return { restored: false, reason: "no_inactive_link" };
+
+  const uninstalledAt = link.uninstalled_at ? new Date(link.uninstalled_at).getTime() : 0;
+
+  if (Date.now() - uninstalledAt > UNINSTALL_GRACE_PERIOD_MS()) {
+    await supabaseAdmin
+      .schema("app_private")
+      .from("shopify_shops")
+      .delete()
+      .eq("shop_domain", shop)
+      .eq("active", false);
+
+    invalidateTenant(shop);
+    console.log(`[TenantLink] Grace period expired for ${shop}; removed its old link`);
+    return { restored: false, reason: "grace_period_expired" };
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .schema("app_private")
+    .from("shopify_shops")
+    .update({ active: true, uninstalled_at: null, auto_sync_was_enabled: null })
+    .eq("shop_domain", shop)
+    .eq("admin_id", link.admin_id);
+
+  if (updateError) throw new Error(`Could not restore shopify_shops link for ${shop}: ${updateError.message}`);
+
+  let autoSyncRestored = false;
+  if (link.auto_sync_was_enabled) {
+    const { error: enableError } = await supabaseAdmin
+      .from("shopify_settings")
+      .update({ auto_sync_enabled: true, updated_at: new Date().toISOString() })
+      .eq("admin_id", link.admin_id);
+
+    // The link is back either way; the merchant can turn auto-sync on from the app
+    if (enableError) console.error(`[TenantLink] Could not re-enable auto-sync for ${shop}:`, enableError);
+    autoSyncRestored = !enableError;
+  }
+
+  invalidateTenant(shop);
+
+  console.log(`[TenantLink] Restored link for reinstalled shop ${shop}:`, { adminId: link.admin_id, autoSyncRestored });
+
+  return { restored: true, adminId: link.admin_id, autoSyncRestored };
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const supabase = vi.hoisted(() => {
+  const maybeSingle = vi.fn();
+  const select = vi.fn(() => ({ eq: () => ({ maybeSingle }) }));
+  return { maybeSingle, select, supabaseAdmin: { schema: () => ({ from: () => ({ select }) }) } };
+});
+
+vi.mock("../supabase.server", () => ({ supabaseAdmin: supabase.supabaseAdmin }));
+
+const { clearTenantCache, invalidateTenant, resolveTenant } = await import("./tenant-resolver.server");
+
+const SHOP = "example.myshopify.com";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubEnv("SUPABASE_URL", "https://example.supabase.co");
+  vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "service_role");
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  clearTenantCache();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("resolveTenant", () => {
+  it("resolves an active link and serves repeat lookups from the cache", async () => {
+    supabase.maybeSingle.mockResolvedValue({ data: { admin_id: "admin_1", active: true }, error: null });
+
+    expect(await resolveTenant(SHOP)).toEqual({ adminId: "admin_1" });
+    expect(await resolveTenant(SHOP)).toEqual({ adminId: "admin_1" });
+    expect(supabase.maybeSingle).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads Supabase again when asked for a fresh link or after invalidation", async () => {
+    supabase.maybeSingle.mockResolvedValue({ data: { admin_id: "admin_1", active: true }, error: null });
+    await resolveTenant(SHOP);
+
+    supabase.maybeSingle.mockResolvedValue({ data: { admin_id: "admin_1", active: false }, error: null });
+    expect(await resolveTenant(SHOP, { fresh: true })).toEqual({ adminId: null });
+
+    supabase.maybeSingle.mockResolvedValue({ data: { admin_id: "admin_2", active: true }, error: null });
+    invalidateTenant(SHOP);
+    expect(await resolveTenant(SHOP)).toEqual({ adminId: "admin_2" });
+  });
+
+  it("falls back to admin_id alone before the uninstall columns exist", async () => {
+    supabase.maybeSingle
+      .mockResolvedValueOnce({ data: null, error: { code: "42703", message: "column shopify_shops.active does not exist" } })
+      .mockResolvedValueOnce({ data: { admin_id: "admin_1" }, error: null });
+
+    expect(await resolveTenant(SHOP)).toEqual({ adminId: "admin_1" });
+    expect(supabase.select).toHaveBeenLastCalledWith("admin_id");
+  });
+
+  it("classifies Supabase errors without caching them", async () => {
+    supabase.maybeSingle.mockResolvedValue({ data: null, error: { code: "42P01", message: "relation does not exist" } });
+
+    const first = await resolveTenant(SHOP);
+    await resolveTenant(SHOP);
+
+    expect(first).toMatchObject({ adminId: null, error: { type: "table_not_found" } });
+    expect(supabase.maybeSingle).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects an invalid shop domain without querying", async () => {
+    expect(await resolveTenant("not a shop")).toMatchObject({ adminId: null, error: { type: "invalid_shop", statusCode: 400 } });
+    expect(supabase.maybeSingle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,263 @@
+import { supabaseAdmin } from "../supabase.server";
+import { validateAdminId, validateShopDomain } from "../utils/validation.server";
+
+/**
+ * Tenant resolution
+ *
+ * Maps a Shopify shop domain to the GetInv tenant (admin_id) it is linked to,
+ * via app_private.shopify_shops. Every route resolves tenants through here so
+ * they share one error taxonomy and one cache. Lookups are cached per server
+ * instance; anything that changes a link must call invalidateTenant(), which
+ * only reaches the instance it runs on. Paths that write to GetInv or Shopify
+ * (queueing and running syncs, forwarding webhooks) pass `fresh` so an
+ * uninstall handled elsewhere takes effect at once.
+ */
+
+// Linked shops rarely change; "not linked" is kept short so a fresh link shows up quickly
+const POSITIVE_TTL_MS = 5 * 60 * 1000;
+const NEGATIVE_TTL_MS = 30 * 1000;
+
+export type TenantErrorType =
+  | "invalid_shop"
+  | "configuration"
+  | "schema_not_exposed"
+  | "permission_denied"
+  | "table_not_found"
+  | "column_not_found"
+  | "network_error"
+  | "invalid_admin_id"
+  | "unknown";
+
+export interface TenantResolutionError {
+  type: TenantErrorType;
+  message: string;
+  details?: string;
+  statusCode?: number;
+}
+
+export interface TenantResolution {
+  adminId: string | null;
+  error?: TenantResolutionError;
+}
+
+// Shown next to connection errors in the UI and API responses
+export const TENANT_TROUBLESHOOTING: Partial<Record<TenantErrorType, string>> = {
+  configuration: "Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in your environment variables",
+  schema_not_exposed: "Go to Supabase Dashboard → API → Exposed schemas → Add 'app_private'",
+  permission_denied: "Check that SUPABASE_SERVICE_ROLE_KEY has access to app_private schema",
+  table_not_found: "Ensure app_private.shopify_shops table exists in your Supabase database",
+  column_not_found: "Run the shopify_shops SQL from VERCEL_ENV_VARIABLES.md in your Supabase database",
+  network_error: "Check SUPABASE_URL and network connectivity",
+};
+
+interface CacheEntry {
+  adminId: string | null;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Reads the shop's link row
+ * `active` comes from the uninstall SQL in VERCEL_ENV_VARIABLES.md. If the app is deployed
+ * before that runs, fall back to admin_id alone so links keep resolving as they did before.
+ */
+async function selectShopLink(shop: string) {
+  const shops = () => supabaseAdmin.schema("app_private").from("shopify_shops");
+
+  const result = await shops().select("admin_id, active").eq("shop_domain", shop).maybeSingle();
+  if (!isMissingColumnError(result.error)) return result;
+
+  console.warn(`[TenantResolver] shopify_shops.active is missing; run the uninstall SQL. Reading admin_id only.`);
+  return await shops().select("admin_id").eq("shop_domain", shop).maybeSingle();
+}
+
+/**
+ * True when Supabase rejected a query for a column that doesn't exist yet
+ * Reads fail with Postgres' 42703; writes are refused by PostgREST's schema cache (PGRST204).
+ */
+export function isMissingColumnError(error: { code?: string } | null | undefined): boolean {
+  return error?.code === "42703" || error?.code === "PGRST204";
+}
+
+/**
+ * Maps a Supabase/PostgREST error onto the tenant error taxonomy
+ */
+export function classifySupabaseError(
+  error: { message?: string; code?: string; details?: string },
+  table = "app_private.shopify_shops"
+): TenantResolutionError {
+  const errorMessage = error.message || "Unknown error";
+  const errorCode = typeof error.code === "string" ? error.code : "";
+  const details = (typeof error.details === "string" && error.details) || errorCode || undefined;
+
+  // Checked before the schema pattern, which also matches "does not exist"
+  if (errorCode === "42P01" || (errorMessage.includes("relation") && errorMessage.includes("does not exist"))) {
+    return {
+      type: "table_not_found",
+      message: `Table '${table}' does not exist. Ensure the table is created in your Supabase database.`,
+      details,
+    };
+  }
+
+  if (errorCode === "42703" || (errorMessage.includes("column") && errorMessage.includes("does not exist"))) {
+    return {
+      type: "column_not_found",
+      message: `A column on '${table}' is missing (${errorMessage}). Run the app's pending SQL on your Supabase database.`,
+      details,
+    };
+  }
+
+  if (errorCode === "PGRST106" || errorCode === "PGRST116" || errorMessage.includes("schema") || errorMessage.includes("does not exist")) {
+    return {
+      type: "schema_not_exposed",
+      message: `Schema 'app_private' is not accessible. Add "app_private" to Supabase API -> Exposed schemas in your Supabase dashboard.`,
+      details,
+    };
+  }
+
+  if (errorCode === "PGRST301" || errorCode === "42501" || errorMessage.includes("permission") || errorMessage.includes("403")) {
+    return {
+      type: "permission_denied",
+      message: `Permission denied accessing ${table}. Check that your SUPABASE_SERVICE_ROLE_KEY has proper permissions.`,
+      details,
+      statusCode: 403,
+    };
+  }
+
+  if (errorMessage.includes("fetch") || errorMessage.includes("network") || errorMessage.includes("ECONNREFUSED")) {
+    return {
+      type: "network_error",
+      message: `Network error connecting to Supabase: ${errorMessage}`,
+      details,
+      statusCode: 503,
+    };
+  }
+
+  return { type: "unknown", message: errorMessage, details };
+}
+
+/**
+ * Finds the GetInv tenant admin_id linked to this Shopify shop
+ * Never throws: failures come back as `error`. `adminId: null` without an
+ * error means the shop is simply not linked yet. `fresh` skips the cache
+ * (the result is still cached for other callers).
+ */
+export async function resolveTenant(
+  shopDomain: unknown,
+  options: { fresh?: boolean } = {}
+): Promise<TenantResolution> {
+  let shop: string;
+  try {
+    shop = validateShopDomain(shopDomain);
+  } catch (error) {
+    return {
+      adminId: null,
+      error: {
+        type: "invalid_shop",
+        message: error instanceof Error ? error.message : "Invalid shop domain",
+        statusCode: 400,
+      },
+    };
+  }
+
+  const cached = cache.get(shop);
+  if (!options.fresh && cached && cached.expiresAt > Date.now()) {
+    return { adminId: cached.adminId };
+  }
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return {
+      adminId: null,
+      error: {
+        type: "configuration",
+        message: "Supabase configuration missing (SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY)",
+      },
+    };
+  }
+
+  try {
+    const { data, error } = await selectShopLink(shop);
+
+    if (error) {
+      const classified = classifySupabaseError(error);
+      console.error(`[TenantResolver] Error querying shopify_shops:`, {
+        shop,
+        type: classified.type,
+        errorMessage: error.message,
+        errorCode: error.code,
+        errorDetails: error.details,
+      });
+      return { adminId: null, error: classified };
+    }
+
+    let adminId: string | null = null;
+    // Links are deactivated (not deleted) on uninstall so a reinstall can restore them
+    if (data?.admin_id && !("active" in data && data.active === false)) {
+      try {
+        adminId = validateAdminId(data.admin_id);
+      } catch (error) {
+        console.error(`[TenantResolver] Invalid admin ID format for ${shop}:`, error);
+        return {
+          adminId: null,
+          error: {
+            type: "invalid_admin_id",
+            message: "Invalid admin ID format returned from database",
+          },
+        };
+      }
+    }
+
+    cache.set(shop, {
+      adminId,
+      expiresAt: Date.now() + (adminId ? POSITIVE_TTL_MS : NEGATIVE_TTL_MS),
+    });
+
+    if (process.env.NODE_ENV === "development") {
+      console.log(`[TenantResolver] Lookup result:`, { shop, adminId: adminId || "not found" });
+    }
+
+    return { adminId };
+  } catch (e) {
+    const errorMessage = e instanceof Error ? e.message : "Unknown error";
+    console.error(`[TenantResolver] Unexpected error:`, {
+      shop,
+      error: errorMessage,
+      stack: e instanceof Error ? e.stack : undefined,
+    });
+
+    const classified = classifySupabaseError({ message: errorMessage });
+    return {
+      adminId: null,
+      error: {
+        ...classified,
+        message: classified.type === "unknown" ? `Unexpected error: ${errorMessage}` : classified.message,
+        details: e instanceof Error ? e.stack : String(e),
+      },
+    };
+  }
+}
+
+/**
+ * Drops the cached mapping for a shop
+ * Call after linking, unlinking or uninstalling so the next lookup hits Supabase.
+ */
+export function invalidateTenant(shopDomain: string): void {
+  cache.delete(shopDomain.trim().toLowerCase());
+}
+
+/**
+ * Drops every cached mapping that points at a tenant
+ */
+export function invalidateTenantByAdminId(adminId: string): void {
+  for (const [shop, entry] of cache) {
+    if (entry.adminId === adminId) cache.delete(shop);
+  }
+}
+
+/**
+ * Empties the whole cache
+ */
+export function clearTenantCache(): void {
+  cache.clear();
+}
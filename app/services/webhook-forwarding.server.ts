@@ -0,0 +1,150 @@
+import { callEdgeFunction, mintAppJwt } from "./edge-functions.server";
+import { resolveTenant } from "./tenant-resolver.server";
+import type { EchoCheck } from "./echo-guard.server";
+import { WebhookPayloadError, type WebhookDelivery, type WebhookHandlerResult } from "./webhook-inbox.server";
+
+/**
+ * Webhook forwarding
+ *
+ * Shopify data webhooks (inventory, products, orders) taken from the webhook
+ * inbox are mapped to the shop's GetInv tenant and forwarded to the GetInv
+ * ingest edge function as normalized events, so changes made in Shopify (POS,
+ * other channels, admin edits) reach GetInv within minutes instead of at the
+ * next auto-sync interval.
+ *
+ * Transient failures are thrown so the inbox retries the event with backoff;
+ * deliveries we deliberately skip are settled as "ignored".
+ */
+
+// Runs in the webhook worker, so it is no longer bound by Shopify's 5 second webhook timeout
+const FORWARD_TIMEOUT_MS = 30 * 1000;
+
+const INGEST_FUNCTION = () => process.env.GETINV_INGEST_FUNCTION || "shopify-ingest-events";
+
+export interface IngestEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface ForwardEventsInput {
+  shop: string;
+  adminId: string;
+  topic: string;
+  webhookId: string;
+  events: IngestEvent[];
+}
+
+// What a normalizer knows about the delivery besides its payload
+export interface WebhookContext {
+  shop: string;
+  topic: string;
+  webhookId: string;
+}
+
+export type WebhookNormalizer = (
+  payload: Record<string, unknown>,
+  context: WebhookContext
+) => IngestEvent[] | Promise<IngestEvent[]>;
+
+export interface ForwardWebhookOptions {
+  // Drops deliveries caused by our own writes to Shopify (see echo-guard.server.ts)
+  checkEcho?: (input: { shop: string; adminId: string; events: IngestEvent[] }) => Promise<EchoCheck>;
+  // Runs once GetInv has accepted the events; a failure fails the event so the inbox retries it
+  // (GetInv drops the resent events by webhookId)
+  recordForwarded?: (context: WebhookContext, events: IngestEvent[]) => Promise<void>;
+  // Runs once GetInv has accepted the events; a failure here is logged, not retried
+  onForwarded?: (context: WebhookContext, events: IngestEvent[]) => Promise<void>;
+}
+
+export type ForwardEventsResult =
+  | { ok: true; status: number; data: unknown }
+  | { ok: false; status: number; retryable: boolean; message: string };
+
+/**
+ * Sends normalized events for one webhook delivery to GetInv
+ * `webhookId` is passed along so the ingest side can drop redeliveries.
+ */
+export async function forwardEventsToGetInv(input: ForwardEventsInput): Promise<ForwardEventsResult> {
+  const jwt = await mintAppJwt(input.adminId);
+
+  const r = await callEdgeFunction(
+    INGEST_FUNCTION(),
+    jwt,
+    {
+      source: "shopify_webhook",
+      shopDomain: input.shop,
+      topic: input.topic,
+      webhookId: input.webhookId,
+      receivedAt: new Date().toISOString(),
+      events: input.events,
+    },
+    // The inbox retries failed events itself, so one attempt is enough here
+    { timeoutMs: FORWARD_TIMEOUT_MS, maxAttempts: 1 }
+  );
+
+  if (r.ok) return { ok: true, status: r.status, data: r.data };
+
+  return { ok: false, status: r.status, retryable: r.error.retryable, message: r.error.message };
+}
+
+/**
+ * Normalizes a stored data webhook and forwards it to GetInv
+ * `normalize` returns the events to send; an empty list settles the event without forwarding.
+ * `checkEcho` can drop or defer deliveries triggered by our own pushes.
+ */
+export async function processForwardedWebhook(
+  delivery: WebhookDelivery,
+  normalize: WebhookNormalizer,
+  options: ForwardWebhookOptions = {}
+): Promise<WebhookHandlerResult> {
+  const { shop, topic, webhookId } = delivery;
+  const { adminId, error } = await resolveTenant(shop, { fresh: true });
+
+  if (error) {
+    // Supabase trouble is usually transient - try again later
+    throw new Error(`Could not resolve tenant for ${shop}: ${error.message}`);
+  }
+
+  if (!adminId) {
+    return { status: "ignored", detail: { reason: "shop_not_linked" } };
+  }
+
+  // WebhookPayloadError from a normalizer fails the event for good; anything else is retried
+  const events = await normalize(delivery.payload, { shop, topic, webhookId });
+
+  if (events.length === 0) {
+    return { status: "ignored", detail: { reason: "no_events" } };
+  }
+
+  if (options.checkEcho) {
+    const echo = await options.checkEcho({ shop, adminId, events });
+
+    if (echo === "echo") {
+      return { status: "ignored", detail: { reason: "own_write" } };
+    }
+
+    if (echo === "pending") {
+      // Once the running push records what it wrote, a later attempt can classify this one
+      throw new Error("A push is in progress for this shop; retrying once it finishes");
+    }
+  }
+
+  const result = await forwardEventsToGetInv({ shop, adminId, topic, webhookId, events });
+
+  if (!result.ok) {
+    const message = `GetInv rejected ${topic} events (status ${result.status}): ${result.message}`;
+    throw result.retryable ? new Error(message) : new WebhookPayloadError(message);
+  }
+
+  if (options.recordForwarded) {
+    await options.recordForwarded({ shop, topic, webhookId }, events);
+  }
+
+  if (options.onForwarded) {
+    await options.onForwarded({ shop, topic, webhookId }, events).catch((e) => {
+      console.error(`[Webhooks] Post-forward step for ${topic} (${webhookId}) failed:`, e);
+    });
+  }
+
+  return { status: "processed", detail: { forwarded: events.length } };
+}
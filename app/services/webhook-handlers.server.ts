@@ -0,0 +1,69 @@
+import { handleAppScopesUpdate, handleAppUninstalled } from "./app-lifecycle.server";
+import { hasFeature, type Feature } from "./capabilities.server";
+import { handleCustomersDataRequest, handleCustomersRedact, handleShopRedact } from "./compliance.server";
+import { normalizeInventoryItemUpdate, normalizeInventoryLevelUpdate } from "./inventory-events.server";
+import { normalizeOrderCancelled, normalizeOrderCreate, normalizeRefundCreate, recordOrderMovements } from "./order-events.server";
+import {
+  checkProductEventEcho,
+  normalizeProductCreate,
+  normalizeProductDelete,
+  normalizeProductUpdate,
+} from "./product-events.server";
+import { dropLinksForDeletedProduct, refreshLinksFromProductEvent } from "./product-links.server";
+import { processForwardedWebhook } from "./webhook-forwarding.server";
+import type { WebhookHandler } from "./webhook-inbox.server";
+
+/**
+ * Webhook topic -> handler
+ *
+ * Keyed by the topic as authenticate.webhook reports it (e.g. "PRODUCTS_UPDATE").
+ * A stored event whose topic has no handler is settled as "ignored", as is one
+ * whose feature lost a scope it needs while the event was queued.
+ */
+
+function requiresFeature(feature: Feature, handler: WebhookHandler): WebhookHandler {
+  return async (delivery) => {
+    if (!(await hasFeature(delivery.shop, feature))) {
+      return { status: "ignored", detail: { reason: "missing_scope", feature } };
+    }
+    return handler(delivery);
+  };
+}
+
+const WEBHOOK_HANDLERS: Record<string, WebhookHandler> = {
+  APP_UNINSTALLED: handleAppUninstalled,
+  APP_SCOPES_UPDATE: handleAppScopesUpdate,
+
+  CUSTOMERS_DATA_REQUEST: handleCustomersDataRequest,
+  CUSTOMERS_REDACT: handleCustomersRedact,
+  SHOP_REDACT: handleShopRedact,
+
+  INVENTORY_LEVELS_UPDATE: requiresFeature("inventory_updates", (d) =>
+    processForwardedWebhook(d, normalizeInventoryLevelUpdate)
+  ),
+  INVENTORY_ITEMS_UPDATE: requiresFeature("inventory_updates", (d) =>
+    processForwardedWebhook(d, normalizeInventoryItemUpdate)
+  ),
+
+  PRODUCTS_CREATE: (d) => processForwardedWebhook(d, normalizeProductCreate, { checkEcho: checkProductEventEcho }),
+  PRODUCTS_UPDATE: (d) =>
+    processForwardedWebhook(d, normalizeProductUpdate, {
+      checkEcho: checkProductEventEcho,
+      onForwarded: refreshLinksFromProductEvent,
+    }),
+  PRODUCTS_DELETE: (d) => processForwardedWebhook(d, normalizeProductDelete, { onForwarded: dropLinksForDeletedProduct }),
+
+  ORDERS_CREATE: requiresFeature("order_sync", (d) =>
+    processForwardedWebhook(d, normalizeOrderCreate, { recordForwarded: recordOrderMovements })
+  ),
+  ORDERS_CANCELLED: requiresFeature("order_sync", (d) =>
+    processForwardedWebhook(d, normalizeOrderCancelled, { recordForwarded: recordOrderMovements })
+  ),
+  REFUNDS_CREATE: requiresFeature("order_sync", (d) =>
+    processForwardedWebhook(d, normalizeRefundCreate, { recordForwarded: recordOrderMovements })
+  ),
+};
+
+export function getWebhookHandler(topic: string): WebhookHandler | undefined {
+  return WEBHOOK_HANDLERS[topic];
+}
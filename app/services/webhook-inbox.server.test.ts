@@ -0,0 +1,123 @@
+import { Prisma, type WebhookEvent } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  webhookEvent: {
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+  },
+}));
+
+const shopify = vi.hoisted(() => ({ authenticate: { webhook: vi.fn() } }));
+
+vi.mock("../db.server", () => ({ default: db }));
+vi.mock("../shopify.server", () => shopify);
+vi.mock("@vercel/functions", () => ({ waitUntil: vi.fn() }));
+
+const { failWebhookEvent, receiveWebhook, replayWebhookEvent, WebhookPayloadError } = await import("./webhook-inbox.server");
+
+const SHOP = "example.myshopify.com";
+const NOW = new Date("2026-01-01T12:00:00Z");
+
+function event(attempts: number) {
+  return { id: "evt_1", attempts } as WebhookEvent;
+}
+
+function scheduledDelayMs() {
+  const { data } = db.webhookEvent.update.mock.calls[0][0];
+  return data.nextAttemptAt.getTime() - NOW.getTime();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  shopify.authenticate.webhook.mockResolvedValue({
+    shop: SHOP,
+    topic: "PRODUCTS_UPDATE",
+    payload: { id: 1 },
+    webhookId: "wh_1",
+    apiVersion: "2025-07",
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("failWebhookEvent", () => {
+  it("retries with exponential backoff", async () => {
+    expect(await failWebhookEvent(event(1), new Error("GetInv timed out"))).toBe("pending");
+    expect(scheduledDelayMs()).toBe(30 * 1000);
+
+    db.webhookEvent.update.mockClear();
+    await failWebhookEvent(event(3), new Error("GetInv timed out"));
+    expect(scheduledDelayMs()).toBe(2 * 60 * 1000);
+  });
+
+  it("caps the backoff at an hour", async () => {
+    await failWebhookEvent(event(9), new Error("GetInv timed out"));
+
+    expect(scheduledDelayMs()).toBe(60 * 60 * 1000);
+  });
+
+  it("fails the event once its attempts are used up", async () => {
+    expect(await failWebhookEvent(event(10), new Error("GetInv timed out"))).toBe("failed");
+
+    const { data } = db.webhookEvent.update.mock.calls[0][0];
+    expect(data).not.toHaveProperty("nextAttemptAt");
+    expect(data.lastError).toMatchObject({ message: "GetInv timed out", attempt: 10, permanent: false });
+  });
+
+  it("fails a bad payload without retrying", async () => {
+    expect(await failWebhookEvent(event(1), new WebhookPayloadError("payload is missing id"))).toBe("failed");
+    expect(db.webhookEvent.update.mock.calls[0][0].data.lastError.permanent).toBe(true);
+  });
+});
+
+describe("receiveWebhook", () => {
+  const request = () => new Request("https://app.example.com/webhooks/products/update", { method: "POST" });
+
+  it("stores a new delivery as pending", async () => {
+    db.webhookEvent.create.mockResolvedValue({ id: "evt_1" });
+
+    const response = await receiveWebhook(request());
+
+    expect(response.status).toBe(200);
+    expect(db.webhookEvent.create.mock.calls[0][0].data).toMatchObject({ webhookId: "wh_1", shop: SHOP, status: "pending" });
+  });
+
+  it("acknowledges a redelivery without storing it again", async () => {
+    db.webhookEvent.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "test" })
+    );
+
+    const response = await receiveWebhook(request());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, duplicate: true });
+  });
+
+  it("answers 500 when the delivery could not be stored, so Shopify sends it again", async () => {
+    db.webhookEvent.create.mockRejectedValue(new Error("connection reset"));
+
+    expect((await receiveWebhook(request())).status).toBe(500);
+  });
+});
+
+describe("replayWebhookEvent", () => {
+  it("only replays failed events, with a fresh set of attempts", async () => {
+    db.webhookEvent.findFirst.mockResolvedValue({ topic: "PRODUCTS_UPDATE" });
+    db.webhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await replayWebhookEvent(SHOP, "evt_1")).toBe(false);
+    expect(db.webhookEvent.updateMany).toHaveBeenCalledWith({
+      where: { id: "evt_1", shop: SHOP, status: "failed" },
+      data: { status: "pending", attempts: 0, nextAttemptAt: NOW, processedAt: null },
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { Prisma } from "@prisma/client";
+import type { WebhookEvent } from "@prisma/client";
+import { waitUntil } from "@vercel/functions";
+import prisma from "../db.server";
+import { authenticate } from "../shopify.server";
+import type { WebhookEventStatus } from "../utils/validation.server";
+
+/**
+ * Webhook inbox
+ *
+ * Every Shopify webhook is verified, stored in the WebhookEvent table keyed by
+ * X-Shopify-Webhook-Id and acknowledged straight away. The webhook worker
+ * (see webhook-worker.server.ts) then runs the topic's handler, retrying failures with
+ * exponential backoff. Redeliveries of a stored webhook are acknowledged without
+ * being processed again, and events that ran out of attempts stay in the table
+ * until someone replays them from /api/webhooks/events.
+ */
+
+export type { WebhookEventStatus };
+
+// A stored delivery, as handed to a topic handler
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  shop: string;
+  topic: string;
+  payload: Record<string, unknown>;
+  attempt: number;
+  receivedAt: Date;
+}
+
+export interface WebhookHandlerResult {
+  status: "processed" | "ignored";
+  detail?: Record<string, unknown>;
+}
+
+export type WebhookHandler = (delivery: WebhookDelivery) => Promise<WebhookHandlerResult>;
+
+// Thrown for payloads that will fail the same way on every attempt; the event fails without retries
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookPayloadError";
+  }
+}
+
+// Backoff: 30s, 1m, 2m, 4m ... capped at 1h; 10 attempts span roughly 3 hours
+const MAX_ATTEMPTS = 10;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Events stuck in "processing" longer than this lost their worker and are retried
+const STALE_PROCESSING_AFTER_MS = 10 * 60 * 1000;
+
+// Payloads can hold customer data, so settled events are not kept forever
+const SETTLED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// How long a webhook request waits on the worker kick; the worker has received it well before then
+const TRIGGER_WAIT_MS = 5 * 1000;
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+function retryDelayMs(attempt: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+}
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Verifies a webhook request and stores it in the inbox
+ * Bad HMACs get the 401 thrown by authenticate.webhook. A failed insert returns
+ * 500 so Shopify redelivers; everything else is acknowledged with 200.
+ * `reducePayload` keeps only what the topic's handler reads, so customer data
+ * the app doesn't use is never written to the inbox.
+ */
+export async function receiveWebhook(
+  request: Request,
+  options: { reducePayload?: (payload: Record<string, unknown>) => Record<string, unknown> } = {}
+): Promise<Response> {
+  const { shop, topic, payload: raw, webhookId, apiVersion } = await authenticate.webhook(request);
+  const payload = options.reducePayload ? options.reducePayload(raw) : raw;
+
+  try {
+    const event = await prisma.webhookEvent.create({
+      data: {
+        webhookId,
+        shop,
+        topic,
+        apiVersion: apiVersion ?? null,
+        payload: payload as Prisma.InputJsonValue,
+        status: "pending",
+      },
+    });
+
+    console.log(`[Webhooks] Stored ${topic} webhook for ${shop}`, { webhookId, eventId: event.id });
+    triggerWebhookWorker(request);
+
+    return jsonResponse({ ok: true, eventId: event.id });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      console.log(`[Webhooks] Duplicate ${topic} delivery for ${shop} acknowledged`, { webhookId });
+      return jsonResponse({ ok: true, duplicate: true });
+    }
+
+    console.error(`[Webhooks] Could not store ${topic} webhook for ${shop}:`, error);
+    return jsonResponse({ ok: false, error: "Could not store webhook" }, 500);
+  }
+}
+
+/**
+ * Atomically moves the oldest due event to "processing"
+ * Same approach as claimNextSyncJob: the status guard means one worker wins.
+ */
+export async function claimNextWebhookEvent(): Promise<WebhookEvent | null> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const next = await prisma.webhookEvent.findFirst({
+      where: { status: "pending", nextAttemptAt: { lte: new Date() } },
+      orderBy: { receivedAt: "asc" },
+    });
+
+    if (!next) return null;
+
+    const { count } = await prisma.webhookEvent.updateMany({
+      where: { id: next.id, status: "pending" },
+      data: { status: "processing", attempts: { increment: 1 }, startedAt: new Date() },
+    });
+
+    if (count === 1) {
+      return prisma.webhookEvent.findUnique({ where: { id: next.id } });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Records a handler's result for a claimed event
+ */
+export async function completeWebhookEvent(id: string, result: WebhookHandlerResult): Promise<void> {
+  await prisma.webhookEvent.update({
+    where: { id },
+    data: {
+      status: result.status,
+      processedAt: new Date(),
+      lastError: Prisma.DbNull,
+      ...(result.detail && { result: result.detail as Prisma.InputJsonValue }),
+    },
+  });
+}
+
+/**
+ * Records a failed attempt: schedules a retry with backoff, or marks the event
+ * failed once its attempts are used up or the payload itself is the problem
+ */
+export async function failWebhookEvent(event: WebhookEvent, error: unknown): Promise<WebhookEventStatus> {
+  const message = error instanceof Error ? error.message : String(error);
+  const permanent = error instanceof WebhookPayloadError;
+  const status: WebhookEventStatus = permanent || event.attempts >= MAX_ATTEMPTS ? "failed" : "pending";
+
+  await prisma.webhookEvent.update({
+    where: { id: event.id },
+    data: {
+      status,
+      lastError: { message, attempt: event.attempts, permanent, at: new Date().toISOString() },
+      ...(status === "pending" && { nextAttemptAt: new Date(Date.now() + retryDelayMs(event.attempts)) }),
+    },
+  });
+
+  return status;
+}
+
+/**
+ * Puts events whose worker died mid-run back in the queue
+ */
+export async function requeueStaleWebhookEvents(): Promise<number> {
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: { status: "processing", startedAt: { lt: new Date(Date.now() - STALE_PROCESSING_AFTER_MS) } },
+    data: { status: "pending", nextAttemptAt: new Date() },
+  });
+  return count;
+}
+
+/**
+ * Deletes settled events past their retention period
+ */
+export async function purgeOldWebhookEvents(): Promise<number> {
+  const now = Date.now();
+  const { count } = await prisma.webhookEvent.deleteMany({
+    where: {
+      OR: [
+        { status: { in: ["processed", "ignored"] }, receivedAt: { lt: new Date(now - SETTLED_RETENTION_MS) } },
+        { status: "failed", receivedAt: { lt: new Date(now - FAILED_RETENTION_MS) } },
+      ],
+    },
+  });
+  return count;
+}
+
+/**
+ * Lists a shop's webhook events, newest first
+ * Payloads are left out; they are only needed when looking at a single event.
+ */
+export async function listWebhookEvents(input: {
+  shop: string;
+  status?: WebhookEventStatus;
+  topic?: string;
+  page: number;
+  pageSize: number;
+}): Promise<{ events: Omit<WebhookEvent, "payload">[]; total: number }> {
+  const where: Prisma.WebhookEventWhereInput = {
+    shop: input.shop,
+    ...(input.status && { status: input.status }),
+    ...(input.topic && { topic: input.topic }),
+  };
+
+  const [events, total] = await Promise.all([
+    prisma.webhookEvent.findMany({
+      where,
+      omit: { payload: true },
+      orderBy: { receivedAt: "desc" },
+      skip: (input.page - 1) * input.pageSize,
+      take: input.pageSize,
+    }),
+    prisma.webhookEvent.count({ where }),
+  ]);
+
+  return { events, total };
+}
+
+/**
+ * Sends a failed event back through its handler with a fresh set of attempts
+ * Returns null when the event doesn't exist for this shop; false when it isn't failed.
+ */
+export async function replayWebhookEvent(
+  shop: string,
+  id: string
+): Promise<Omit<WebhookEvent, "payload"> | false | null> {
+  const event = await prisma.webhookEvent.findFirst({ where: { id, shop }, select: { topic: true } });
+  if (!event) return null;
+
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: { id, shop, status: "failed" },
+    data: { status: "pending", attempts: 0, nextAttemptAt: new Date(), processedAt: null },
+  });
+
+  if (count === 0) return false;
+
+  console.log(`[Webhooks] Replaying ${event.topic} event ${id} for ${shop}`);
+  return prisma.webhookEvent.findUnique({ where: { id }, omit: { payload: true } });
+}
+
+/**
+ * Kicks the webhook worker so stored webhooks are handled right away
+ * Handed to waitUntil like triggerSyncWorker: Vercel freezes the function once the
+ * webhook is acknowledged, which drops a bare fetch. It is only waited on until the
+ * worker has received it. If it still never lands, the next cron tick picks the events up.
+ */
+export function triggerWebhookWorker(request: Request): void {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return;
+
+  const baseUrl = process.env.SHOPIFY_APP_URL || new URL(request.url).origin;
+
+  waitUntil(
+    fetch(`${baseUrl}/api/webhooks/worker`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${secret}` },
+      signal: AbortSignal.timeout(TRIGGER_WAIT_MS),
+    }).then(
+      () => undefined,
+      (error) => {
+        // The worker is busy with the events; nothing went wrong
+        if (error instanceof Error && error.name === "TimeoutError") return;
+        console.warn(`[Webhooks] Failed to trigger worker:`, error instanceof Error ? error.message : error);
+      }
+    )
+  );
+}
@@ -0,0 +1,90 @@
+import type { WebhookEvent } from "@prisma/client";
+import { purgeExpiredCustomerDataExports } from "./customer-data-export.server";
+import { getWebhookHandler } from "./webhook-handlers.server";
+import {
+  claimNextWebhookEvent,
+  completeWebhookEvent,
+  failWebhookEvent,
+  purgeOldWebhookEvents,
+  requeueStaleWebhookEvents,
+  type WebhookEventStatus,
+} from "./webhook-inbox.server";
+
+/**
+ * Webhook worker
+ *
+ * Drains the webhook inbox (see webhook-inbox.server.ts) by running each
+ * event's topic handler. Runs in /api/webhooks/worker, triggered by Vercel Cron
+ * every minute and kicked right after a webhook is stored.
+ */
+
+// Stop claiming new events once this much of the invocation budget is used
+const DEFAULT_DRAIN_BUDGET_MS = 4 * 60 * 1000;
+
+/**
+ * Runs the handler for one claimed event and records how it went
+ */
+export async function processWebhookEvent(event: WebhookEvent): Promise<WebhookEventStatus> {
+  const handler = getWebhookHandler(event.topic);
+
+  if (!handler) {
+    await completeWebhookEvent(event.id, { status: "ignored", detail: { reason: "no_handler" } });
+    return "ignored";
+  }
+
+  try {
+    const result = await handler({
+      id: event.id,
+      webhookId: event.webhookId,
+      shop: event.shop,
+      topic: event.topic,
+      payload: (event.payload ?? {}) as Record<string, unknown>,
+      attempt: event.attempts,
+      receivedAt: event.receivedAt,
+    });
+
+    await completeWebhookEvent(event.id, result);
+    return result.status;
+  } catch (error) {
+    console.error(`[WebhookWorker] ${event.topic} event ${event.id} failed (attempt ${event.attempts}):`, error);
+    return failWebhookEvent(event, error);
+  }
+}
+
+/**
+ * Processes due events one at a time until the inbox is empty
+ * or the time budget for this invocation is spent
+ */
+export async function drainWebhookInbox({
+  budgetMs = DEFAULT_DRAIN_BUDGET_MS,
+  maxEvents = 200,
+}: { budgetMs?: number; maxEvents?: number } = {}): Promise<{
+  processed: number;
+  failed: number;
+  requeued: number;
+  purged: number;
+}> {
+  const deadline = Date.now() + budgetMs;
+  let processed = 0;
+  let failed = 0;
+
+  const requeued = await requeueStaleWebhookEvents();
+  if (requeued > 0) {
+    console.warn(`[WebhookWorker] Re-queued ${requeued} stale webhook event(s)`);
+  }
+
+  // Housekeeping: settled events and customer data exports are only kept for a while
+  const purged = await purgeOldWebhookEvents();
+  await purgeExpiredCustomerDataExports();
+
+  while (processed < maxEvents && Date.now() < deadline) {
+    const event = await claimNextWebhookEvent();
+    if (!event) break;
+
+    const status = await processWebhookEvent(event);
+    processed++;
+    if (status === "failed") failed++;
+  }
+
+  return { processed, failed, requeued, purged };
+}
@@ -7,6 +7,7 @@ import {
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import type { Session } from "@shopify/shopify-api";
 import prisma from "./db.server";
+import { handleAfterAuth } from "./services/app-lifecycle.server";
 
 /**
  * Lazy Session Storage Wrapper
@@ -55,6 +56,9 @@ const shopify = shopifyApp({
   authPathPrefix: "/auth",
   sessionStorage: lazySessionStorage,
   distribution: AppDistribution.AppStore,
+  hooks: {
+    afterAuth: handleAfterAuth,
+  },
   future: {
     expiringOfflineAccessTokens: true,
   },
@@ -0,0 +1,13 @@
+/**
+ * CSV helpers for downloadable reports
+ * RFC 4180 quoting, CRLF line endings; dates are written as ISO 8601
+ */
+
+export function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header.join(","), ...rows.map((row) => row.map(csvCell).join(","))].join("\r\n") + "\r\n";
+}
@@ -14,6 +14,7 @@ interface EnvConfig {
   NODE_ENV?: string;
   SHOP_CUSTOM_DOMAIN?: string;
   SUPABASE_FUNCTIONS_BASE?: string;
+  CRON_SECRET?: string;
 }
 
 class EnvValidationError extends Error {
@@ -120,6 +121,7 @@ export function validateEnv(): EnvConfig {
   // Optional variables
   const SHOP_CUSTOM_DOMAIN = process.env.SHOP_CUSTOM_DOMAIN;
   const SUPABASE_FUNCTIONS_BASE = process.env.SUPABASE_FUNCTIONS_BASE;
+  const CRON_SECRET = process.env.CRON_SECRET;
   
   // Validate each variable
   validateUrl(SHOPIFY_APP_URL, "SHOPIFY_APP_URL");
@@ -139,6 +141,10 @@ export function validateEnv(): EnvConfig {
     validateUrl(SUPABASE_FUNCTIONS_BASE, "SUPABASE_FUNCTIONS_BASE");
   }
   
+  if (CRON_SECRET && CRON_SECRET.length < 16) {
+    throw new EnvValidationError("CRON_SECRET must be at least 16 characters long");
+  }
+  
   if (nodeEnv === "production") {
     // Additional production checks
     if (SHOPIFY_APP_URL.includes("localhost") || SHOPIFY_APP_URL.includes("127.0.0.1")) {
@@ -157,6 +163,7 @@ export function validateEnv(): EnvConfig {
     NODE_ENV: nodeEnv,
     SHOP_CUSTOM_DOMAIN,
     SUPABASE_FUNCTIONS_BASE,
+    CRON_SECRET,
   };
 }
 
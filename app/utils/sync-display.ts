@@ -0,0 +1,74 @@
+/**
+ * Display helpers shared by the sync history pages
+ * (client-safe: no server imports)
+ */
+
+export const SYNC_INTENT_LABELS: Record<string, string> = {
+  pull: "Pull",
+  push_changed: "Push changes",
+  push_all: "Push all",
+  toggle_auto: "Auto-sync settings",
+  audit: "Inventory audit",
+  reconcile: "Reconciliation",
+};
+
+type BadgeTone = "info" | "success" | "warning" | "critical" | "neutral";
+
+export const SYNC_STATUS_TONES: Record<string, BadgeTone> = {
+  queued: "neutral",
+  running: "info",
+  succeeded: "success",
+  failed: "critical",
+  cancelled: "warning",
+};
+
+export const SYNC_ITEM_STATUS_TONES: Record<string, BadgeTone> = {
+  created: "success",
+  updated: "success",
+  synced: "success",
+  skipped: "neutral",
+  failed: "critical",
+};
+
+export function formatDateTime(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+/**
+ * "1m 05s" style duration between two timestamps
+ */
+export function formatDuration(start: Date | string | null | undefined, end: Date | string | null | undefined): string {
+  if (!start || !end) return "—";
+
+  const totalSeconds = Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * "120 total · 3 created · 2 failed" from a job's counts column
+ */
+export function formatCounts(counts: unknown): string {
+  if (!counts || typeof counts !== "object") return "—";
+
+  const record = counts as Record<string, unknown>;
+  const parts = ["total", "created", "updated", "skipped", "failed"]
+    .filter((key) => typeof record[key] === "number")
+    .map((key) => `${record[key]} ${key}`);
+
+  return parts.length > 0 ? parts.join(" · ") : "—";
+}
+
+/**
+ * Message out of a job's error column
+ */
+export function errorMessage(error: unknown): string | null {
+  if (!error || typeof error !== "object") return null;
+  const message = (error as { message?: unknown }).message;
+  return typeof message === "string" ? message : null;
+}
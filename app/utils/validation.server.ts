@@ -11,6 +11,41 @@ const VALID_INTENTS = ["pull", "push_changed", "push_all", "toggle_auto"] as con
 
 export type ValidIntent = (typeof VALID_INTENTS)[number];
 
+// Jobs queued by their own endpoints rather than POST /api/sync, and run by the sync worker
+const VALID_WORKER_JOB_INTENTS = ["audit", "reconcile"] as const;
+
+export type SyncJobIntent = ValidIntent | (typeof VALID_WORKER_JOB_INTENTS)[number];
+
+// Valid sync job statuses
+const VALID_SYNC_JOB_STATUSES = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+
+export type SyncJobStatus = (typeof VALID_SYNC_JOB_STATUSES)[number];
+
+// Valid webhook inbox event statuses
+const VALID_WEBHOOK_EVENT_STATUSES = ["pending", "processing", "processed", "ignored", "failed"] as const;
+
+export type WebhookEventStatus = (typeof VALID_WEBHOOK_EVENT_STATUSES)[number];
+
+// Valid export formats for downloadable reports
+const VALID_REPORT_FORMATS = ["json", "csv"] as const;
+
+export type ReportFormat = (typeof VALID_REPORT_FORMATS)[number];
+
+// Valid product link sources
+const VALID_PRODUCT_LINK_SOURCES = ["sync", "manual"] as const;
+
+export type ProductLinkSource = (typeof VALID_PRODUCT_LINK_SOURCES)[number];
+
+// Valid reconciliation report buckets
+const VALID_RECONCILIATION_BUCKETS = ["matched", "shopify_only", "getinv_only", "duplicate_sku", "blank_sku"] as const;
+
+export type ReconciliationBucket = (typeof VALID_RECONCILIATION_BUCKETS)[number];
+
+// Valid inventory correction directions (which side's quantity wins)
+const VALID_CORRECTION_DIRECTIONS = ["trust_getinv", "trust_shopify"] as const;
+
+export type CorrectionDirection = (typeof VALID_CORRECTION_DIRECTIONS)[number];
+
 /**
  * Validates and sanitizes Shopify shop domain
  */
@@ -51,6 +86,273 @@ export function validateIntent(intent: unknown): ValidIntent {
   return intent as ValidIntent;
 }
 
+/**
+ * Validates a sync job intent filter: any POST /api/sync intent or worker-only job
+ */
+export function validateSyncJobIntent(intent: unknown): SyncJobIntent {
+  if (typeof intent !== "string") {
+    throw new Error("Intent must be a string");
+  }
+
+  const valid: readonly string[] = [...VALID_INTENTS, ...VALID_WORKER_JOB_INTENTS];
+  if (!valid.includes(intent)) {
+    throw new Error(`Invalid intent. Must be one of: ${valid.join(", ")}`);
+  }
+
+  return intent as SyncJobIntent;
+}
+
+/**
+ * Validates sync job status value
+ */
+export function validateSyncJobStatus(status: unknown): SyncJobStatus {
+  if (typeof status !== "string") {
+    throw new Error("Status must be a string");
+  }
+
+  if (!VALID_SYNC_JOB_STATUSES.includes(status as SyncJobStatus)) {
+    throw new Error(`Invalid status. Must be one of: ${VALID_SYNC_JOB_STATUSES.join(", ")}`);
+  }
+
+  return status as SyncJobStatus;
+}
+
+/**
+ * Validates webhook inbox event status value
+ */
+export function validateWebhookEventStatus(status: unknown): WebhookEventStatus {
+  if (typeof status !== "string") {
+    throw new Error("Status must be a string");
+  }
+
+  if (!VALID_WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)) {
+    throw new Error(`Invalid status. Must be one of: ${VALID_WEBHOOK_EVENT_STATUSES.join(", ")}`);
+  }
+
+  return status as WebhookEventStatus;
+}
+
+/**
+ * Validates product link source value
+ */
+export function validateProductLinkSource(source: unknown): ProductLinkSource {
+  if (typeof source !== "string") {
+    throw new Error("Source must be a string");
+  }
+
+  if (!VALID_PRODUCT_LINK_SOURCES.includes(source as ProductLinkSource)) {
+    throw new Error(`Invalid source. Must be one of: ${VALID_PRODUCT_LINK_SOURCES.join(", ")}`);
+  }
+
+  return source as ProductLinkSource;
+}
+
+/**
+ * Validates reconciliation bucket value
+ */
+export function validateReconciliationBucket(bucket: unknown): ReconciliationBucket {
+  if (typeof bucket !== "string") {
+    throw new Error("Bucket must be a string");
+  }
+
+  if (!VALID_RECONCILIATION_BUCKETS.includes(bucket as ReconciliationBucket)) {
+    throw new Error(`Invalid bucket. Must be one of: ${VALID_RECONCILIATION_BUCKETS.join(", ")}`);
+  }
+
+  return bucket as ReconciliationBucket;
+}
+
+/**
+ * Validates inventory correction direction value
+ */
+export function validateCorrectionDirection(direction: unknown): CorrectionDirection {
+  if (typeof direction !== "string") {
+    throw new Error("Direction must be a string");
+  }
+
+  if (!VALID_CORRECTION_DIRECTIONS.includes(direction as CorrectionDirection)) {
+    throw new Error(`Invalid direction. Must be one of: ${VALID_CORRECTION_DIRECTIONS.join(", ")}`);
+  }
+
+  return direction as CorrectionDirection;
+}
+
+/**
+ * Validates the discrepancy threshold for an inventory audit
+ * Missing means 0 (flag every difference); accepts numbers or numeric strings.
+ */
+export function validateAuditThreshold(threshold: unknown): number {
+  if (threshold === undefined || threshold === null || threshold === "") {
+    return 0;
+  }
+
+  const parsed = typeof threshold === "string" ? Number(threshold) : threshold;
+
+  if (typeof parsed !== "number" || !Number.isInteger(parsed)) {
+    throw new Error("Threshold must be an integer");
+  }
+
+  if (parsed < 0 || parsed > 100000) {
+    throw new Error("Threshold must be between 0 and 100000");
+  }
+
+  return parsed;
+}
+
+/**
+ * Validates a report format; missing means JSON
+ */
+export function validateReportFormat(format: unknown): ReportFormat {
+  if (format === undefined || format === null || format === "") {
+    return "json";
+  }
+
+  if (typeof format !== "string" || !VALID_REPORT_FORMATS.includes(format.toLowerCase() as ReportFormat)) {
+    throw new Error(`Invalid format. Must be one of: ${VALID_REPORT_FORMATS.join(", ")}`);
+  }
+
+  return format.toLowerCase() as ReportFormat;
+}
+
+/**
+ * Validates optional from / to query parameters (ISO 8601 dates or timestamps)
+ */
+export function validateDateRange(from: unknown, to: unknown): { from?: Date; to?: Date } {
+  const parse = (value: unknown, name: string): Date | undefined => {
+    if (value === undefined || value === null || value === "") {
+      return undefined;
+    }
+
+    const parsed = typeof value === "string" ? new Date(value) : null;
+
+    if (!parsed || Number.isNaN(parsed.getTime())) {
+      throw new Error(`${name} must be an ISO 8601 date`);
+    }
+
+    return parsed;
+  };
+
+  const range = { from: parse(from, "from"), to: parse(to, "to") };
+
+  if (range.from && range.to && range.from > range.to) {
+    throw new Error("from cannot be later than to");
+  }
+
+  return range;
+}
+
+/**
+ * Validates an Idempotency-Key header value
+ * Visible ASCII only, so keys are safe to store and log
+ */
+export function validateIdempotencyKey(key: unknown): string {
+  if (typeof key !== "string") {
+    throw new Error("Idempotency key must be a string");
+  }
+
+  const trimmed = key.trim();
+
+  if (!trimmed) {
+    throw new Error("Idempotency key cannot be empty");
+  }
+
+  if (trimmed.length > 255) {
+    throw new Error("Idempotency key is too long");
+  }
+
+  if (!/^[\x21-\x7E]+$/.test(trimmed)) {
+    throw new Error("Idempotency key contains invalid characters");
+  }
+
+  return trimmed;
+}
+
+/**
+ * Validates a one-time GetInv link code
+ * Spaces and dashes are ignored so "ABCD-1234" and "abcd 1234" are the same code
+ */
+export function validateLinkCode(code: unknown): string {
+  if (typeof code !== "string") {
+    throw new Error("Link code must be a string");
+  }
+
+  const normalized = code.replace(/[\s-]/g, "").toUpperCase();
+
+  if (!normalized) {
+    throw new Error("Link code cannot be empty");
+  }
+
+  if (normalized.length < 8 || normalized.length > 64) {
+    throw new Error("Link code must be between 8 and 64 characters");
+  }
+
+  if (!/^[A-Z0-9]+$/.test(normalized)) {
+    throw new Error("Link code can only contain letters and numbers");
+  }
+
+  return normalized;
+}
+
+/**
+ * Validates page / pageSize query parameters
+ * Accepts numbers or numeric strings (URLSearchParams values)
+ */
+export function validatePagination(
+  page: unknown,
+  pageSize: unknown,
+  { defaultPageSize = 20, maxPageSize = 100 } = {}
+): { page: number; pageSize: number } {
+  const parse = (value: unknown, name: string, fallback: number): number => {
+    if (value === undefined || value === null || value === "") {
+      return fallback;
+    }
+
+    const parsed = typeof value === "string" ? Number(value) : value;
+
+    if (typeof parsed !== "number" || !Number.isInteger(parsed)) {
+      throw new Error(`${name} must be an integer`);
+    }
+
+    if (parsed < 1) {
+      throw new Error(`${name} must be at least 1`);
+    }
+
+    return parsed;
+  };
+
+  const validatedPage = parse(page, "Page", 1);
+  const validatedPageSize = parse(pageSize, "Page size", defaultPageSize);
+
+  if (validatedPageSize > maxPageSize) {
+    throw new Error(`Page size cannot exceed ${maxPageSize}`);
+  }
+
+  return { page: validatedPage, pageSize: validatedPageSize };
+}
+
+// Intents that accept dryRun: true (preview what a push would change)
+const DRY_RUN_INTENTS: readonly ValidIntent[] = ["push_changed", "push_all"];
+
+/**
+ * Validates the dryRun flag for an intent
+ * Missing means false; only push intents can be dry-run.
+ */
+export function validateDryRun(dryRun: unknown, intent: ValidIntent): boolean {
+  if (dryRun === undefined || dryRun === null || dryRun === false) {
+    return false;
+  }
+
+  if (dryRun !== true) {
+    throw new Error("dryRun must be a boolean");
+  }
+
+  if (!DRY_RUN_INTENTS.includes(intent)) {
+    throw new Error(`dryRun cannot be used with ${intent}; it is only supported for ${DRY_RUN_INTENTS.join(" and ")}`);
+  }
+
+  return true;
+}
+
 /**
  * Validates interval minutes value
  */
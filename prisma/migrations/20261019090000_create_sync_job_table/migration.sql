@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "SyncJob" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "intent" TEXT NOT NULL,
+    "mode" TEXT,
+    "status" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "httpStatus" INTEGER,
+    "counts" JSONB,
+    "error" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncJob_shop_createdAt_idx" ON "SyncJob"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SyncJob_shop_intent_status_idx" ON "SyncJob"("shop", "intent", "status");
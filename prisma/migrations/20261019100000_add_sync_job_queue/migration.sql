@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SyncJob" ADD COLUMN "payload" JSONB;
+
+-- CreateIndex
+CREATE INDEX "SyncJob_status_createdAt_idx" ON "SyncJob"("status", "createdAt");
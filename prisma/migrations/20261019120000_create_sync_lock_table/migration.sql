@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "SyncLock" (
+    "adminId" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "intent" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncLock_pkey" PRIMARY KEY ("adminId")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncLock_shop_idx" ON "SyncLock"("shop");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SyncJob" ADD COLUMN "dryRun" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "preview" JSONB;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ProductEchoGuard" (
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "pushedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductEchoGuard_pkey" PRIMARY KEY ("shop","productId")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductEchoGuard_expiresAt_idx" ON "ProductEchoGuard"("expiresAt");
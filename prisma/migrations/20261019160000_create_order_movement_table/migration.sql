@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "OrderMovement" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "lineItemId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "locationId" TEXT,
+    "webhookId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderMovement_shop_orderId_idx" ON "OrderMovement"("shop", "orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderMovement_shop_webhookId_lineItemId_kind_key" ON "OrderMovement"("shop", "webhookId", "lineItemId", "kind");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ComplianceAuditEntry" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "webhookId" TEXT,
+    "adminId" TEXT,
+    "status" TEXT NOT NULL,
+    "deleted" JSONB NOT NULL,
+    "errors" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ComplianceAuditEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ComplianceAuditEntry_shop_topic_createdAt_idx" ON "ComplianceAuditEntry"("shop", "topic", "createdAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "CustomerDataExport" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "orderIds" TEXT[],
+    "status" TEXT NOT NULL,
+    "counts" JSONB NOT NULL,
+    "bundle" JSONB NOT NULL,
+    "downloadedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CustomerDataExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerDataExport_webhookId_key" ON "CustomerDataExport"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "CustomerDataExport_shop_createdAt_idx" ON "CustomerDataExport"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CustomerDataExport_expiresAt_idx" ON "CustomerDataExport"("expiresAt");
@@ -0,0 +1,25 @@
+-- RenameTable
+ALTER TABLE "ComplianceAuditEntry" RENAME TO "ComplianceRequest";
+ALTER TABLE "ComplianceRequest" RENAME CONSTRAINT "ComplianceAuditEntry_pkey" TO "ComplianceRequest_pkey";
+
+-- RenameColumn
+ALTER TABLE "ComplianceRequest" RENAME COLUMN "status" TO "outcome";
+ALTER TABLE "ComplianceRequest" RENAME COLUMN "deleted" TO "recordsAffected";
+ALTER TABLE "ComplianceRequest" RENAME COLUMN "createdAt" TO "receivedAt";
+
+-- AlterTable
+ALTER TABLE "ComplianceRequest" ALTER COLUMN "recordsAffected" DROP NOT NULL,
+ADD COLUMN "customerIdHash" TEXT,
+ADD COLUMN "completedAt" TIMESTAMP(3);
+
+-- Existing entries were written once the request had been handled
+UPDATE "ComplianceRequest" SET "completedAt" = "receivedAt";
+
+-- DropIndex
+DROP INDEX "ComplianceAuditEntry_shop_topic_createdAt_idx";
+
+-- CreateIndex
+CREATE INDEX "ComplianceRequest_shop_topic_receivedAt_idx" ON "ComplianceRequest"("shop", "topic", "receivedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ComplianceRequest_webhookId_key" ON "ComplianceRequest"("webhookId");
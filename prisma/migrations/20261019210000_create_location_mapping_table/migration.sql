@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "LocationMapping" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "shopifyLocationId" TEXT NOT NULL,
+    "shopifyLocationName" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LocationMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LocationMapping_shop_adminId_idx" ON "LocationMapping"("shop", "adminId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LocationMapping_shop_shopifyLocationId_key" ON "LocationMapping"("shop", "shopifyLocationId");
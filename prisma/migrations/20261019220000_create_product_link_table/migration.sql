@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ProductLink" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "getinvItemId" TEXT NOT NULL,
+    "productGid" TEXT NOT NULL,
+    "variantGid" TEXT NOT NULL,
+    "inventoryItemGid" TEXT,
+    "sku" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'sync',
+    "shopifyHash" TEXT,
+    "getinvHash" TEXT,
+    "lastSyncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductLink_shop_productGid_idx" ON "ProductLink"("shop", "productGid");
+
+-- CreateIndex
+CREATE INDEX "ProductLink_shop_inventoryItemGid_idx" ON "ProductLink"("shop", "inventoryItemGid");
+
+-- CreateIndex
+CREATE INDEX "ProductLink_shop_sku_idx" ON "ProductLink"("shop", "sku");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductLink_shop_adminId_getinvItemId_key" ON "ProductLink"("shop", "adminId", "getinvItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductLink_shop_adminId_variantGid_key" ON "ProductLink"("shop", "adminId", "variantGid");
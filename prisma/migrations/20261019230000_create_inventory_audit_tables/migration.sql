@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "InventoryAudit" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "complete" BOOLEAN NOT NULL,
+    "locationsChecked" INTEGER NOT NULL,
+    "quantitiesChecked" INTEGER NOT NULL,
+    "discrepancyCount" INTEGER NOT NULL,
+    "discrepancies" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryAudit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventoryCorrection" (
+    "id" TEXT NOT NULL,
+    "auditId" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "syncJobId" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryCorrection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryAudit_shop_createdAt_idx" ON "InventoryAudit"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryCorrection_auditId_idx" ON "InventoryCorrection"("auditId");
+
+-- CreateIndex
+CREATE INDEX "InventoryCorrection_shop_createdAt_idx" ON "InventoryCorrection"("shop", "createdAt");
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts: the React Router plugin only makes sense for the app build
+export default defineConfig({
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+});